@@ -0,0 +1,100 @@
+/**
+ * Runs a golden question set through the agent and writes a diffable JSON report,
+ * printing one line per case plus the averages. Compare two reports (say, before and
+ * after a prompt change) with any diff tool. Exits with status 1 when any case fails.
+ *
+ *   yarn eval:agent
+ *   yarn eval:agent --provider recorded --suite fixtures/eval/changi-jewel.json
+ *   yarn eval:agent --provider openai --out data/eval-reports/after.json
+ */
+import { promises as fs } from "fs";
+import { dirname, resolve } from "path";
+
+import { assertValidVenuePacks } from "@/lib/data-validation";
+import {
+  EvalProviderName,
+  loadEvalSuite,
+  runEvaluation,
+} from "@/lib/evaluation";
+
+const PROVIDERS: EvalProviderName[] = ["mock", "recorded", "openai"];
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function print(line: string) {
+  process.stdout.write(`${line}\n`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const suitePath = readOption(args, "suite") ?? "fixtures/eval/changi-jewel.json";
+  const provider = (readOption(args, "provider") ?? "mock") as EvalProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    console.error(`Unknown provider "${provider}". Use ${PROVIDERS.join(", ")}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  assertValidVenuePacks();
+  const suite = await loadEvalSuite(suitePath);
+  const outPath = resolve(
+    readOption(args, "out") ?? `data/eval-reports/${suite.name}-${provider}.json`
+  );
+
+  if (!args.includes("--verbose")) {
+    // The agent logs every step; keep the report readable.
+    console.info = () => {};
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+  }
+
+  const report = await runEvaluation(suite, { provider });
+  await fs.mkdir(dirname(outPath), { recursive: true });
+  await fs.writeFile(outPath, `${JSON.stringify(report, null, 2)}\n`, "utf-8");
+
+  let failures = 0;
+  for (const result of report.cases) {
+    if (result.skipped) {
+      // A case that failed by reaching a live model is a failure, not a skip.
+      if (result.sharedProviderCalls?.length) failures++;
+      print(`skip  ${result.id}: ${result.skipped}`);
+      continue;
+    }
+    const flags = [
+      result.missingKnowledgeIds?.length
+        ? `missing refs ${result.missingKnowledgeIds.join(", ")}`
+        : null,
+      result.missingFacts?.length
+        ? `missing facts ${result.missingFacts.map((fact) => `"${fact}"`).join(", ")}`
+        : null,
+      result.withinWordLimit ? null : `${result.wordCount} words`,
+      result.hallucinatedNumbers?.length
+        ? `unsupported numbers ${result.hallucinatedNumbers.join(", ")}`
+        : null,
+      result.sharedProviderCalls?.length
+        ? `bypassed the ${provider} provider: ${result.sharedProviderCalls.join(", ")}`
+        : null,
+    ].filter(Boolean);
+    if (flags.length) failures++;
+    print(`${flags.length ? "FAIL" : "ok  "}  ${result.id}${flags.length ? `: ${flags.join("; ")}` : ""}`);
+  }
+
+  const { summary } = report;
+  print(
+    `\n${suite.name} (${provider}): ${summary.scored}/${summary.cases} scored, recall ${summary.retrievalRecall}, facts ${summary.factCoverage}, word limit ${summary.wordLimitCompliance}, ${summary.casesWithHallucinatedNumbers} case(s) with unsupported numbers, ${summary.casesUsingSharedProvider} case(s) bypassing the ${provider} provider`
+  );
+  print(`Report written to ${outPath}`);
+  process.exitCode = failures ? 1 : 0;
+}
+
+main().catch((error) => {
+  // console.error may be silenced above.
+  process.stderr.write(
+    `Evaluation failed: ${error instanceof Error ? error.stack : String(error)}\n`
+  );
+  process.exitCode = 1;
+});
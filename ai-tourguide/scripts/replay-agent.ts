@@ -0,0 +1,91 @@
+/**
+ * Replays agent recordings (files or folders of them) and reports any response that
+ * no longer matches what was recorded. Exits non-zero on a mismatch, so a folder of
+ * recordings of past bad answers doubles as a regression check.
+ *
+ *   yarn replay:agent data/agent-recordings/changi-jewel/2025-01-04T10-12-00-000Z-1a2b3c4d.json
+ *   yarn replay:agent --verbose data/agent-recordings
+ */
+import { promises as fs } from "fs";
+import { resolve } from "path";
+
+import { loadAgentRecording } from "@/lib/agent-recordings";
+import { replayAgentRecording } from "@/lib/agent-replay";
+import { assertValidVenuePacks } from "@/lib/data-validation";
+
+function print(line: string) {
+  process.stdout.write(`${line}\n`);
+}
+
+async function collectFiles(path: string): Promise<string[]> {
+  const stat = await fs.stat(path);
+  if (!stat.isDirectory()) {
+    return [path];
+  }
+  const files: string[] = [];
+  for (const name of (await fs.readdir(path)).sort()) {
+    const child = resolve(path, name);
+    if ((await fs.stat(child)).isDirectory()) {
+      files.push(...(await collectFiles(child)));
+    } else if (name.endsWith(".json")) {
+      files.push(child);
+    }
+  }
+  return files;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verbose = args.includes("--verbose");
+  const paths = args.filter((arg) => arg !== "--verbose");
+  if (!paths.length) {
+    console.error("Usage: yarn replay:agent [--verbose] <recording.json | folder>...");
+    process.exitCode = 1;
+    return;
+  }
+
+  assertValidVenuePacks();
+
+  if (!verbose) {
+    // The agent logs every step; keep the report readable.
+    console.info = () => {};
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+  }
+
+  let failures = 0;
+  const files = (await Promise.all(paths.map(collectFiles))).flat();
+  for (const file of files) {
+    try {
+      const { recording, differences } = await replayAgentRecording(
+        await loadAgentRecording(file)
+      );
+      if (!differences.length) {
+        print(`ok    ${file}`);
+        continue;
+      }
+      failures++;
+      print(`DIFF  ${file}\n      query: ${recording.query.query}`);
+      for (const difference of differences) {
+        print(
+          `      ${difference.field}:\n        recorded: ${JSON.stringify(
+            difference.recorded
+          )}\n        replayed: ${JSON.stringify(difference.replayed)}`
+        );
+      }
+    } catch (error) {
+      failures++;
+      print(
+        `ERROR ${file}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  print(
+    `\nReplayed ${files.length} recording(s): ${failures} mismatch(es).`
+  );
+  process.exitCode = failures ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,24 @@
+/**
+ * Lints every venue pack and prints each problem with its file and path.
+ * Exits non-zero when any error is found; warnings alone do not fail.
+ *
+ *   yarn validate:data
+ *   DATA_STALE_AFTER_MONTHS=12 yarn validate:data
+ */
+import { VENUE_PACK_SOURCES } from "@/data/packs";
+import { formatDataIssue, validateVenuePacks } from "@/lib/data-validation";
+
+const issues = validateVenuePacks(VENUE_PACK_SOURCES);
+const errors = issues.filter((issue) => issue.severity === "error");
+
+for (const issue of issues) {
+  console.log(formatDataIssue(issue));
+}
+
+console.log(
+  `\nChecked ${VENUE_PACK_SOURCES.length} venue pack(s): ${errors.length} error(s), ${
+    issues.length - errors.length
+  } warning(s).`
+);
+
+process.exitCode = errors.length ? 1 : 0;
@@ -1,30 +1,16 @@
 "use server";
 
-import OpenAI from "openai";
-
-let cachedOpenAI: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (cachedOpenAI) {
-    return cachedOpenAI;
-  }
-
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error(
-      "OPENAI_API_KEY is required for image analysis with OpenAI."
-    );
-  }
-
-  cachedOpenAI = new OpenAI({ apiKey });
-  return cachedOpenAI;
-}
+import { getLlmProvider } from "@/lib/llm";
+import { getUsageLedger } from "@/lib/usage-ledger";
+import { VenuePack, resolveVenuePack } from "@/lib/venues";
 
 export interface ImageAnalysisRequest {
   imageDataUrl: string;
   userQuestion?: string;
   placeName?: string;
+  venueId?: string;
   language?: string;
+  sessionId?: string;
 }
 
 export interface ImageAnalysisResponse {
@@ -37,24 +23,35 @@ export interface ImageAnalysisResponse {
 export async function analyzeImageAction(
   request: ImageAnalysisRequest
 ): Promise<ImageAnalysisResponse> {
+  const { pack: venue } = resolveVenuePack({
+    venueId: request.venueId,
+    placeName: request.placeName,
+  });
+
   try {
     const {
       imageDataUrl,
       userQuestion,
-      placeName = "Changi Jewel",
+      placeName = venue.manifest.name,
       language = "en-SG",
+      sessionId,
     } = request;
 
     if (!imageDataUrl) {
       throw new Error("Image data URL is required for analysis.");
     }
 
-    const openai = getOpenAIClient();
+    const provider = getLlmProvider();
+    // Past the budget, look at a low-resolution copy: far fewer image tokens.
+    const { withinBudget } = await getUsageLedger().checkBudget(sessionId);
 
     console.info("[OpenAI][ImageAnalysis] starting", {
+      venueId: venue.manifest.id,
       placeName,
       hasQuestion: Boolean(userQuestion),
       language,
+      provider: provider.name,
+      withinBudget,
     });
 
     // Extract base64 data from data URL
@@ -64,7 +61,7 @@ export async function analyzeImageAction(
     }
 
     // Create the system prompt for tour guide context
-    const systemPrompt = `You are an AI tour guide for Changi Jewel Airport. Analyze images and provide:
+    const systemPrompt = `You are an AI tour guide for ${venue.manifest.name}. Analyze images and provide:
 
 1. Brief description (2-3 sentences max)
 2. Key landmarks or features visible
@@ -79,7 +76,7 @@ Language: ${language}`;
       ? `Analyze this image and answer briefly: "${userQuestion}"`
       : "Briefly describe what you see in this image (max 50 words).";
 
-    const response = await openai.chat.completions.create({
+    const response = await provider.chat({
       model: "gpt-4o",
       messages: [
         {
@@ -94,26 +91,25 @@ Language: ${language}`;
               text: userPrompt,
             },
             {
-              type: "image_url",
-              image_url: {
-                url: imageDataUrl,
-                detail: "high",
-              },
+              type: "image",
+              url: imageDataUrl,
+              detail: withinBudget ? "high" : "low",
             },
           ],
         },
       ],
-      max_tokens: 100,
+      maxTokens: 100,
       temperature: 0.7,
+      usageTag: { feature: "image-analysis", sessionId },
     });
 
-    const analysis = response.choices[0]?.message?.content;
+    const analysis = response.text.trim();
     if (!analysis) {
-      throw new Error("No analysis received from OpenAI.");
+      throw new Error("No analysis received from the model.");
     }
 
     // Try to extract detected objects/features (simple keyword extraction)
-    const detectedObjects = extractDetectedObjects(analysis);
+    const detectedObjects = extractDetectedObjects(analysis, venue);
 
     return {
       analysis,
@@ -125,18 +121,18 @@ Language: ${language}`;
     return {
       analysis: "Unable to analyze the image at this time.",
       tourGuideResponse:
-        "I'm sorry, I couldn't analyze your image. Please try again or ask me about Changi Jewel in another way.",
+        `I'm sorry, I couldn't analyze your image. Please try again or ask me about ${venue.manifest.name} in another way.`,
       error: error instanceof Error ? error.message : "Unknown error occurred",
     };
   }
 }
 
-function extractDetectedObjects(analysis: string): string[] {
-  // Simple keyword extraction for common Changi Jewel features
+function extractDetectedObjects(analysis: string, venue: VenuePack): string[] {
+  // Simple keyword extraction: the venue's own POI names plus common features
   const keywords = [
-    "rain vortex",
+    ...venue.pointsOfInterest.map((poi) => poi.name.toLowerCase()),
+    ...venue.knowledgeIndex.entries.map((entry) => entry.name.toLowerCase()),
     "waterfall",
-    "canopy park",
     "garden",
     "shopping",
     "restaurant",
@@ -168,7 +164,7 @@ function extractDetectedObjects(analysis: string): string[] {
     "window",
   ];
 
-  const detected = keywords.filter((keyword) =>
+  const detected = Array.from(new Set(keywords)).filter((keyword) =>
     analysis.toLowerCase().includes(keyword.toLowerCase())
   );
 
@@ -7,16 +7,22 @@ export type NarratePointOfInterestInput = {
   poi: PlaceOfInterest;
   preferences: UserPreferences;
   extraGuidance?: string;
+  personaId?: string;
+  sessionId?: string;
 };
 
 export async function narratePointOfInterestAction({
   poi,
   preferences,
   extraGuidance,
+  personaId,
+  sessionId,
 }: NarratePointOfInterestInput): Promise<string> {
   return narratePointOfInterestWithOpenAI({
     poi,
     preferences,
     extraGuidance,
+    personaId,
+    sessionId,
   });
 }
@@ -0,0 +1,294 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+
+import type {
+  KnowledgeGapCluster,
+  KnowledgeGapReason,
+  KnowledgeGapReport,
+} from "@/lib/knowledge-gaps";
+
+const REASON_LABELS: Record<KnowledgeGapReason, string> = {
+  "no-match": "No match",
+  "low-score": "Low score",
+  "web-fallback": "Web fallback",
+};
+
+const REASON_STYLES: Record<KnowledgeGapReason, string> = {
+  "no-match": "bg-red-600/20 text-red-200",
+  "low-score": "bg-amber-600/20 text-amber-200",
+  "web-fallback": "bg-sky-600/20 text-sky-200",
+};
+
+const RANGE_OPTIONS = [
+  { label: "Last 7 days", days: 7 },
+  { label: "Last 30 days", days: 30 },
+  { label: "All time", days: 0 },
+];
+
+async function requestJson<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    headers: { "Content-Type": "application/json" },
+    ...init,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data?.error ?? `HTTP error! status: ${response.status}`);
+  }
+  return data as T;
+}
+
+function formatTimestamp(timestamp: string) {
+  try {
+    return new Date(timestamp).toLocaleString();
+  } catch {
+    return timestamp;
+  }
+}
+
+export default function KnowledgeGapsPage() {
+  const [days, setDays] = useState(7);
+  const [report, setReport] = useState<KnowledgeGapReport | null>(null);
+  const [selected, setSelected] = useState<KnowledgeGapCluster | null>(null);
+  const [note, setNote] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const next = await requestJson<KnowledgeGapReport>(
+        `/api/knowledge/gaps${days ? `?days=${days}` : ""}`
+      );
+      setReport(next);
+      setSelected((current) =>
+        current
+          ? next.clusters.find((cluster) => cluster.id === current.id) ?? null
+          : null
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load gaps");
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleResolve = async () => {
+    if (!selected) return;
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { resolved } = await requestJson<{ resolved: number }>(
+        "/api/knowledge/gaps/resolve",
+        {
+          method: "POST",
+          body: JSON.stringify({ ids: selected.recordIds, note }),
+        }
+      );
+      setStatus(`Marked ${resolved} question(s) as resolved`);
+      setNote("");
+      setSelected(null);
+      await fetchReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass =
+    "mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/30";
+  const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-500";
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">Knowledge Gaps</h1>
+            <p className="text-slate-400 mt-2">
+              {report ? (
+                <>
+                  Venue <code className="bg-slate-800 px-2 py-1 rounded text-sm">{report.venueId}</code>{" "}
+                  · {report.totalRecords} open question(s) in {report.clusters.length} cluster(s)
+                </>
+              ) : (
+                "Loading report..."
+              )}
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <select
+              value={days}
+              onChange={(event) => setDays(Number(event.target.value))}
+              className="bg-slate-800 px-3 py-2 rounded-lg text-sm"
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Link
+              href="/admin/knowledge"
+              className="bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Knowledge editor
+            </Link>
+            <button
+              onClick={fetchReport}
+              className="bg-emerald-600 hover:bg-emerald-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6">
+            <p className="text-red-200">Error: {error}</p>
+          </div>
+        )}
+        {status && !error && (
+          <div className="bg-emerald-500/10 border border-emerald-500/40 rounded-lg p-3 mb-6 text-sm text-emerald-200">
+            {status}
+          </div>
+        )}
+
+        {report && report.clusters.length === 0 ? (
+          <div className="bg-slate-800/50 rounded-lg p-8 text-center">
+            <p className="text-slate-400 text-lg">No knowledge gaps logged</p>
+            <p className="text-slate-500 text-sm mt-2">
+              Questions the curated notes could not answer will show up here.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-4">
+              <h2 className="text-xl font-semibold">Clusters ({report?.clusters.length ?? 0})</h2>
+              <div className="space-y-3 max-h-screen overflow-y-auto">
+                {report?.clusters.map((cluster) => (
+                  <div
+                    key={cluster.id}
+                    className={`bg-slate-800/60 rounded-lg p-4 cursor-pointer transition-all hover:bg-slate-800/80 border-2 ${
+                      selected?.id === cluster.id
+                        ? "border-emerald-500"
+                        : "border-transparent"
+                    }`}
+                    onClick={() => setSelected(cluster)}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="font-medium text-slate-100">{cluster.label}</h3>
+                      <span className="text-xs text-slate-400 whitespace-nowrap">
+                        {cluster.count}× · {cluster.sessions} session(s)
+                      </span>
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {(Object.keys(cluster.reasons) as KnowledgeGapReason[]).map((reason) => (
+                        <span key={reason} className={`text-xs px-2 py-1 rounded ${REASON_STYLES[reason]}`}>
+                          {REASON_LABELS[reason]} {cluster.reasons[reason]}
+                        </span>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-2">
+                      Last asked {formatTimestamp(cluster.lastSeen)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h2 className="text-xl font-semibold">Cluster Details</h2>
+              {selected ? (
+                <div className="bg-slate-800/60 rounded-lg p-6 space-y-4">
+                  <div>
+                    <h3 className="text-lg font-medium text-emerald-200 mb-2">{selected.label}</h3>
+                    <p className="text-sm text-slate-400">
+                      First asked {formatTimestamp(selected.firstSeen)} · last asked{" "}
+                      {formatTimestamp(selected.lastSeen)}
+                    </p>
+                  </div>
+
+                  <div>
+                    <h4 className={labelClass}>How travellers asked</h4>
+                    <ul className="mt-2 list-disc pl-5 text-sm text-slate-300 space-y-1">
+                      {selected.sampleQueries.map((query) => (
+                        <li key={query}>{query}</li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  {selected.topTerms.length > 0 && (
+                    <div>
+                      <h4 className={labelClass}>Suggested tags</h4>
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {selected.topTerms.map((term) => (
+                          <span key={term} className="bg-emerald-600/20 text-emerald-200 text-sm px-3 py-1 rounded-full">
+                            {term}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <h4 className={labelClass}>Closest existing entries</h4>
+                    {selected.nearestEntries.length ? (
+                      <ul className="mt-2 text-sm text-slate-300 space-y-1">
+                        {selected.nearestEntries.map((entry) => (
+                          <li key={entry.id}>
+                            <code className="bg-slate-900 px-2 py-0.5 rounded">{entry.id}</code>{" "}
+                            <span className="text-slate-500">score {entry.score}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-2 text-sm text-slate-500">
+                        Nothing came close; this likely needs a new entry.
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className={labelClass}>Latest answer given</h4>
+                    <div className="bg-slate-900/50 rounded p-4 mt-2">
+                      <p className="text-slate-300 whitespace-pre-wrap leading-relaxed text-sm">
+                        {selected.latestAnswer}
+                      </p>
+                    </div>
+                  </div>
+
+                  <label className={`block ${labelClass}`}>
+                    Resolution note
+                    <input
+                      className={inputClass}
+                      value={note}
+                      onChange={(event) => setNote(event.target.value)}
+                      placeholder="e.g. Added prayer_rooms entry"
+                    />
+                  </label>
+                  <button
+                    onClick={handleResolve}
+                    disabled={busy}
+                    className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    Mark resolved
+                  </button>
+                </div>
+              ) : (
+                <div className="bg-slate-800/30 rounded-lg p-8 text-center">
+                  <p className="text-slate-400">Select a cluster from the left to view details</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
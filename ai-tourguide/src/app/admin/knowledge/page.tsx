@@ -0,0 +1,498 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+
+import type { KnowledgeEntry } from "@/lib/knowledge-index";
+import type {
+  KnowledgeEntryState,
+  KnowledgeEntrySummary,
+  KnowledgeRevision,
+  StoredKnowledgeEntry,
+} from "@/lib/knowledge-store";
+
+type ListResponse = {
+  venueId: string;
+  meta: { version: string; scope?: string; publishedAt?: string };
+  entries: KnowledgeEntrySummary[];
+  pendingChanges: number;
+};
+
+type EntryResponse = {
+  entry: StoredKnowledgeEntry & { state: KnowledgeEntryState };
+};
+
+type EditorForm = {
+  id: string;
+  name: string;
+  summary: string;
+  details: string;
+  tags: string;
+  level: string;
+  lat: string;
+  lng: string;
+  lastVerified: string;
+  sources: string;
+  accessibility: string;
+  note: string;
+};
+
+const EMPTY_FORM: EditorForm = {
+  id: "",
+  name: "",
+  summary: "",
+  details: "",
+  tags: "",
+  level: "",
+  lat: "",
+  lng: "",
+  lastVerified: "",
+  sources: "[]",
+  accessibility: "",
+  note: "",
+};
+
+const STATE_STYLES: Record<KnowledgeEntryState, string> = {
+  published: "bg-emerald-600/20 text-emerald-200",
+  draft: "bg-sky-600/20 text-sky-200",
+  modified: "bg-amber-600/20 text-amber-200",
+  "pending-delete": "bg-red-600/20 text-red-200",
+  deleted: "bg-slate-700/60 text-slate-400",
+};
+
+function toForm(entry: KnowledgeEntry | null | undefined): EditorForm {
+  if (!entry) {
+    return EMPTY_FORM;
+  }
+  return {
+    id: entry.id,
+    name: entry.name,
+    summary: entry.summary,
+    details: entry.details,
+    tags: entry.tags?.join(", ") ?? "",
+    level: entry.location?.level ?? "",
+    lat: entry.location?.lat?.toString() ?? "",
+    lng: entry.location?.lng?.toString() ?? "",
+    lastVerified: entry.lastVerified ?? "",
+    sources: JSON.stringify(entry.sources ?? [], null, 2),
+    accessibility: entry.accessibility
+      ? JSON.stringify(entry.accessibility, null, 2)
+      : "",
+    note: "",
+  };
+}
+
+function toEntry(form: EditorForm): KnowledgeEntry {
+  const tags = form.tags
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  const hasLocation = form.lat || form.lng || form.level;
+
+  return {
+    id: form.id.trim(),
+    name: form.name.trim(),
+    summary: form.summary.trim(),
+    details: form.details.trim(),
+    ...(tags.length ? { tags } : {}),
+    ...(hasLocation
+      ? {
+          location: {
+            ...(form.lat ? { lat: Number(form.lat) } : {}),
+            ...(form.lng ? { lng: Number(form.lng) } : {}),
+            ...(form.level ? { level: form.level.trim() } : {}),
+          },
+        }
+      : {}),
+    sources: form.sources.trim() ? JSON.parse(form.sources) : [],
+    ...(form.accessibility.trim()
+      ? { accessibility: JSON.parse(form.accessibility) }
+      : {}),
+    ...(form.lastVerified ? { lastVerified: form.lastVerified.trim() } : {}),
+  };
+}
+
+async function requestJson<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    headers: { "Content-Type": "application/json" },
+    ...init,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data?.error ?? `HTTP error! status: ${response.status}`);
+  }
+  return data as T;
+}
+
+export default function KnowledgeAdminPage() {
+  const [listing, setListing] = useState<ListResponse | null>(null);
+  const [selected, setSelected] = useState<EntryResponse["entry"] | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [form, setForm] = useState<EditorForm>(EMPTY_FORM);
+  const [preview, setPreview] = useState<string>("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchListing = useCallback(async () => {
+    try {
+      setListing(await requestJson<ListResponse>("/api/knowledge"));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load knowledge");
+    }
+  }, []);
+
+  const selectEntry = useCallback(async (id: string) => {
+    try {
+      const { entry } = await requestJson<EntryResponse>(
+        `/api/knowledge/${encodeURIComponent(id)}`
+      );
+      setSelected(entry);
+      setIsNew(false);
+      setForm(toForm(entry.draft ?? entry.published));
+      setPreview("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load entry");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchListing();
+  }, [fetchListing]);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await action();
+      setStatus(label);
+      setError(null);
+      await fetchListing();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateField = (field: keyof EditorForm) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm((current) => ({ ...current, [field]: event.target.value }));
+
+  const handleSave = () =>
+    run(isNew ? "Draft created" : "Draft saved", async () => {
+      const entry = toEntry(form);
+      const body = JSON.stringify({ entry, note: form.note });
+      if (isNew) {
+        await requestJson("/api/knowledge", { method: "POST", body });
+      } else {
+        await requestJson(`/api/knowledge/${encodeURIComponent(entry.id)}`, {
+          method: "PUT",
+          body,
+        });
+      }
+      await selectEntry(entry.id);
+    });
+
+  const handlePreview = () =>
+    run("Preview updated", async () => {
+      const { context } = await requestJson<{ context: string }>(
+        "/api/knowledge/preview",
+        { method: "POST", body: JSON.stringify({ entries: [toEntry(form)] }) }
+      );
+      setPreview(context);
+    });
+
+  const handleDelete = (draftOnly: boolean) => {
+    if (!selected) return;
+    run(draftOnly ? "Draft discarded" : "Deletion staged", async () => {
+      await requestJson(
+        `/api/knowledge/${encodeURIComponent(selected.id)}${
+          draftOnly ? "?draftOnly=true" : ""
+        }`,
+        { method: "DELETE" }
+      );
+      await selectEntry(selected.id);
+    });
+  };
+
+  const handleRollback = (revision: KnowledgeRevision) => {
+    if (!selected) return;
+    run(`Revision ${revision.revision} staged as draft`, async () => {
+      await requestJson(
+        `/api/knowledge/${encodeURIComponent(selected.id)}/rollback`,
+        {
+          method: "POST",
+          body: JSON.stringify({ revision: revision.revision }),
+        }
+      );
+      await selectEntry(selected.id);
+    });
+  };
+
+  const handlePublish = () =>
+    run("Published", async () => {
+      const result = await requestJson<{ meta: { version: string } }>(
+        "/api/knowledge/publish",
+        { method: "POST", body: JSON.stringify({ note: form.note }) }
+      );
+      setStatus(`Published version ${result.meta.version}`);
+      if (selected) {
+        await selectEntry(selected.id);
+      }
+    });
+
+  const startNewEntry = () => {
+    setSelected(null);
+    setIsNew(true);
+    setForm(EMPTY_FORM);
+    setPreview("");
+  };
+
+  const inputClass =
+    "mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/30";
+  const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-500";
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">Knowledge Editor</h1>
+            <p className="text-slate-400 mt-2">
+              {listing ? (
+                <>
+                  Venue <code className="bg-slate-800 px-2 py-1 rounded text-sm">{listing.venueId}</code>{" "}
+                  · version <code className="bg-slate-800 px-2 py-1 rounded text-sm">{listing.meta.version}</code>{" "}
+                  · {listing.pendingChanges} pending change(s)
+                </>
+              ) : (
+                "Loading knowledge..."
+              )}
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <Link
+              href="/admin"
+              className="bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Image analyses
+            </Link>
+            <Link
+              href="/admin/gaps"
+              className="bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Knowledge gaps
+            </Link>
+            <button
+              onClick={handlePublish}
+              disabled={busy || !listing?.pendingChanges}
+              className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Publish drafts
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6">
+            <p className="text-red-200">Error: {error}</p>
+          </div>
+        )}
+        {status && !error && (
+          <div className="bg-emerald-500/10 border border-emerald-500/40 rounded-lg p-3 mb-6 text-sm text-emerald-200">
+            {status}
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_2fr]">
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold">
+                Entries ({listing?.entries.length ?? 0})
+              </h2>
+              <button
+                onClick={startNewEntry}
+                className="text-sm text-emerald-300 hover:text-emerald-200"
+              >
+                + New entry
+              </button>
+            </div>
+            <div className="space-y-3 max-h-screen overflow-y-auto">
+              {listing?.entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className={`bg-slate-800/60 rounded-lg p-4 cursor-pointer transition-all hover:bg-slate-800/80 border-2 ${
+                    selected?.id === entry.id
+                      ? "border-emerald-500"
+                      : "border-transparent"
+                  }`}
+                  onClick={() => selectEntry(entry.id)}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <h3 className="font-medium text-slate-100">{entry.name}</h3>
+                    <span className={`text-xs px-2 py-1 rounded ${STATE_STYLES[entry.state]}`}>
+                      {entry.state}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-500 font-mono mt-1">
+                    {entry.id} · {entry.revisionCount} revision(s)
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">
+              {isNew ? "New entry" : selected ? `Editing ${selected.id}` : "Entry details"}
+            </h2>
+            {isNew || selected ? (
+              <div className="bg-slate-800/60 rounded-lg p-6 space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <label className={labelClass}>
+                    Id
+                    <input className={inputClass} value={form.id} onChange={updateField("id")} disabled={!isNew} />
+                  </label>
+                  <label className={labelClass}>
+                    Name
+                    <input className={inputClass} value={form.name} onChange={updateField("name")} />
+                  </label>
+                </div>
+                <label className={`block ${labelClass}`}>
+                  Summary
+                  <textarea className={`${inputClass} h-20`} value={form.summary} onChange={updateField("summary")} />
+                </label>
+                <label className={`block ${labelClass}`}>
+                  Details
+                  <textarea className={`${inputClass} h-32`} value={form.details} onChange={updateField("details")} />
+                </label>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <label className={labelClass}>
+                    Tags (comma separated)
+                    <input className={inputClass} value={form.tags} onChange={updateField("tags")} />
+                  </label>
+                  <label className={labelClass}>
+                    Last verified (YYYY-MM)
+                    <input className={inputClass} value={form.lastVerified} onChange={updateField("lastVerified")} />
+                  </label>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <label className={labelClass}>
+                    Level
+                    <input className={inputClass} value={form.level} onChange={updateField("level")} />
+                  </label>
+                  <label className={labelClass}>
+                    Lat
+                    <input className={inputClass} value={form.lat} onChange={updateField("lat")} />
+                  </label>
+                  <label className={labelClass}>
+                    Lng
+                    <input className={inputClass} value={form.lng} onChange={updateField("lng")} />
+                  </label>
+                </div>
+                <label className={`block ${labelClass}`}>
+                  Sources (JSON)
+                  <textarea className={`${inputClass} h-24 font-mono`} value={form.sources} onChange={updateField("sources")} />
+                </label>
+                <label className={`block ${labelClass}`}>
+                  Accessibility (JSON, optional)
+                  <textarea className={`${inputClass} h-24 font-mono`} value={form.accessibility} onChange={updateField("accessibility")} />
+                </label>
+                <label className={`block ${labelClass}`}>
+                  Change note
+                  <input className={inputClass} value={form.note} onChange={updateField("note")} />
+                </label>
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={handleSave}
+                    disabled={busy}
+                    className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    Save draft
+                  </button>
+                  <button
+                    onClick={handlePreview}
+                    disabled={busy}
+                    className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    Preview agent context
+                  </button>
+                  {selected && selected.draft !== undefined && (
+                    <button
+                      onClick={() => handleDelete(true)}
+                      disabled={busy}
+                      className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                    >
+                      Discard draft
+                    </button>
+                  )}
+                  {selected?.published && (
+                    <button
+                      onClick={() => handleDelete(false)}
+                      disabled={busy}
+                      className="bg-red-600/80 hover:bg-red-600 disabled:opacity-40 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                    >
+                      Delete entry
+                    </button>
+                  )}
+                </div>
+
+                {preview && (
+                  <div>
+                    <h4 className="text-md font-medium text-slate-200 mb-2">Agent context preview</h4>
+                    <pre className="bg-slate-900/50 rounded p-4 text-sm text-slate-300 whitespace-pre-wrap">
+                      {preview}
+                    </pre>
+                  </div>
+                )}
+
+                {selected && (
+                  <div>
+                    <h4 className="text-md font-medium text-slate-200 mb-2">
+                      Revision history ({selected.revisions.length})
+                    </h4>
+                    <ul className="space-y-2">
+                      {[...selected.revisions].reverse().map((revision) => (
+                        <li
+                          key={revision.revision}
+                          className="flex items-start justify-between gap-3 bg-slate-900/50 rounded p-3 text-sm"
+                        >
+                          <div>
+                            <p className="text-slate-200">
+                              #{revision.revision} · {revision.status}
+                              {revision.entry ? "" : " · deletion"}
+                            </p>
+                            <p className="text-xs text-slate-400">
+                              {new Date(revision.savedAt).toLocaleString()}
+                              {revision.author ? ` · ${revision.author}` : ""}
+                              {revision.note ? ` · ${revision.note}` : ""}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => handleRollback(revision)}
+                            disabled={busy}
+                            className="text-xs text-emerald-300 hover:text-emerald-200 disabled:opacity-40"
+                          >
+                            Roll back to this
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="bg-slate-800/30 rounded-lg p-8 text-center">
+                <p className="text-slate-400">Select an entry from the left or create a new one</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
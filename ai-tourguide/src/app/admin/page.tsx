@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useState } from "react";
 
 type ImageAnalysis = {
@@ -82,12 +83,32 @@ export default function AdminPage() {
               Viewing saved image analyses from: <code className="bg-slate-800 px-2 py-1 rounded text-sm">{storageDir}</code>
             </p>
           </div>
-          <button
-            onClick={fetchAnalyses}
-            className="bg-emerald-600 hover:bg-emerald-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
-          >
-            Refresh
-          </button>
+          <div className="flex gap-3">
+            <Link
+              href="/admin/knowledge"
+              className="bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Knowledge editor
+            </Link>
+            <Link
+              href="/admin/gaps"
+              className="bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Knowledge gaps
+            </Link>
+            <Link
+              href="/admin/usage"
+              className="bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Usage
+            </Link>
+            <button
+              onClick={fetchAnalyses}
+              className="bg-emerald-600 hover:bg-emerald-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Refresh
+            </button>
+          </div>
         </div>
 
         {error && (
@@ -0,0 +1,284 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+
+import type {
+  UsageFeature,
+  UsageReport,
+  UsageTotals,
+} from "@/lib/usage-ledger";
+
+const FEATURE_LABELS: Record<UsageFeature, string> = {
+  agent: "Agent runs",
+  "knowledge-digest": "Knowledge digest",
+  rewrite: "Friendly-tone rewrite",
+  "image-analysis": "Image analysis",
+  narration: "POI narration",
+  tts: "ElevenLabs speech",
+  other: "Other",
+};
+
+const RANGE_OPTIONS = [
+  { label: "Today", days: 1 },
+  { label: "Last 7 days", days: 7 },
+  { label: "Last 30 days", days: 30 },
+];
+
+async function requestJson<T>(input: string): Promise<T> {
+  const response = await fetch(input, {
+    headers: { "Content-Type": "application/json" },
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data?.error ?? `HTTP error! status: ${response.status}`);
+  }
+  return data as T;
+}
+
+function formatTimestamp(timestamp: string) {
+  try {
+    return new Date(timestamp).toLocaleString();
+  } catch {
+    return timestamp;
+  }
+}
+
+function formatCost(value: number) {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function formatCount(value: number) {
+  return value.toLocaleString();
+}
+
+function TotalsCells({ totals }: { totals: UsageTotals }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-right">{formatCount(totals.requests)}</td>
+      <td className="px-3 py-2 text-right">{formatCount(totals.inputTokens)}</td>
+      <td className="px-3 py-2 text-right">{formatCount(totals.outputTokens)}</td>
+      <td className="px-3 py-2 text-right">{formatCount(totals.characters)}</td>
+      <td className="px-3 py-2 text-right text-emerald-200">{formatCost(totals.costUsd)}</td>
+    </>
+  );
+}
+
+const TOTALS_HEADERS = ["Requests", "Input tokens", "Output tokens", "TTS chars", "Est. cost"];
+
+export default function UsagePage() {
+  const [days, setDays] = useState(7);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setReport(await requestJson<UsageReport>(`/api/usage?days=${days}`));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load usage");
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const tableClass = "w-full text-sm text-slate-300";
+  const headClass =
+    "px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500";
+  const features = report
+    ? (Object.keys(report.byFeature) as UsageFeature[]).sort(
+        (a, b) =>
+          (report.byFeature[b]?.costUsd ?? 0) - (report.byFeature[a]?.costUsd ?? 0)
+      )
+    : [];
+  const dailyShare = report
+    ? Math.min(report.today.costUsd / report.budgets.dailyCostUsd, 1)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">Usage &amp; Cost</h1>
+            <p className="text-slate-400 mt-2">
+              {report
+                ? `${formatCount(report.totals.totalTokens)} tokens · ${formatCost(report.totals.costUsd)} estimated in range`
+                : "Loading report..."}
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <select
+              value={days}
+              onChange={(event) => setDays(Number(event.target.value))}
+              className="bg-slate-800 px-3 py-2 rounded-lg text-sm"
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Link
+              href="/admin"
+              className="bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Admin home
+            </Link>
+            <button
+              onClick={fetchReport}
+              className="bg-emerald-600 hover:bg-emerald-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6">
+            <p className="text-red-200">Error: {error}</p>
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-8">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="bg-slate-800/60 rounded-lg p-4">
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Spent today (UTC)
+                </p>
+                <p className="text-2xl font-semibold mt-2">
+                  {formatCost(report.today.costUsd)}{" "}
+                  <span className="text-sm text-slate-400">
+                    of {formatCost(report.budgets.dailyCostUsd)}
+                  </span>
+                </p>
+                <div className="mt-3 h-2 rounded-full bg-slate-900">
+                  <div
+                    className={`h-2 rounded-full ${dailyShare >= 1 ? "bg-red-500" : "bg-emerald-500"}`}
+                    style={{ width: `${dailyShare * 100}%` }}
+                  />
+                </div>
+              </div>
+              <div className="bg-slate-800/60 rounded-lg p-4">
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Per-session budget
+                </p>
+                <p className="text-2xl font-semibold mt-2">
+                  {formatCount(report.budgets.sessionTokens)}{" "}
+                  <span className="text-sm text-slate-400">tokens</span>
+                </p>
+                <p className="text-sm text-slate-400 mt-1">
+                  or {formatCost(report.budgets.sessionCostUsd)}, whichever comes first
+                </p>
+              </div>
+              <div className="bg-slate-800/60 rounded-lg p-4">
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Over budget
+                </p>
+                <p className="text-sm text-slate-300 mt-2 leading-relaxed">
+                  Replies skip the tone rewrite and knowledge digest, narration uses the
+                  template, photos are read at low detail and speech uses the browser voice.
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-xl font-semibold mb-3">By feature</h2>
+              {features.length ? (
+                <table className={tableClass}>
+                  <thead>
+                    <tr className="text-left">
+                      <th className={headClass}>Feature</th>
+                      {TOTALS_HEADERS.map((header) => (
+                        <th key={header} className={`${headClass} text-right`}>{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {features.map((feature) => (
+                      <tr key={feature} className="border-t border-slate-800">
+                        <td className="px-3 py-2">{FEATURE_LABELS[feature] ?? feature}</td>
+                        <TotalsCells totals={report.byFeature[feature]!} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="bg-slate-800/50 rounded-lg p-8 text-center">
+                  <p className="text-slate-400 text-lg">No usage recorded</p>
+                  <p className="text-slate-500 text-sm mt-2">
+                    Model and speech calls will show up here as travellers use the guide.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {report.days.length > 0 && (
+              <div>
+                <h2 className="text-xl font-semibold mb-3">By day</h2>
+                <table className={tableClass}>
+                  <thead>
+                    <tr className="text-left">
+                      <th className={headClass}>Date (UTC)</th>
+                      {TOTALS_HEADERS.map((header) => (
+                        <th key={header} className={`${headClass} text-right`}>{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.days.map((day) => (
+                      <tr key={day.date} className="border-t border-slate-800">
+                        <td className="px-3 py-2">{day.date}</td>
+                        <TotalsCells totals={day.totals} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {report.sessions.length > 0 && (
+              <div>
+                <h2 className="text-xl font-semibold mb-3">Top sessions</h2>
+                <table className={tableClass}>
+                  <thead>
+                    <tr className="text-left">
+                      <th className={headClass}>Session</th>
+                      <th className={headClass}>Last seen</th>
+                      {TOTALS_HEADERS.map((header) => (
+                        <th key={header} className={`${headClass} text-right`}>{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.sessions.map((session) => (
+                      <tr key={session.sessionId} className="border-t border-slate-800">
+                        <td className="px-3 py-2">
+                          <code className="bg-slate-900 px-2 py-0.5 rounded">
+                            {session.sessionId.slice(0, 12)}
+                          </code>
+                          <p className="text-xs text-slate-500 mt-1">
+                            {session.features
+                              .map((feature) => FEATURE_LABELS[feature] ?? feature)
+                              .join(", ")}
+                          </p>
+                        </td>
+                        <td className="px-3 py-2 text-slate-400">
+                          {formatTimestamp(session.lastSeen)}
+                        </td>
+                        <TotalsCells totals={session.totals} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
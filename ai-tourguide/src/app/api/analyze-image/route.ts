@@ -9,7 +9,9 @@ export async function POST(req: Request) {
     const imageDataUrl = body?.imageDataUrl;
     const userQuestion = body?.userQuestion;
     const placeName = body?.placeName;
+    const venueId = body?.venueId;
     const language = body?.language;
+    const sessionId = body?.sessionId ? String(body.sessionId) : undefined;
 
     if (!imageDataUrl) {
       return Response.json(
@@ -22,7 +24,9 @@ export async function POST(req: Request) {
       imageDataUrl,
       userQuestion,
       placeName,
+      venueId,
       language,
+      sessionId,
     });
 
     return Response.json(result);
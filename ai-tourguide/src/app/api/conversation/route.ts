@@ -1,13 +1,33 @@
-import OpenAI from "openai";
-
 import { expiresAt, getSession, iso, now, type Msg } from "@/lib/conversation";
+import { attributeCitations, knowledgeCitationSource } from "@/lib/citations";
 import { ConversationHistoryStore } from "@/lib/conversation-history";
-import { TourGuideAgent } from "@/lib/tour-agent";
+import { getFaqMatcher } from "@/lib/faq-matcher";
+import { checkUserInput } from "@/lib/input-safety";
+import {
+  Persona,
+  describePersonaStyle,
+  getPersona,
+  getPersonaVoiceId,
+  personaRefusal,
+  resolvePersona,
+} from "@/lib/personas";
+import {
+  LlmMessage,
+  LlmTextResult,
+  emptyUsage,
+  getLlmProvider,
+} from "@/lib/llm";
+import { AgentActivity, AgentResponse, TourGuideAgent } from "@/lib/tour-agent";
+import { getUsageLedger } from "@/lib/usage-ledger";
+import { resolveVenuePack } from "@/lib/venues";
 
 const FRIENDLY_TONE_MODEL =
   process.env.OPENAI_FRIENDLY_TONE_MODEL ?? "gpt-4o-mini";
+// FAQ answers are served verbatim unless this opts into the persona rewrite.
+const RESTYLE_FAQ_ANSWERS = process.env.FAQ_RESTYLE === "true";
+// The agent already answers in the persona's voice; this adds a second restyling pass.
+const REWRITE_AGENT_REPLIES = process.env.PERSONA_REWRITE === "true";
 
-let cachedOpenAI: OpenAI | null = null;
 let cachedHistoryStore: ConversationHistoryStore | null = null;
 
 function getHistoryStore(): ConversationHistoryStore {
@@ -40,171 +60,396 @@ async function loadSessionHistory(sessionId: string): Promise<Msg[]> {
   }
 }
 
-function getOpenAIClient(): OpenAI {
-  if (cachedOpenAI) {
-    return cachedOpenAI;
-  }
-
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error(
-      "OPENAI_API_KEY is required to adjust conversation tone with OpenAI."
-    );
-  }
-
-  cachedOpenAI = new OpenAI({ apiKey });
-  return cachedOpenAI;
-}
-
 async function rewriteReplyToFriendlyTone(
   text: string,
-  lang: string
-): Promise<string> {
+  lang: string,
+  venueName: string,
+  persona: Persona,
+  sessionId: string,
+  onDelta?: (delta: string) => void
+): Promise<LlmTextResult> {
   const trimmed = text.trim();
   if (!trimmed) {
-    return text;
+    return { text, usage: emptyUsage() };
   }
 
+  const input: LlmMessage[] = [
+    {
+      role: "system",
+      content: `${describePersonaStyle(persona)} You know every corner of ${venueName} and want the traveller to feel welcomed. Start by directly answering the traveller's question with the key fact or guidance, never dropping important details. When the original reply inferred intent or filled gaps, preserve the reasoning and state any assumptions clearly. Keep replies breezy and conversational—ideally 2 punchy sentences, with a third only if it adds vital detail, all within about 60 words. Carry over any warnings or uncertainty, and end with one natural follow-up suggestion only if it helps them keep exploring. Let the sentences flow naturally; you can use short paragraphs instead of forced line breaks.`,
+    },
+    {
+      role: "user",
+      content: `Language style hint: ${lang}\n\nOriginal reply:\n${trimmed}\n\nRewrite this in ${persona.name}’s voice while retaining all guidance. Aim for two short sentences (three only if essential), keep it easy to narrate, and stay under roughly 60 words.`,
+    },
+  ];
+
   try {
-    const client = getOpenAIClient();
-    const response = await client.responses.create({
+    // Streaming callers hear the rewrite as it is written instead of after it.
+    const response = await getLlmProvider().respond({
+      metadata: { source: "rewriteReplyToFriendlyTone" },
       model: FRIENDLY_TONE_MODEL,
-      max_output_tokens: 500,
-      input: [
-        {
-          role: "system",
-          content:
-            "You are a friendly local bringing your friend around your place. You are a Singaporean and sound like a young woman in her early 20s — cheerful, confident, and slightly dramatic, with natural Singlish rhythm and tone. Sprinkle everyday particles like “lah”, “leh”, “lor”, “sia”, “pls”, “eh” and playful phrases such as “confirm can”, “steady boh”, “shiok right?” where they fit. Sound like a close friend who knows every corner of Jewel and wants the traveller to feel welcomed. Start by directly answering the traveller's question with the key fact or guidance, never dropping important details. When the original reply inferred intent or filled gaps, preserve the reasoning and state any assumptions clearly. Keep replies breezy and conversational—ideally 2 punchy sentences, with a third only if it adds vital detail, all within about 60 words. Carry over any warnings or uncertainty, and end with one natural follow-up suggestion only if it helps them keep exploring. Let the sentences flow naturally; you can use short paragraphs instead of forced line breaks.",
-        },
-        {
-          role: "user",
-          content: `Language style hint: ${lang}\n\nOriginal reply:\n${trimmed}\n\nRewrite this to sound like a warm, chatty tour-guide friend while retaining all guidance. Pepper Singlish touches (“lah”, “leh”, “lor”, “sia”, “shiok”, “can anot?”) naturally. Aim for two short sentences (three only if essential), keep it easy to narrate, and stay under roughly 60 words.`,
-        },
-      ],
+      maxOutputTokens: 500,
+      input,
+      onDelta,
+      usageTag: { feature: "rewrite", sessionId },
     });
 
-    const output = response.output_text?.trim();
-    return output && output.length ? output : text;
+    const output = response.text.trim();
+    return { text: output.length ? output : text, usage: response.usage };
   } catch (error) {
     console.warn("[ConversationAPI] friendly tone rewrite failed", { error });
-    return text;
+    return { text, usage: emptyUsage() };
   }
 }
 
 export const runtime = "nodejs";
 
-export async function POST(req: Request) {
-  try {
-    console.log("api conversation is triggered");
-    const body = await req.json().catch(() => ({}));
-    const rawText = body?.text;
-    const text =
-      rawText === undefined || rawText === null ? "" : String(rawText);
-    const trimmedText = text.trim();
-    const strippedFromClient =
-      typeof body?.strippedText === "string" ? body.strippedText.trim() : "";
-    const placeName = body?.placeName ? String(body.placeName) : undefined;
-    const lat = typeof body?.lat === "number" ? body.lat : undefined;
-    const lng = typeof body?.lng === "number" ? body.lng : undefined;
-    const providedSessionId = body?.sessionId ? String(body.sessionId) : null;
-
-    if (!trimmedText && !strippedFromClient) {
-      return Response.json({ error: "Missing 'text'." }, { status: 400 });
-    }
+type TurnHooks = {
+  onActivity?: (activity: AgentActivity) => void;
+  onDelta?: (delta: string) => void;
+};
 
-    const session = getSession(providedSessionId);
-    console.log("session", session);
+type TurnResult = {
+  status: number;
+  payload: Record<string, unknown>;
+};
 
-    // Load conversation history from file if sessionId is provided and session is empty
-    if (providedSessionId && session.messages.length === 0) {
-      const historyMessages = await loadSessionHistory(providedSessionId);
-      if (historyMessages.length > 0) {
-        session.messages = historyMessages;
-        // Update turns count based on loaded messages
-        session.turns = Math.floor(historyMessages.length / 2);
-      }
+async function runConversationTurn(
+  rawBody: unknown,
+  hooks: TurnHooks = {}
+): Promise<TurnResult> {
+  const body: Record<string, unknown> =
+    rawBody && typeof rawBody === "object"
+      ? (rawBody as Record<string, unknown>)
+      : {};
+  const rawText = body.text;
+  const text =
+    rawText === undefined || rawText === null ? "" : String(rawText);
+  const trimmedText = text.trim();
+  const strippedFromClient =
+    typeof body.strippedText === "string" ? body.strippedText.trim() : "";
+  const placeName = body.placeName ? String(body.placeName) : undefined;
+  const lat = typeof body.lat === "number" ? body.lat : undefined;
+  const lng = typeof body.lng === "number" ? body.lng : undefined;
+  const level = body.level ? String(body.level) : undefined;
+  const providedSessionId = body.sessionId ? String(body.sessionId) : null;
+  const accessibilityNotes =
+    typeof body.accessibilityNotes === "string"
+      ? body.accessibilityNotes
+      : undefined;
+  const interests = Array.isArray(body.interests)
+    ? body.interests.map((interest: unknown) => String(interest))
+    : undefined;
+  const preferredPace =
+    typeof body.preferredPace === "string" ? body.preferredPace : undefined;
+
+  if (!trimmedText && !strippedFromClient) {
+    return { status: 400, payload: { error: "Missing 'text'." } };
+  }
+
+  const session = getSession(providedSessionId);
+  console.log("session", session);
+
+  // Load conversation history from file if sessionId is provided and session is empty
+  if (providedSessionId && session.messages.length === 0) {
+    const historyMessages = await loadSessionHistory(providedSessionId);
+    if (historyMessages.length > 0) {
+      session.messages = historyMessages;
+      // Update turns count based on loaded messages
+      session.turns = Math.floor(historyMessages.length / 2);
     }
+  }
+
+  const detectedWakeWord =
+    typeof body.wakeWordDetected === "boolean"
+      ? body.wakeWordDetected
+      : session.turns === 0; // First turn requires wake word
+  const userText = strippedFromClient || trimmedText;
+
+  const requestedLang =
+    body.lang !== undefined ? String(body.lang) : undefined;
+  const lang = requestedLang ?? session.lang ?? "en-SG";
+
+  // A persona picked once sticks to the session until another is picked.
+  const requestedPersona = getPersona(
+    body.personaId ? String(body.personaId) : undefined
+  );
+  if (requestedPersona) {
+    session.personaId = requestedPersona.id;
+  }
 
-    const detectedWakeWord =
-      typeof body?.wakeWordDetected === "boolean"
-        ? body.wakeWordDetected
-        : session.turns === 0; // First turn requires wake word
-    const userText = strippedFromClient || trimmedText;
+  const { pack: venue, matchedBy: venueMatchedBy } = resolveVenuePack({
+    venueId: body.venueId ? String(body.venueId) : undefined,
+    placeName,
+    lat,
+    lng,
+  });
+  const persona = resolvePersona(session.personaId, venue);
 
-    const requestedLang =
-      body?.lang !== undefined ? String(body.lang) : undefined;
-    const lang = requestedLang ?? session.lang ?? "en-SG";
+  // Past the session or daily budget the reply goes out without the tone rewrite.
+  const budget = await getUsageLedger().checkBudget(session.id);
+  const restyle = budget.withinBudget;
 
+  // Unsafe messages are refused in the guide's voice before an FAQ can answer them.
+  const safety = checkUserInput(userText);
+  // Near-duplicates of curated FAQs skip both the agent run and the tone rewrite.
+  const faqResult = safety ? null : getFaqMatcher(venue).match(userText);
+  let agentResult: AgentResponse;
+  let reply: string;
+  let rewrite: LlmTextResult | null = null;
+  const turnStartedAt = Date.now();
+  let rewriteStartedAt = turnStartedAt;
+  if (safety) {
+    console.warn("[ConversationAPI] refused unsafe message", {
+      issue: safety.issue,
+      matched: safety.matched,
+    });
+    reply = personaRefusal(persona, safety.issue);
+    agentResult = {
+      answer: reply,
+      knowledgeReferences: [],
+      usedWebSearch: false,
+      venueId: venue.manifest.id,
+    };
+  } else if (faqResult?.match) {
+    const { faq, entry, confidence } = faqResult.match;
+    console.info("[ConversationAPI] answered from FAQ", {
+      question: faq.question,
+      confidence,
+      restyled: RESTYLE_FAQ_ANSWERS,
+    });
+    agentResult = {
+      answer: faq.answer,
+      knowledgeReferences: [entry.id],
+      citationSources: [knowledgeCitationSource(entry)],
+      usedWebSearch: false,
+      venueId: venue.manifest.id,
+    };
+    if (RESTYLE_FAQ_ANSWERS && restyle) {
+      rewrite = await rewriteReplyToFriendlyTone(
+        faq.answer,
+        lang,
+        venue.manifest.name,
+        persona,
+        session.id,
+        hooks.onDelta
+      );
+    }
+    reply = rewrite?.text ?? faq.answer;
+  } else {
     const agent = TourGuideAgent.getInstance();
-    const agentResult = await agent.respond({
+    agentResult = await agent.respond({
       query: userText,
+      venueId: venue.manifest.id,
       placeName,
       lang,
       locationHint:
         typeof lat === "number" && typeof lng === "number"
-          ? { lat, lng }
+          ? { lat, lng, level }
           : undefined,
       sessionId: session.id,
+      personaId: persona.id,
+      accessibilityNotes,
+      interests,
+      preferredPace,
+      onActivity: hooks.onActivity,
+      // With the rewrite on, the rewrite streams instead of the agent.
+      onDelta: REWRITE_AGENT_REPLIES && restyle ? undefined : hooks.onDelta,
     });
     console.log("agentResult", agentResult);
-    // const reply = agentResult.answer;
-    const reply = await rewriteReplyToFriendlyTone(agentResult.answer, lang);
-
-    const history = session.messages;
-
-    console.log("history", history);
-    session.messages = [
-      ...history,
-      { role: "user", content: userText },
-      { role: "assistant", content: reply },
-    ];
-    session.turns += 1;
-    session.lang = lang;
-    session.lastSeenAt = now();
-
-    // Save conversation to persistent history store
-    try {
-      const historyStore = getHistoryStore();
-      await historyStore.append({
-        user: userText,
-        assistant: reply,
-        timestamp: new Date().toISOString(),
-        sessionId: session.id,
-      });
-    } catch (error) {
-      console.warn("[ConversationAPI] failed to save conversation history", {
-        error,
-      });
+    rewriteStartedAt = Date.now();
+    if (REWRITE_AGENT_REPLIES && restyle) {
+      rewrite = await rewriteReplyToFriendlyTone(
+        agentResult.answer,
+        lang,
+        venue.manifest.name,
+        persona,
+        session.id,
+        hooks.onDelta
+      );
     }
+    reply = rewrite?.text ?? agentResult.answer;
+  }
+  const turnFinishedAt = Date.now();
 
-    const payload = {
+  // Compare single-pass turns against agent + rewrite turns from these logs.
+  const agentUsage = agentResult.usage ?? emptyUsage();
+  const rewriteUsage = rewrite?.usage ?? emptyUsage();
+  const timing = {
+    mode: safety
+      ? "refused"
+      : faqResult?.match
+      ? "faq"
+      : rewrite
+      ? "agent+rewrite"
+      : "single-pass",
+    agentMs: rewriteStartedAt - turnStartedAt,
+    rewriteMs: rewrite ? turnFinishedAt - rewriteStartedAt : 0,
+    totalMs: turnFinishedAt - turnStartedAt,
+    agentTokens: agentUsage.totalTokens,
+    rewriteTokens: rewriteUsage.totalTokens,
+    modelRequests: agentUsage.requests + rewriteUsage.requests,
+  };
+  console.info("[ConversationAPI] turn timing", {
+    sessionId: session.id,
+    ...timing,
+  });
+  // The tone rewrite changes wording, so attribute against the text we send back.
+  const citations = attributeCitations(
+    reply,
+    agentResult.citationSources ?? []
+  );
+
+  const relatedPois = venue.pointsOfInterest
+    .filter((poi) => agentResult.relatedPoiIds?.includes(poi.id))
+    .map((poi) => ({ id: poi.id, name: poi.name }));
+
+  const history = session.messages;
+
+  console.log("history", history);
+  session.messages = [
+    ...history,
+    { role: "user", content: userText },
+    { role: "assistant", content: reply },
+  ];
+  session.turns += 1;
+  session.lang = lang;
+  session.lastSeenAt = now();
+
+  // Save conversation to persistent history store
+  try {
+    const historyStore = getHistoryStore();
+    await historyStore.append({
+      user: userText,
+      assistant: reply,
+      timestamp: new Date().toISOString(),
       sessionId: session.id,
-      reply,
-      ended: false,
-      endReason: null as null,
-      meta: {
-        turn: session.turns,
-        lastSeenAt: iso(session.lastSeenAt),
-        expiresAt: iso(expiresAt(session)),
-        detectedWakeWord,
-        knowledgeReferences: agentResult.knowledgeReferences,
-        usedWebSearch: agentResult.usedWebSearch,
-        webSearchNote: agentResult.webSearchNote,
+    });
+  } catch (error) {
+    console.warn("[ConversationAPI] failed to save conversation history", {
+      error,
+    });
+  }
+
+  const payload = {
+    sessionId: session.id,
+    reply,
+    ended: false,
+    endReason: null as null,
+    meta: {
+      turn: session.turns,
+      lastSeenAt: iso(session.lastSeenAt),
+      expiresAt: iso(expiresAt(session)),
+      detectedWakeWord,
+      venueId: venue.manifest.id,
+      venueMatchedBy,
+      persona: {
+        id: persona.id,
+        name: persona.name,
+        voiceId: getPersonaVoiceId(persona) ?? null,
+        wakePhrase: persona.wakePhrase,
       },
-    };
-    console.log("payload", payload);
-    return Response.json(payload);
-  } catch (err: unknown) {
-    return Response.json(
-      {
-        error:
-          err && typeof err === "object" && "message" in err
-            ? String(
-                (err as { message?: unknown }).message ?? "Unexpected error"
-              )
-            : "Unexpected error",
+      knowledgeReferences: agentResult.knowledgeReferences,
+      citations,
+      usedWebSearch: agentResult.usedWebSearch,
+      webSearchNote: agentResult.webSearchNote,
+      cache: agentResult.cache ?? null,
+      factCheck: agentResult.factCheck ?? null,
+      // A rewritten reply no longer matches the agent's spoken version.
+      spokenReply: rewrite ? null : agentResult.spokenAnswer ?? null,
+      followUps: agentResult.followUps ?? [],
+      relatedPois,
+      confidence: agentResult.confidence ?? null,
+      faq: faqResult
+        ? {
+            ...faqResult.status,
+            restyled: faqResult.status.hit && RESTYLE_FAQ_ANSWERS && restyle,
+          }
+        : null,
+      usage: {
+        withinBudget: budget.withinBudget,
+        reason: budget.reason ?? null,
       },
-      { status: 500 }
-    );
+      timing,
+    },
+  };
+  console.log("payload", payload);
+  return { status: 200, payload };
+}
+
+function errorMessage(err: unknown): string {
+  return err && typeof err === "object" && "message" in err
+    ? String((err as { message?: unknown }).message ?? "Unexpected error")
+    : "Unexpected error";
+}
+
+/**
+ * Streams the turn as Server-Sent Events when the client sends
+ * `Accept: text/event-stream`:
+ *   event: activity  data: { tool, label }   a tool the agent is calling
+ *   event: delta     data: { text }          the next slice of the reply
+ *   event: done      data: { sessionId, reply, ended, endReason, meta }
+ *   event: error     data: { error }
+ * Deltas come from the agent's first pass, or from the rewrite when it runs.
+ * `done.reply` is authoritative: fact checks, guardrails, a web-search rerun or a
+ * rewrite that fails midway can all make it differ from the deltas.
+ */
+function streamConversationTurn(body: unknown): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+
+      let streamedText = false;
+      try {
+        const { status, payload } = await runConversationTurn(body, {
+          onActivity: (activity) => send("activity", activity),
+          onDelta: (text) => {
+            streamedText = true;
+            send("delta", { text });
+          },
+        });
+        if (status !== 200) {
+          send("error", payload);
+        } else {
+          // Cached and FAQ answers (unless restyled) arrive whole.
+          if (!streamedText && typeof payload.reply === "string") {
+            send("delta", { text: payload.reply });
+          }
+          send("done", payload);
+        }
+      } catch (err: unknown) {
+        console.error("[ConversationAPI] streamed turn failed", { error: err });
+        send("error", { error: errorMessage(err) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+export async function POST(req: Request) {
+  try {
+    console.log("api conversation is triggered");
+    const body = await req.json().catch(() => ({}));
+    if (req.headers.get("accept")?.includes("text/event-stream")) {
+      return streamConversationTurn(body);
+    }
+    const { status, payload } = await runConversationTurn(body);
+    return Response.json(payload, { status });
+  } catch (err: unknown) {
+    return Response.json({ error: errorMessage(err) }, { status: 500 });
   }
 }
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 
+import { getDefaultVenuePack, getPoiCatalog } from "@/lib/venues";
+
 interface DemoNarrationRequest {
   id: string;
   poiId: string;
@@ -7,7 +9,7 @@ interface DemoNarrationRequest {
   requestedAt: number;
 }
 
-const DEFAULT_POI_ID = "changi-jewel-main";
+const DEFAULT_POI_ID = getPoiCatalog(getDefaultVenuePack())[0]?.id ?? "";
 
 const pendingNarrations: DemoNarrationRequest[] = [];
 
@@ -0,0 +1,33 @@
+import { getKnowledgeStore } from "@/lib/knowledge-store";
+import { resolveVenuePack } from "@/lib/venues";
+
+import { changeOptions, knowledgeErrorResponse } from "../../responses";
+
+export const runtime = "nodejs";
+
+/** Stages an earlier revision as the draft; publish to make it live. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const revision = Number(body?.revision);
+    if (!Number.isInteger(revision) || revision < 1) {
+      return Response.json(
+        { error: "Missing or invalid 'revision'." },
+        { status: 400 }
+      );
+    }
+    const { pack } = resolveVenuePack({ venueId: body?.venueId });
+    const entry = await getKnowledgeStore(pack).rollback(
+      id,
+      revision,
+      changeOptions(body)
+    );
+    return Response.json({ venueId: pack.manifest.id, entry });
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
@@ -0,0 +1,72 @@
+import { getKnowledgeStore } from "@/lib/knowledge-store";
+import { resolveVenuePack } from "@/lib/venues";
+
+import { changeOptions, knowledgeErrorResponse } from "../responses";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Returns the entry's published and draft versions plus its revision history. */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const url = new URL(req.url);
+    const { pack } = resolveVenuePack({
+      venueId: url.searchParams.get("venueId"),
+    });
+    const entry = await getKnowledgeStore(pack).get(id);
+    return Response.json({ venueId: pack.manifest.id, entry });
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
+
+/** Saves an edit as a draft; it goes live on the next publish. */
+export async function PUT(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    if (!body?.entry) {
+      return Response.json({ error: "Missing 'entry'." }, { status: 400 });
+    }
+    if (body.entry.id !== id) {
+      return Response.json(
+        { error: "Entry ids cannot be changed; create a new entry instead." },
+        { status: 400 }
+      );
+    }
+    const { pack } = resolveVenuePack({ venueId: body?.venueId });
+    const entry = await getKnowledgeStore(pack).saveDraft(
+      body.entry,
+      changeOptions(body)
+    );
+    return Response.json({ venueId: pack.manifest.id, entry });
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
+
+/**
+ * Stages a deletion. With `?draftOnly=true` it instead discards the pending draft and
+ * keeps the published entry.
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const url = new URL(req.url);
+    const { pack } = resolveVenuePack({
+      venueId: url.searchParams.get("venueId"),
+    });
+    const store = getKnowledgeStore(pack);
+    const entry =
+      url.searchParams.get("draftOnly") === "true"
+        ? await store.discardDraft(id)
+        : await store.remove(id, {
+            author: url.searchParams.get("author") ?? undefined,
+          });
+    return Response.json({ venueId: pack.manifest.id, entry });
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { getKnowledgeGapLog } from "@/lib/knowledge-gaps";
+import { resolveVenuePack } from "@/lib/venues";
+
+import { changeOptions, knowledgeErrorResponse } from "../../responses";
+
+export const runtime = "nodejs";
+
+/** Marks gap records as handled so they drop out of the report. */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const ids = Array.isArray(body?.ids)
+      ? body.ids.filter((id: unknown): id is string => typeof id === "string")
+      : [];
+    if (!ids.length) {
+      return Response.json({ error: "Missing 'ids'." }, { status: 400 });
+    }
+    const { pack } = resolveVenuePack({ venueId: body?.venueId });
+    const resolved = await getKnowledgeGapLog(pack.manifest.id).resolve(
+      ids,
+      changeOptions(body).note
+    );
+    return Response.json({ venueId: pack.manifest.id, resolved });
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
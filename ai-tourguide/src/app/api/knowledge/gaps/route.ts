@@ -0,0 +1,24 @@
+import { getKnowledgeGapLog } from "@/lib/knowledge-gaps";
+import { resolveVenuePack } from "@/lib/venues";
+
+import { knowledgeErrorResponse } from "../responses";
+
+export const runtime = "nodejs";
+
+/** Unanswered and weakly answered questions, clustered by similarity. */
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const { pack } = resolveVenuePack({
+      venueId: url.searchParams.get("venueId"),
+    });
+    const days = Number(url.searchParams.get("days"));
+    const report = await getKnowledgeGapLog(pack.manifest.id).report({
+      sinceDays: Number.isFinite(days) && days > 0 ? days : undefined,
+      includeResolved: url.searchParams.get("includeResolved") === "true",
+    });
+    return Response.json(report);
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { KnowledgeEntrySchema } from "@/lib/data-schemas";
+import { previewKnowledgeContext } from "@/lib/tools/knowledge-tool";
+import { resolveVenuePack } from "@/lib/venues";
+
+import { knowledgeErrorResponse } from "../responses";
+
+export const runtime = "nodejs";
+
+/** Renders unsaved entries the way the lookup tool shows them to the agent. */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const parsed = KnowledgeEntrySchema.array()
+      .min(1)
+      .safeParse(body?.entries);
+    if (!parsed.success) {
+      return Response.json(
+        {
+          error: "Invalid 'entries'.",
+          issues: parsed.error.issues.map(
+            (issue) => `${issue.path.join(".")}: ${issue.message}`
+          ),
+        },
+        { status: 400 }
+      );
+    }
+    const { pack } = resolveVenuePack({ venueId: body?.venueId });
+    const context = await previewKnowledgeContext(
+      parsed.data,
+      pack.manifest.id
+    );
+    return Response.json({ venueId: pack.manifest.id, context });
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
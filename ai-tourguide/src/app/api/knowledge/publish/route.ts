@@ -0,0 +1,18 @@
+import { getKnowledgeStore } from "@/lib/knowledge-store";
+import { resolveVenuePack } from "@/lib/venues";
+
+import { changeOptions, knowledgeErrorResponse } from "../responses";
+
+export const runtime = "nodejs";
+
+/** Publishes every pending draft and bumps the knowledge version. */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { pack } = resolveVenuePack({ venueId: body?.venueId });
+    const result = await getKnowledgeStore(pack).publish(changeOptions(body));
+    return Response.json({ venueId: pack.manifest.id, ...result });
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { KnowledgeStoreError } from "@/lib/knowledge-store";
+
+const STATUS_BY_CODE: Record<KnowledgeStoreError["code"], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409,
+};
+
+export function knowledgeErrorResponse(error: unknown): Response {
+  if (error instanceof KnowledgeStoreError) {
+    return Response.json(
+      { error: error.message, code: error.code },
+      { status: STATUS_BY_CODE[error.code] }
+    );
+  }
+
+  console.error("[KnowledgeAPI] unexpected error", { error });
+  return Response.json(
+    {
+      error:
+        error instanceof Error ? error.message : "Unexpected knowledge error",
+    },
+    { status: 500 }
+  );
+}
+
+export function changeOptions(body: unknown) {
+  const { author, note } = (body ?? {}) as { author?: unknown; note?: unknown };
+  return {
+    author: typeof author === "string" && author.trim() ? author.trim() : undefined,
+    note: typeof note === "string" && note.trim() ? note.trim() : undefined,
+  };
+}
@@ -0,0 +1,41 @@
+import { getKnowledgeStore } from "@/lib/knowledge-store";
+import { resolveVenuePack } from "@/lib/venues";
+
+import { changeOptions, knowledgeErrorResponse } from "./responses";
+
+export const runtime = "nodejs";
+
+/** Lists every authored entry with its draft/published state. */
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const { pack } = resolveVenuePack({
+      venueId: url.searchParams.get("venueId"),
+    });
+    const listing = await getKnowledgeStore(pack).list();
+    return Response.json({ venueId: pack.manifest.id, ...listing });
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
+
+/** Creates a new entry as a draft. */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (!body?.entry) {
+      return Response.json({ error: "Missing 'entry'." }, { status: 400 });
+    }
+    const { pack } = resolveVenuePack({ venueId: body?.venueId });
+    const stored = await getKnowledgeStore(pack).create(
+      body.entry,
+      changeOptions(body)
+    );
+    return Response.json(
+      { venueId: pack.manifest.id, entry: stored },
+      { status: 201 }
+    );
+  } catch (error) {
+    return knowledgeErrorResponse(error);
+  }
+}
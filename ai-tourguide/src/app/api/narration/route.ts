@@ -1,3 +1,5 @@
+import { getPersona, getPersonaVoiceId } from "@/lib/personas";
+import { getUsageLedger } from "@/lib/usage-ledger";
 import { streamNarrationWithElevenLabs } from "@/services/voice/voice";
 
 export const runtime = "nodejs";
@@ -12,7 +14,22 @@ export async function GET(req: Request): Promise<Response> {
     return new Response("Missing 'text' query parameter.", { status: 400 });
   }
 
-  const voiceId = url.searchParams.get("voiceId") ?? undefined;
+  // Past the budget the client falls back to the browser's own speech synthesis.
+  const sessionId = url.searchParams.get("sessionId") ?? undefined;
+  const ledger = getUsageLedger();
+  const budget = await ledger.checkBudget(sessionId);
+  if (!budget.withinBudget) {
+    return Response.json(
+      { error: "Narration budget reached.", reason: budget.reason },
+      { status: 429 }
+    );
+  }
+
+  // A persona brings its own voice and settings unless a voice is named explicitly.
+  const persona = getPersona(url.searchParams.get("personaId"));
+  const voiceId =
+    url.searchParams.get("voiceId") ??
+    (persona ? getPersonaVoiceId(persona) : undefined);
   const modelId = url.searchParams.get("modelId") ?? undefined;
   const optimizeLatencyParam = url.searchParams.get("optimizeLatency");
   const optimizeLatency = optimizeLatencyParam
@@ -31,6 +48,14 @@ export async function GET(req: Request): Promise<Response> {
       voiceId,
       modelId,
       optimizeLatency: latencySetting,
+      ...persona?.voiceSettings,
+    });
+    await ledger.record({
+      feature: "tts",
+      sessionId,
+      provider: "elevenlabs",
+      model: modelId,
+      characters: text.length,
     });
 
     return new Response(stream, {
@@ -0,0 +1,24 @@
+import { getUsageLedger } from "@/lib/usage-ledger";
+
+export const runtime = "nodejs";
+
+/** Token, character and cost totals by day, feature and session, plus the budgets. */
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const days = Number(url.searchParams.get("days"));
+    const report = await getUsageLedger().report({
+      days: Number.isFinite(days) && days > 0 ? days : undefined,
+    });
+    return Response.json(report);
+  } catch (error) {
+    console.error("[UsageAPI] report failed", { error });
+    return Response.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Unable to load usage.",
+      },
+      { status: 500 }
+    );
+  }
+}
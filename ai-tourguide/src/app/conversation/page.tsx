@@ -1,9 +1,20 @@
 "use client";
 
 import { useCallback, useMemo, useState, useRef, useEffect } from "react";
-
-import { narrateToUser } from "@/lib/storytelling";
-import { DEFAULT_WAKE_WORD, detectAndStripWakeWord } from "@/lib/wake-word";
+import type { ReactNode } from "react";
+
+import { narratePointOfInterestAction } from "@/app/actions/narrate-point-of-interest";
+import { userPreferences } from "@/data/user-preferences";
+import { type Citation, type CitationRef, citationKey } from "@/lib/citations";
+import type { FaqMatchStatus } from "@/lib/faq-matcher";
+import { listPersonas, resolvePersona } from "@/lib/personas";
+import { narrateToUser, prepareUserPreferences } from "@/lib/storytelling";
+import { findVenueForPoi, getDefaultVenuePack } from "@/lib/venues";
+import {
+  DEFAULT_WAKE_WORD,
+  detectAndStripWakeWord,
+  getWakeWord,
+} from "@/lib/wake-word";
 
 type AnswerUserQuestionParams = {
   sessionId?: string | null;
@@ -11,9 +22,21 @@ type AnswerUserQuestionParams = {
   strippedText?: string;
   wakeWordDetected?: boolean;
   wakeWord?: string;
+  venueId?: string;
   placeName?: string;
   lat?: number;
   lng?: number;
+  level?: string;
+  accessibilityNotes?: string;
+  /** Saved interests and pace; shape itineraries for time-boxed questions. */
+  interests?: string[];
+  preferredPace?: string;
+  /** Guide persona from `lib/personas`; sticks to the session once sent. */
+  personaId?: string;
+  /** Passing either callback streams the reply over Server-Sent Events. */
+  onActivity?: (activity: { tool: string; label: string }) => void;
+  /** Called with the reply received so far. */
+  onPartialReply?: (text: string) => void;
 };
 
 export type AnswerUserQuestionResult = {
@@ -26,12 +49,96 @@ export type AnswerUserQuestionResult = {
     lastSeenAt?: string | null;
     expiresAt?: string | null;
     detectedWakeWord?: boolean;
+    venueId?: string;
+    venueMatchedBy?: string;
     knowledgeReferences?: string[];
+    citations?: Citation[];
     usedWebSearch?: boolean;
     webSearchNote?: string | null;
+    cache?: {
+      hit: boolean;
+      similarity?: number;
+      matchedQuery?: string;
+      knowledgeVersion: string;
+    } | null;
+    faq?: (FaqMatchStatus & { restyled: boolean }) | null;
+    /** Shorter reply for speech; null when the reply should be read as is. */
+    spokenReply?: string | null;
+    followUps?: string[];
+    relatedPois?: RelatedPoi[];
+    confidence?: "high" | "medium" | "low" | null;
   };
 };
 
+type RelatedPoi = { id: string; name: string };
+
+function toAnswerResult(data: Partial<AnswerUserQuestionResult> | null): AnswerUserQuestionResult {
+  return {
+    sessionId: data?.sessionId ?? null,
+    reply: data?.reply ?? "",
+    ended: Boolean(data?.ended),
+    endReason: data?.endReason ?? null,
+    meta: data?.meta,
+  };
+}
+
+async function readConversationStream(
+  body: ReadableStream<Uint8Array>,
+  handlers: Pick<AnswerUserQuestionParams, "onActivity" | "onPartialReply">
+): Promise<AnswerUserQuestionResult> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let partial = "";
+  let result: AnswerUserQuestionResult | null = null;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      let payload = "";
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          payload += line.slice(5).trim();
+        }
+      }
+      const data = payload ? JSON.parse(payload) : null;
+
+      switch (event) {
+        case "activity":
+          handlers.onActivity?.(data);
+          break;
+        case "delta":
+          partial += data?.text ?? "";
+          handlers.onPartialReply?.(partial);
+          break;
+        case "done":
+          result = toAnswerResult(data);
+          break;
+        case "error":
+          throw new Error(data?.error ?? "Failed to reach the tour guide.");
+      }
+    }
+
+    if (done) {
+      break;
+    }
+  }
+
+  if (!result) {
+    throw new Error("The tour guide stopped before finishing the reply.");
+  }
+  return result;
+}
+
 export async function answerUserQuestion(
   params: AnswerUserQuestionParams
 ): Promise<AnswerUserQuestionResult> {
@@ -41,39 +148,63 @@ export async function answerUserQuestion(
     strippedText,
     wakeWordDetected,
     wakeWord = DEFAULT_WAKE_WORD,
+    venueId,
     placeName,
     lat,
     lng,
+    level,
+    accessibilityNotes,
+    interests,
+    preferredPace,
+    personaId,
+    onActivity,
+    onPartialReply,
   } = params;
+  const streaming = Boolean(onActivity || onPartialReply);
 
   const response = await fetch("/api/conversation", {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      ...(streaming ? { Accept: "text/event-stream" } : {}),
+    },
     body: JSON.stringify({
       sessionId,
       text,
       strippedText,
       wakeWordDetected,
       wakeWord,
+      venueId,
       placeName,
       lat,
       lng,
+      level,
+      accessibilityNotes,
+      interests,
+      preferredPace,
+      personaId,
     }),
   });
 
+  if (
+    streaming &&
+    response.ok &&
+    response.body &&
+    response.headers.get("content-type")?.includes("text/event-stream")
+  ) {
+    return readConversationStream(response.body, {
+      onActivity,
+      onPartialReply,
+    });
+  }
+
   const data = await response.json();
 
   if (!response.ok) {
     throw new Error(data?.error ?? "Failed to reach the tour guide.");
   }
 
-  return {
-    sessionId: data?.sessionId ?? null,
-    reply: data?.reply ?? "",
-    ended: Boolean(data?.ended),
-    endReason: data?.endReason ?? null,
-    meta: data?.meta,
-  };
+  return toAnswerResult(data);
 }
 
 type ConversationMessage = {
@@ -84,9 +215,12 @@ type ConversationMessage = {
   meta?: {
     detectedWakeWord?: boolean;
     knowledgeReferences?: string[];
+    citations?: Citation[];
     usedWebSearch?: boolean;
     webSearchNote?: string | null;
     endReason?: string | null;
+    followUps?: string[];
+    relatedPois?: RelatedPoi[];
   };
 };
 
@@ -97,8 +231,14 @@ type SessionMetaState = {
   detectedWakeWord?: boolean;
   usedWebSearch?: boolean;
   webSearchNote?: string | null;
+  cacheHit?: boolean;
+  cacheSimilarity?: number;
+  faqHit?: boolean;
+  faqConfidence?: number;
 };
 
+const preparedPreferences = prepareUserPreferences(userPreferences);
+
 type SpeechRecognitionConstructor = new () => SpeechRecognitionInstance;
 
 interface SpeechRecognitionInstance {
@@ -155,15 +295,128 @@ function createMessageId(prefix: string) {
   return `${prefix}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
 }
 
+/** Numbers each distinct source in order of first use, like footnotes in print. */
+function numberCitations(citations: Citation[]) {
+  const footnotes: CitationRef[] = [];
+  const numbers = new Map<string, number>();
+  const marks = citations.map((citation) => ({
+    citation,
+    numbers: citation.sources.map((source) => {
+      const key = citationKey(source);
+      let number = numbers.get(key);
+      if (number === undefined) {
+        footnotes.push(source);
+        number = footnotes.length;
+        numbers.set(key, number);
+      }
+      return number;
+    }),
+  }));
+  return { footnotes, marks };
+}
+
+function CitedText({
+  messageId,
+  text,
+  citations,
+}: {
+  messageId: string;
+  text: string;
+  citations?: Citation[];
+}) {
+  const [activeFootnote, setActiveFootnote] = useState<number | null>(null);
+
+  if (!citations?.length) {
+    return (
+      <p className="mt-2 whitespace-pre-wrap text-slate-100">{text || "∅"}</p>
+    );
+  }
+
+  const { footnotes, marks } = numberCitations(
+    [...citations].sort((a, b) => a.start - b.start)
+  );
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const { citation, numbers } of marks) {
+    if (citation.start < cursor || citation.end > text.length) {
+      continue;
+    }
+    parts.push(text.slice(cursor, citation.end));
+    for (const number of numbers) {
+      parts.push(
+        <sup key={`${citation.start}-${number}`}>
+          <a
+            href={`#${messageId}-fn-${number}`}
+            onClick={() => setActiveFootnote(number)}
+            className="ml-0.5 rounded px-0.5 text-[10px] text-emerald-300 hover:bg-emerald-500/10"
+          >
+            [{number}]
+          </a>
+        </sup>
+      );
+    }
+    cursor = citation.end;
+  }
+  parts.push(text.slice(cursor));
+
+  return (
+    <>
+      <p className="mt-2 whitespace-pre-wrap text-slate-100">{parts}</p>
+      <ol className="mt-2 space-y-0.5 text-xs text-slate-500">
+        {footnotes.map((source, index) => {
+          const number = index + 1;
+          const href = source.url;
+          return (
+            <li
+              key={citationKey(source)}
+              id={`${messageId}-fn-${number}`}
+              className={
+                activeFootnote === number ? "text-emerald-200" : undefined
+              }
+            >
+              [{number}]{" "}
+              {href ? (
+                <a
+                  href={href}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="underline decoration-slate-600 hover:text-slate-300"
+                >
+                  {source.title}
+                </a>
+              ) : (
+                source.title
+              )}
+              {source.type === "knowledge" ? (
+                <span className="ml-1 font-mono text-[10px] text-slate-600">
+                  {source.entryId}
+                </span>
+              ) : null}
+            </li>
+          );
+        })}
+      </ol>
+    </>
+  );
+}
+
 export default function ConversationPage() {
-  const [wakeWord, setWakeWord] = useState<string>(DEFAULT_WAKE_WORD);
+  const [personaId, setPersonaId] = useState<string>(
+    () => resolvePersona(null, getDefaultVenuePack()).id
+  );
+  const [wakeWord, setWakeWord] = useState<string>(() =>
+    getWakeWord(null, getDefaultVenuePack())
+  );
   const [transcript, setTranscript] = useState<string>("");
   const [strippedTranscript, setStrippedTranscript] = useState<string>("");
   const [wakeWordDetected, setWakeWordDetected] = useState<boolean>(false);
-  const [placeName, setPlaceName] = useState<string>("Jewel Changi Airport");
+  const [placeName, setPlaceName] = useState<string>(
+    getDefaultVenuePack().manifest.name
+  );
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [messages, setMessages] = useState<ConversationMessage[]>([]);
   const [isSending, setIsSending] = useState<boolean>(false);
+  const [activityLabel, setActivityLabel] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [conversationEnded, setConversationEnded] = useState<{
     ended: boolean;
@@ -171,6 +424,7 @@ export default function ConversationPage() {
   }>({ ended: false, reason: null });
   const [sessionMeta, setSessionMeta] = useState<SessionMetaState | null>(null);
   const [firstTurn, setFirstTurn] = useState<boolean>(true);
+  const [narratingPoiId, setNarratingPoiId] = useState<string | null>(null);
 
   // Voice listening state
   const [isVoiceListening, setIsVoiceListening] = useState<boolean>(false);
@@ -243,6 +497,15 @@ export default function ConversationPage() {
     [recomputeWakeWordState, transcript]
   );
 
+  // Each guide answers to their own wake phrase.
+  const handlePersonaChange = useCallback(
+    (value: string) => {
+      setPersonaId(value);
+      handleWakeWordChange(resolvePersona(value).wakePhrase);
+    },
+    [handleWakeWordChange]
+  );
+
   const handleTranscriptChange = useCallback(
     (value: string) => {
       setTranscript(value);
@@ -309,6 +572,31 @@ export default function ConversationPage() {
       setIsSending(true);
       setError(null);
 
+      const userMessage: ConversationMessage = {
+        id: createMessageId("user"),
+        role: "user",
+        text: detection.stripped.trim() || trimmed,
+        timestamp: Date.now(),
+        meta: {
+          detectedWakeWord: detection.matched,
+        },
+      };
+      const assistantId = createMessageId("assistant");
+      const updateAssistant = (update: Partial<ConversationMessage>) =>
+        setMessages((prev) =>
+          prev.map((message) =>
+            message.id === assistantId ? { ...message, ...update } : message
+          )
+        );
+
+      // Show the question straight away; the reply fills in as it streams.
+      setMessages((prev) => [
+        ...prev,
+        userMessage,
+        { id: assistantId, role: "assistant", text: "", timestamp: Date.now() },
+      ]);
+      setActivityLabel(null);
+
       try {
         const data = await answerUserQuestion({
           sessionId,
@@ -317,39 +605,39 @@ export default function ConversationPage() {
           wakeWordDetected: detection.matched,
           wakeWord: effectiveWakeWord,
           placeName: placeName.trim() || undefined,
-        });
-
-        const userMessage: ConversationMessage = {
-          id: createMessageId("user"),
-          role: "user",
-          text: detection.stripped.trim() || trimmed,
-          timestamp: Date.now(),
-          meta: {
-            detectedWakeWord: detection.matched,
+          interests: preparedPreferences.interests,
+          preferredPace: preparedPreferences.preferredPace,
+          personaId,
+          onActivity: (activity) => setActivityLabel(activity.label),
+          onPartialReply: (text) => {
+            setActivityLabel(null);
+            updateAssistant({ text });
           },
-        };
+        });
 
-        const assistantMessage: ConversationMessage = {
-          id: createMessageId("assistant"),
-          role: "assistant",
+        updateAssistant({
           text: data?.reply ?? "",
           timestamp: Date.now(),
           meta: {
             knowledgeReferences: data?.meta?.knowledgeReferences ?? undefined,
+            citations: data?.meta?.citations ?? undefined,
             usedWebSearch: data?.meta?.usedWebSearch ?? undefined,
             webSearchNote: data?.meta?.webSearchNote ?? null,
             endReason: data?.endReason ?? null,
+            followUps: data?.meta?.followUps ?? undefined,
+            relatedPois: data?.meta?.relatedPois ?? undefined,
           },
-        };
-
-        setMessages((prev) => [...prev, userMessage, assistantMessage]);
+        });
         setSessionId(data?.sessionId ?? null);
         setTranscript("");
         setStrippedTranscript("");
         setWakeWordDetected(false);
 
         if (data?.reply) {
-          void narrateToUser(data.reply).catch((playbackError) => {
+          void narrateToUser(data.meta?.spokenReply ?? data.reply, {
+            personaId,
+            sessionId: data.sessionId ?? undefined,
+          }).catch((playbackError) => {
             console.error("Failed to narrate assistant reply", playbackError);
           });
         }
@@ -362,6 +650,10 @@ export default function ConversationPage() {
             detectedWakeWord: data.meta.detectedWakeWord,
             usedWebSearch: data.meta.usedWebSearch,
             webSearchNote: data.meta.webSearchNote ?? null,
+            cacheHit: data.meta.cache?.hit,
+            cacheSimilarity: data.meta.cache?.similarity,
+            faqHit: data.meta.faq?.hit,
+            faqConfidence: data.meta.faq?.confidence,
           });
         }
 
@@ -375,15 +667,23 @@ export default function ConversationPage() {
           setConversationEnded({ ended: false, reason: null });
         }
       } catch (err) {
+        setMessages((prev) =>
+          prev.filter(
+            (message) =>
+              message.id !== userMessage.id && message.id !== assistantId
+          )
+        );
         setError(err instanceof Error ? err.message : "Unexpected error.");
       } finally {
         setIsSending(false);
+        setActivityLabel(null);
       }
     },
     [
       conversationEnded.ended,
       effectiveWakeWord,
       firstTurn,
+      personaId,
       placeName,
       sessionId,
       transcript,
@@ -397,6 +697,50 @@ export default function ConversationPage() {
     [sendTranscript]
   );
 
+  // Related-POI chips play that place's story and add it to the log.
+  const handleNarratePoi = useCallback(
+    async (poiId: string) => {
+      const poi = findVenueForPoi(poiId).pointsOfInterest.find(
+        (candidate) => candidate.id === poiId
+      );
+      if (!poi) {
+        setError("That place is no longer in the venue guide.");
+        return;
+      }
+
+      setNarratingPoiId(poiId);
+      setError(null);
+      try {
+        const story = await narratePointOfInterestAction({
+          poi,
+          preferences: userPreferences,
+          personaId,
+          sessionId: sessionId ?? undefined,
+        });
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: createMessageId("assistant"),
+            role: "assistant",
+            text: story,
+            timestamp: Date.now(),
+          },
+        ]);
+        await narrateToUser(story, {
+          personaId,
+          sessionId: sessionId ?? undefined,
+        });
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to narrate that place."
+        );
+      } finally {
+        setNarratingPoiId(null);
+      }
+    },
+    [personaId, sessionId]
+  );
+
 
   // Voice listening functions
   const processVoiceTranscript = useCallback(
@@ -623,6 +967,25 @@ export default function ConversationPage() {
             </p>
 
             <div className="mt-5 flex flex-col gap-4">
+              <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Guide
+                <select
+                  className="mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/30"
+                  value={personaId}
+                  onChange={(event) => handlePersonaChange(event.target.value)}
+                  aria-label="Guide"
+                >
+                  {listPersonas().map((persona) => (
+                    <option key={persona.id} value={persona.id}>
+                      {persona.name}
+                    </option>
+                  ))}
+                </select>
+                <span className="mt-1 block text-xs font-normal normal-case tracking-normal text-slate-400">
+                  {resolvePersona(personaId).greeting}
+                </span>
+              </label>
+
               <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
                 Wake word
                 <input
@@ -653,7 +1016,7 @@ export default function ConversationPage() {
                   onChange={(event) =>
                     handleTranscriptChange(event.target.value)
                   }
-                  placeholder="Hey Wei Jie, what should I explore first?"
+                  placeholder={`${effectiveWakeWord}, what should I explore first?`}
                   aria-label="Transcript"
                 />
               </label>
@@ -713,7 +1076,7 @@ export default function ConversationPage() {
                   disabled={isSending}
                   className="inline-flex items-center justify-center rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 disabled:cursor-not-allowed disabled:bg-emerald-700/60"
                 >
-                  {isSending ? "Sending…" : "Send to tour guide"}
+                  {isSending ? activityLabel ?? "Sending…" : "Send to tour guide"}
                 </button>
                 <button
                   type="button"
@@ -868,9 +1231,46 @@ export default function ConversationPage() {
                         {formatTimestamp(message.timestamp)}
                       </span>
                     </div>
-                    <p className="mt-2 whitespace-pre-wrap text-slate-100">
-                      {message.text || "∅"}
-                    </p>
+                    {message.role === "assistant" && !message.text && isSending ? (
+                      <p className="mt-2 italic text-slate-500">
+                        {activityLabel ?? "Thinking"}…
+                      </p>
+                    ) : (
+                      <CitedText
+                        messageId={message.id}
+                        text={message.text}
+                        citations={message.meta?.citations}
+                      />
+                    )}
+                    {message.meta?.followUps?.length ||
+                    message.meta?.relatedPois?.length ? (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {message.meta.followUps?.map((question) => (
+                          <button
+                            key={question}
+                            type="button"
+                            disabled={isSending}
+                            onClick={() => handleQuickPrompt(question)}
+                            className="rounded-full border border-slate-800/70 bg-slate-900/60 px-3 py-1 text-xs text-slate-200 transition hover:border-emerald-400 hover:text-emerald-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/40 disabled:opacity-50"
+                          >
+                            {question}
+                          </button>
+                        ))}
+                        {message.meta.relatedPois?.map((poi) => (
+                          <button
+                            key={poi.id}
+                            type="button"
+                            disabled={narratingPoiId !== null}
+                            onClick={() => void handleNarratePoi(poi.id)}
+                            className="rounded-full border border-emerald-500/40 bg-emerald-500/10 px-3 py-1 text-xs text-emerald-100 transition hover:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/40 disabled:opacity-50"
+                          >
+                            {narratingPoiId === poi.id
+                              ? `Narrating ${poi.name}…`
+                              : `▶ Hear about ${poi.name}`}
+                          </button>
+                        ))}
+                      </div>
+                    ) : null}
                     {message.meta?.knowledgeReferences?.length ? (
                       <p className="mt-2 text-xs text-slate-500">
                         Knowledge refs:{" "}
@@ -957,6 +1357,34 @@ export default function ConversationPage() {
                       : "Not used"}
                   </dd>
                 </div>
+                <div>
+                  <dt className="uppercase tracking-wide text-slate-500">
+                    Answer cache
+                  </dt>
+                  <dd className="mt-1 text-slate-100">
+                    {sessionMeta?.cacheHit === undefined
+                      ? "—"
+                      : sessionMeta.cacheHit
+                      ? `Hit (${Math.round(
+                          (sessionMeta.cacheSimilarity ?? 1) * 100
+                        )}% match)`
+                      : "Miss"}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="uppercase tracking-wide text-slate-500">
+                    FAQ
+                  </dt>
+                  <dd className="mt-1 text-slate-100">
+                    {sessionMeta?.faqHit === undefined
+                      ? "—"
+                      : sessionMeta.faqHit
+                      ? `Answered directly (${Math.round(
+                          (sessionMeta.faqConfidence ?? 1) * 100
+                        )}% match)`
+                      : "Agent"}
+                  </dd>
+                </div>
               </dl>
             </div>
           </aside>
@@ -12,7 +12,6 @@ import {
 import { narratePointOfInterestAction } from "@/app/actions/narrate-point-of-interest";
 import { answerUserQuestion } from "@/app/conversation/page";
 import { userPreferences } from "@/data/user-preferences";
-import { changiJewelMain, changiJewelRainVortex } from "@/data/changi-jewel";
 import {
   PlaceOfInterest,
   generateStorytellingForPlaceOfInterest,
@@ -23,6 +22,7 @@ import {
   detectAndStripWakeWord,
   getWakeWord,
 } from "@/lib/wake-word";
+import { getDefaultVenuePack, getPoiCatalog } from "@/lib/venues";
 import { VOICE_CONFIG } from "@/services/voice/data";
 
 const WAKE_WORD_SILENCE_MS = 2_000;
@@ -31,7 +31,8 @@ const FALLBACK_RECOGNITION_LANGS = ["en-SG", "en-US", "en-GB", "en-AU", "en"];
 const NARRATION_POLL_INTERVAL_MS = 2_000;
 const BROWSER_SESSION_STORAGE_KEY = "ai-tourguide:browser-session-id";
 
-const poiCatalog: PlaceOfInterest[] = [changiJewelMain, changiJewelRainVortex];
+const activeVenue = getDefaultVenuePack();
+const poiCatalog: PlaceOfInterest[] = getPoiCatalog(activeVenue);
 
 type SpeechRecognitionConstructor = new () => SpeechRecognitionInstance;
 
@@ -99,7 +100,7 @@ function isMeaningfulSpeech(input: string): boolean {
 }
 
 export default function DemoSplashPage() {
-  const activeWakeWord = useMemo(() => getWakeWord(), []);
+  const activeWakeWord = useMemo(() => getWakeWord(null, activeVenue), []);
   const defaultVoiceId = useMemo(
     () => Object.values(VOICE_CONFIG)[0]?.id ?? "",
     []
@@ -394,7 +395,9 @@ export default function DemoSplashPage() {
             strippedText,
             wakeWordDetected: wakeWordUsed,
             wakeWord: activeWakeWord,
+            venueId: activeVenue.manifest.id,
             placeName: currentPoiRef.current?.name,
+            accessibilityNotes: userPreferences.accessibilityNotes,
           });
 
           console.info("[OpenAI][AgentCall] completed", {
@@ -409,7 +412,7 @@ export default function DemoSplashPage() {
 
           if (agentResponse.reply) {
             setStatusState("answering");
-            await narrateToUser(agentResponse.reply);
+            await narrateToUser(agentResponse.reply, { sessionId });
           }
 
           if (agentResponse.ended) {
@@ -578,14 +581,16 @@ export default function DemoSplashPage() {
       }
       setIsMicListening(false);
 
+      const sessionId = ensureBrowserSessionId();
+      const voiceOptions = { voiceId: voiceToUse || undefined, sessionId };
+
       try {
         const story = await narratePointOfInterestAction({
           poi,
           preferences: userPreferences,
+          sessionId,
         });
 
-        const voiceOptions = voiceToUse ? { voiceId: voiceToUse } : undefined;
-
         setStatusState("answering");
         await narrateToUser(story, voiceOptions);
       } catch (untypedError) {
@@ -597,8 +602,6 @@ export default function DemoSplashPage() {
           poi
         );
 
-        const voiceOptions = voiceToUse ? { voiceId: voiceToUse } : undefined;
-
         setStatusState("answering");
         await narrateToUser(fallbackStory, voiceOptions);
       } finally {
@@ -606,7 +609,7 @@ export default function DemoSplashPage() {
         resumeWakeWordListening();
       }
     },
-    [isNarrating]
+    [isNarrating, ensureBrowserSessionId]
   );
 
   useEffect(() => {
@@ -1072,8 +1075,10 @@ export default function DemoSplashPage() {
               imageDataUrl,
               userQuestion:
                 "Analyze this image and provide detailed tour guide insights about what you see.",
-              placeName: "Changi Jewel",
+              placeName: activeVenue.manifest.name,
+              venueId: activeVenue.manifest.id,
               language: "en-SG",
+              sessionId: ensureBrowserSessionId(),
             }),
           });
 
@@ -1094,7 +1099,7 @@ export default function DemoSplashPage() {
             imageAnalysis: result.analysis,
             detectedObjects: result.detectedObjects,
             tourGuideResponse: result.tourGuideResponse,
-            placeName: "Changi Jewel",
+            placeName: activeVenue.manifest.name,
           };
 
           // Send to backend API
@@ -5,11 +5,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { narratePointOfInterestAction } from "@/app/actions/narrate-point-of-interest";
 import { answerUserQuestion } from "@/app/conversation/page";
 import { userPreferences } from "@/data/user-preferences";
-import {
-  changiJewelKnowledgeBase,
-  changiJewelMain,
-  changiJewelRainVortex,
-} from "@/data/changi-jewel";
+import { changiJewelKnowledgeBase } from "@/data/changi-jewel";
 import {
   PlaceOfInterest,
   generateStorytellingForPlaceOfInterest,
@@ -21,7 +17,9 @@ import {
   detectAndStripWakeWord,
   getWakeWord,
 } from "@/lib/wake-word";
-import { VOICE_CONFIG } from "@/services/voice/data";
+import { getDefaultVenuePack, getPoiCatalog } from "@/lib/venues";
+import { Itinerary, ItineraryPlanner } from "@/lib/itinerary";
+import { listPersonas, resolvePersona } from "@/lib/personas";
 
 type NarrationEntry = {
   poiId: string;
@@ -30,7 +28,10 @@ type NarrationEntry = {
   timestamp: number;
 };
 
-const poiCatalog: PlaceOfInterest[] = [changiJewelMain, changiJewelRainVortex];
+const activeVenue = getDefaultVenuePack();
+const poiCatalog: PlaceOfInterest[] = getPoiCatalog(activeVenue);
+const itineraryPlanner = new ItineraryPlanner(activeVenue);
+const TIME_BUDGET_OPTIONS = [30, 60, 90, 120, 180, 240];
 const WAKE_WORD_RESET_MS = 4_000;
 const BROWSER_SESSION_STORAGE_KEY = "ai-tourguide:browser-session-id";
 
@@ -112,13 +113,19 @@ export default function StorytellerPage() {
   const [selectedPoiId, setSelectedPoiId] = useState<string>(
     poiCatalog[0]?.id ?? ""
   );
-  const [selectedVoiceId, setSelectedVoiceId] = useState<string>(
-    Object.values(VOICE_CONFIG)[0]?.id ?? ""
+  // The guide brings their own voice, personality and wake phrase.
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string>(
+    () => resolvePersona(null, activeVenue).id
   );
+  const selectedPersona = resolvePersona(selectedPersonaId, activeVenue);
   const [latestStory, setLatestStory] = useState<string>("");
   const [isNarrating, setIsNarrating] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [narrationLog, setNarrationLog] = useState<NarrationEntry[]>([]);
+  const [timeBudget, setTimeBudget] = useState<number>(120);
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  // Index of the itinerary stop being narrated while the route plays.
+  const [routeStopIndex, setRouteStopIndex] = useState<number | null>(null);
   const [wakeWordDetectedAt, setWakeWordDetectedAt] = useState<number | null>(
     null
   );
@@ -166,7 +173,10 @@ export default function StorytellerPage() {
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const wakeWordPausedRef = useRef<boolean>(false);
   const isHandlingWakeWordRef = useRef<boolean>(false);
-  const activeWakeWord = useMemo(() => getWakeWord(), []);
+  const activeWakeWord = useMemo(
+    () => getWakeWord(selectedPersonaId),
+    [selectedPersonaId]
+  );
 
   const ensureBrowserSessionId = useCallback((): string => {
     if (browserSessionIdRef.current) {
@@ -405,7 +415,12 @@ export default function StorytellerPage() {
             strippedText,
             wakeWordDetected: wakeWordUsed,
             wakeWord: activeWakeWord,
+            venueId: activeVenue.manifest.id,
             placeName: selectedPoi?.name,
+            accessibilityNotes: preparedPreferences.accessibilityNotes,
+            interests: preparedPreferences.interests,
+            preferredPace: preparedPreferences.preferredPace,
+            personaId: selectedPersonaId,
           });
 
           console.info("[OpenAI][AgentCall] completed", {
@@ -419,7 +434,10 @@ export default function StorytellerPage() {
           setMicError(null);
 
           if (agentResponse.reply) {
-            await narrateToUser(agentResponse.reply);
+            await narrateToUser(agentResponse.meta?.spokenReply ?? agentResponse.reply, {
+              personaId: selectedPersonaId,
+              sessionId,
+            });
           }
 
           return agentResponse;
@@ -515,7 +533,13 @@ export default function StorytellerPage() {
         }
       }
     },
-    [activeWakeWord, ensureBrowserSessionId, listenToUser, selectedPoi]
+    [
+      activeWakeWord,
+      ensureBrowserSessionId,
+      listenToUser,
+      selectedPersonaId,
+      selectedPoi,
+    ]
   );
 
   useEffect(() => {
@@ -680,7 +704,12 @@ export default function StorytellerPage() {
     );
   };
 
-  const speakPointOfInterest = async (poi: PlaceOfInterest | null) => {
+  // `routeLine` places the story on an itinerary: where the traveller walks from and
+  // how long they have there.
+  const speakPointOfInterest = async (
+    poi: PlaceOfInterest | null,
+    routeLine?: string
+  ) => {
     if (!poi) {
       setError("Select a point of interest to continue.");
       return;
@@ -689,26 +718,32 @@ export default function StorytellerPage() {
     setError(null);
     setIsNarrating(true);
 
+    const sessionId = ensureBrowserSessionId();
+    const voiceOptions = { personaId: selectedPersonaId, sessionId };
+
     try {
       const story = await narratePointOfInterestAction({
         poi,
         preferences: userPreferences,
+        extraGuidance: routeLine
+          ? `This is one stop on the traveller's time-boxed route: ${routeLine} Open by mentioning the walk and how long they have here.`
+          : undefined,
+        personaId: selectedPersonaId,
+        sessionId,
       });
 
       recordNarration(story, poi);
 
-      const voiceOptions = selectedVoiceId
-        ? { voiceId: selectedVoiceId }
-        : undefined;
-
       await narrateToUser(story, voiceOptions);
     } catch (untypedError) {
       console.error("AI narration failed", untypedError);
 
-      const fallbackStory = generateStorytellingForPlaceOfInterest(
-        userPreferences,
-        poi
-      );
+      const fallbackStory = [
+        routeLine,
+        generateStorytellingForPlaceOfInterest(userPreferences, poi),
+      ]
+        .filter(Boolean)
+        .join(" ");
 
       recordNarration(fallbackStory, poi);
 
@@ -719,10 +754,6 @@ export default function StorytellerPage() {
 
       setError(message);
 
-      const voiceOptions = selectedVoiceId
-        ? { voiceId: selectedVoiceId }
-        : undefined;
-
       await narrateToUser(fallbackStory, voiceOptions);
     } finally {
       setIsNarrating(false);
@@ -734,6 +765,37 @@ export default function StorytellerPage() {
     await speakPointOfInterest(poi);
   };
 
+  const handlePlanItinerary = () => {
+    setItinerary(
+      itineraryPlanner.plan({
+        budgetMinutes: timeBudget,
+        interests: preparedPreferences.interests,
+        pace: preparedPreferences.preferredPace,
+        accessibility: preparedPreferences.accessibilityNeeds,
+      })
+    );
+  };
+
+  // Narrates the stops in order; each story waits for the previous one to finish.
+  const handleNarrateItinerary = async () => {
+    if (!itinerary?.stops.length) {
+      return;
+    }
+    const lines = itineraryPlanner.describe(itinerary);
+    try {
+      for (const [index, stop] of itinerary.stops.entries()) {
+        setRouteStopIndex(index);
+        setSelectedPoiId(stop.poi.id);
+        const routeLine = `Stop ${index + 1} of ${
+          itinerary.stops.length
+        }: ${lines[index].replace(/^\d+\.\s*/, "")}`;
+        await speakPointOfInterest(stop.poi, routeLine);
+      }
+    } finally {
+      setRouteStopIndex(null);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100">
       <header className="border-b border-slate-800/60 bg-slate-950/80 backdrop-blur">
@@ -828,19 +890,22 @@ export default function StorytellerPage() {
                 </div>
 
                 <label className="text-xs font-medium uppercase tracking-wide text-slate-500">
-                  Voice model
+                  Guide
                   <select
                     className="mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/30"
-                    value={selectedVoiceId}
-                    onChange={(event) => setSelectedVoiceId(event.target.value)}
-                    aria-label="Voice model"
+                    value={selectedPersonaId}
+                    onChange={(event) => setSelectedPersonaId(event.target.value)}
+                    aria-label="Guide"
                   >
-                    {Object.entries(VOICE_CONFIG).map(([name, config]) => (
-                      <option key={config.id} value={config.id}>
-                        {name}
+                    {listPersonas().map((persona) => (
+                      <option key={persona.id} value={persona.id}>
+                        {persona.name}
                       </option>
                     ))}
                   </select>
+                  <span className="mt-1 block text-xs font-normal normal-case tracking-normal text-slate-400">
+                    {selectedPersona.greeting} Say “{selectedPersona.wakePhrase}” to start.
+                  </span>
                 </label>
 
                 <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
@@ -961,6 +1026,110 @@ export default function StorytellerPage() {
           </aside>
         </section>
 
+        <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h2 className="text-xl font-semibold">Plan my time</h2>
+              <p className="text-sm text-slate-400">
+                On a layover? Pick how long you have and get the stops that fit,
+                ordered by walking time, opening hours and the traveller’s
+                interests, then hear them as a narrated route.
+              </p>
+            </div>
+            <div className="flex items-end gap-2">
+              <label className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                Time available
+                <select
+                  className="mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 focus:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/30"
+                  value={timeBudget}
+                  onChange={(event) => setTimeBudget(Number(event.target.value))}
+                  aria-label="Time available"
+                >
+                  {TIME_BUDGET_OPTIONS.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes < 60
+                        ? `${minutes} min`
+                        : `${minutes / 60} hour${minutes === 60 ? "" : "s"}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                className="rounded-lg bg-slate-800/80 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:bg-slate-700/70 focus:outline-none focus:ring-2 focus:ring-emerald-500/60 disabled:cursor-not-allowed"
+                onClick={handlePlanItinerary}
+                disabled={isNarrating}
+              >
+                Plan
+              </button>
+              <button
+                type="button"
+                className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/60 disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={handleNarrateItinerary}
+                disabled={isNarrating || !itinerary?.stops.length}
+              >
+                {routeStopIndex !== null ? "Narrating route..." : "Narrate route"}
+              </button>
+            </div>
+          </div>
+
+          {itinerary ? (
+            <div className="mt-4 space-y-3 text-sm">
+              {itinerary.stops.length ? (
+                <ol className="space-y-2">
+                  {itinerary.stops.map((stop, index) => (
+                    <li
+                      key={stop.poi.id}
+                      className={`rounded-lg border px-3 py-2 ${
+                        routeStopIndex === index
+                          ? "border-emerald-400/60 bg-emerald-500/10"
+                          : "border-slate-800/70 bg-slate-950/60"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-4 text-slate-100">
+                        <span className="font-medium">
+                          {index + 1}. {stop.poi.name}
+                        </span>
+                        <span className="font-mono text-[11px] text-slate-400">
+                          {itineraryPlanner.formatTime(stop.arriveAt)}–
+                          {itineraryPlanner.formatTime(stop.leaveAt)}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-xs text-slate-400">
+                        {stop.walkMinutes
+                          ? `Walk ${stop.walkMinutes} min, then `
+                          : ""}
+                        stay {stop.visitMinutes} min
+                        {stop.matchedInterests.length
+                          ? ` · for ${stop.matchedInterests.join(", ")}`
+                          : ""}
+                      </p>
+                      {stop.notes.length ? (
+                        <p className="mt-1 text-xs text-emerald-200">
+                          {stop.notes.join(" ")}
+                        </p>
+                      ) : null}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-slate-400">
+                  Nothing fits in {itinerary.budgetMinutes} minutes.
+                </p>
+              )}
+              <p className="text-xs text-slate-500">
+                {itinerary.usedMinutes} of {itinerary.budgetMinutes} min
+                planned
+                {itinerary.skipped.length
+                  ? ` · left out ${itinerary.skipped
+                      .map((entry) => `${entry.poi.name} (${entry.reason})`)
+                      .join(", ")}`
+                  : ""}
+              </p>
+            </div>
+          ) : null}
+        </section>
+
         <section className="grid gap-6 lg:grid-cols-[1.4fr_1fr]">
           <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6">
             <h2 className="text-xl font-semibold">Story preview</h2>
@@ -2,3 +2,4 @@ export * from "./main";
 export * from "./rain-vortex";
 export * from "./types";
 export * from "./knowledge-base";
+export * from "./pack";
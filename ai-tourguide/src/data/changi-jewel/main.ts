@@ -21,4 +21,17 @@ export const changiJewelMain: PlaceOfInterest = {
     "Take the eastern lift for a quieter ascent to Canopy Park",
   ],
   callToAction: "Ready to orbit the heart of Jewel and let its wonder unfold?",
+  accessibility: {
+    stepFree: true,
+    nearestLift: "Central lifts off the Level 1 atrium; Canopy Park lifts beside the Rain Vortex",
+    notes: "Every level is linked by lifts, and concierge desks on Levels 1, 2 and 5 lend wheelchairs.",
+    skip: [
+      {
+        needs: ["step-free"],
+        what: "Canopy Park's Sky Nets, mazes and slides",
+      },
+    ],
+  },
+  navigationNodeId: "atrium_l1",
+  scheduleItemIds: ["jewel_public_areas"],
 };
@@ -0,0 +1,26 @@
+import type { AnswerCacheFile } from "@/lib/answer-cache";
+import type { KnowledgeIndexFile } from "@/lib/knowledge-index";
+import type { VenueSchedule } from "@/lib/schedules";
+import type { NavigationGraph } from "@/lib/wayfinding";
+import type { VenueManifest, VenuePack } from "@/lib/venues";
+
+import answerCache from "./cache.json";
+import knowledgeIndex from "./index.json";
+import { changiJewelKnowledgeBase } from "./knowledge-base";
+import { changiJewelMain } from "./main";
+import manifest from "./manifest.json";
+import navigation from "./navigation.json";
+import { changiJewelRainVortex } from "./rain-vortex";
+import schedule from "./schedule.json";
+import synonyms from "./synonyms.json";
+
+export const changiJewelPack: VenuePack = {
+  manifest: manifest as VenueManifest,
+  knowledgeIndex: knowledgeIndex as KnowledgeIndexFile,
+  knowledgeBase: changiJewelKnowledgeBase,
+  pointsOfInterest: [changiJewelMain, changiJewelRainVortex],
+  answerCache: answerCache as AnswerCacheFile,
+  synonyms,
+  schedule: schedule as VenueSchedule,
+  navigation: navigation as NavigationGraph,
+};
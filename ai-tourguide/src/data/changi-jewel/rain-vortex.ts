@@ -26,4 +26,17 @@ export const changiJewelRainVortex: PlaceOfInterest = {
   ],
   callToAction:
     "Game to stand closer and feel the vortex wrap the whole atrium around us?",
+  accessibility: {
+    stepFree: true,
+    nearestLift: "Central lifts off the Level 1 atrium",
+    notes: "The Level 1 plunge-pool plaza is level with the atrium and ringed by benches.",
+    skip: [
+      {
+        needs: ["avoid-crowds"],
+        what: "the plaza railings during evening light shows",
+      },
+    ],
+  },
+  navigationNodeId: "rain_vortex_l1",
+  scheduleItemIds: ["rain_vortex_show"],
 };
@@ -0,0 +1,6 @@
+import type { VenuePack } from "@/lib/venues";
+
+import { changiJewelPack } from "./changi-jewel/pack";
+
+/** Raw venue packs, before validation. Append new venues here. */
+export const VENUE_PACK_SOURCES: VenuePack[] = [changiJewelPack];
@@ -0,0 +1,11 @@
+/**
+ * Next.js server start-up hook. Venue packs are validated here, once per server
+ * process, so bad data fails the boot instead of the first request.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+  const { assertValidVenuePacks } = await import("./lib/data-validation");
+  assertValidVenuePacks();
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseAccessibilityNotes } from "./accessibility";
+
+describe("parseAccessibilityNotes", () => {
+  it("reads needs from free-text notes", () => {
+    assert.deepEqual(parseAccessibilityNotes("Wheelchair user, tires easily"), [
+      "step-free",
+      "rest-stops",
+    ]);
+    assert.deepEqual(
+      parseAccessibilityNotes("Pushing a pram, and crowds stress me out"),
+      ["avoid-crowds", "stroller"]
+    );
+    assert.deepEqual(parseAccessibilityNotes("can't climb stairs"), ["step-free"]);
+    assert.deepEqual(parseAccessibilityNotes("n/a"), []);
+  });
+
+  it("ignores negated needs", () => {
+    assert.deepEqual(parseAccessibilityNotes("I'm not in a wheelchair"), []);
+    assert.deepEqual(parseAccessibilityNotes("no mobility issues"), []);
+    assert.deepEqual(parseAccessibilityNotes("We don't need a stroller"), []);
+    assert.deepEqual(parseAccessibilityNotes("without a wheelchair this time"), []);
+    assert.deepEqual(parseAccessibilityNotes("no need for breaks"), []);
+    assert.deepEqual(parseAccessibilityNotes("crowds don't bother me"), []);
+    assert.deepEqual(parseAccessibilityNotes("wheelchair not needed"), []);
+  });
+
+  it("keeps needs outside the negated clause", () => {
+    assert.deepEqual(
+      parseAccessibilityNotes("Not in a wheelchair, but I get tired quickly and need a bench"),
+      ["rest-stops"]
+    );
+    assert.deepEqual(parseAccessibilityNotes("I'm not blind but dad uses a walker"), [
+      "step-free",
+    ]);
+  });
+
+  it("treats a stated aversion as a need", () => {
+    assert.deepEqual(parseAccessibilityNotes("no crowds please"), ["avoid-crowds"]);
+    assert.deepEqual(parseAccessibilityNotes("I don't like crowds"), ["avoid-crowds"]);
+    assert.deepEqual(parseAccessibilityNotes("no stairs, my knees are bad"), [
+      "step-free",
+    ]);
+  });
+});
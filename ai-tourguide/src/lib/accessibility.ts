@@ -0,0 +1,167 @@
+/**
+ * Turns free-text `accessibilityNotes` ("wheelchair user, tires easily") into
+ * structured needs that routing, recommendations and narration can act on, and
+ * describes how accessible a place is.
+ *
+ * Parsing is keyword based and deliberately generous: a missed need is worse than an
+ * extra lift suggestion. Notes such as "none" or "n/a" yield no needs, and a keyword
+ * negated within its clause ("not in a wheelchair", "crowds don't bother me") is
+ * ignored.
+ *
+ * Example:
+ *   parseAccessibilityNotes("Pushing a pram, and crowds stress me out");
+ *   // ["avoid-crowds", "stroller"]
+ */
+export const ACCESSIBILITY_NEEDS = [
+  "step-free",
+  "avoid-crowds",
+  "stroller",
+  "low-vision",
+  "rest-stops",
+] as const;
+
+export type AccessibilityNeed = (typeof ACCESSIBILITY_NEEDS)[number];
+
+/** How accessible a place is; shared by knowledge entries and POIs. */
+export type AccessibilityInfo = {
+  /** Reachable without stairs or escalators. */
+  stepFree?: boolean;
+  /** Closest lift, e.g. "Canopy Park lifts beside the Rain Vortex (Level 1)". */
+  nearestLift?: string;
+  notes?: string;
+  /** Drop the whole place from recommendations for these needs. */
+  unsuitableFor?: AccessibilityNeed[];
+  /** Parts of the place to skip for these needs, e.g. nets and mazes. */
+  skip?: Array<{ needs: AccessibilityNeed[]; what: string }>;
+};
+
+const NEED_PATTERNS: Record<AccessibilityNeed, RegExp[]> = {
+  "step-free": [
+    /\bwheel\s?chairs?\b/,
+    /\b(mobility )?scooters?\b/,
+    /\b(walkers?|rollators?|crutches|walking (stick|frame|aid)s?)\b/,
+    /\b(no|avoid(ing)?|can'?t (do|climb|use)) (stairs|steps|escalators?)\b/,
+    /\bstep[\s-]?free\b/,
+    /\b(limited|reduced) mobility\b/,
+  ],
+  "avoid-crowds": [
+    // Aversions carry their own negation, so "no crowds" still counts.
+    /\b(no|avoid(ing)?|hate|dislike|(don'?t|do not) like|not a fan of) (big |large )?crowd(s|ed)?\b/,
+    /\bcrowd(s|ed|ing)?\b/,
+    /\b(autis(m|tic)|sensory|overstimulat\w*|anxi(ety|ous)|claustrophob\w*)\b/,
+    /\bquiet(er)?\b/,
+  ],
+  stroller: [/\b(strollers?|prams?|push\s?chairs?|buggy|buggies|baby carriage)\b/],
+  "low-vision": [
+    /\b(blind|low[\s-]?vision|visually impaired|vision impair\w*|partially sighted|guide dog)\b/,
+  ],
+  "rest-stops": [
+    /\b(rest|break|sit down|seat(ing|s)?|bench(es)?)\b/,
+    /\b(tire[sd]? easily|get tired|fatigue|breathless|elderly|senior|pregnan\w*)\b/,
+    /\b(can'?t|cannot) (walk|stand) (far|long)\b/,
+  ],
+};
+
+const NO_NEEDS = /^(none|no(ne)?\.?|n\/?a|nil|nothing|no (needs|notes|requirements))$/;
+
+// A negation up to three words before a keyword: "not in a wheelchair", "no need for breaks".
+const NEGATED_BEFORE =
+  /\b(not|no|never|without|don'?t|do not|doesn'?t|does not|isn'?t|aren'?t)\b(\s+[\w']+){0,3}\s*$/;
+// A negation right after it: "wheelchair not needed", "crowds don't bother me".
+const NEGATED_AFTER =
+  /^\s*((is|are)\s+)?(not (needed|required|an? (issue|problem))|(don'?t|doesn'?t|do not|does not) (bother|matter)|fine|ok(ay)?)\b/;
+const CLAUSE_BREAK = /[,.;:!?]|\b(but|and|although|though)\b/g;
+
+function mentions(text: string, pattern: RegExp): boolean {
+  for (const match of text.matchAll(new RegExp(pattern.source, "g"))) {
+    const clauseStart = Array.from(
+      text.slice(0, match.index).matchAll(CLAUSE_BREAK)
+    ).pop();
+    const before = text.slice(
+      clauseStart ? (clauseStart.index ?? 0) + clauseStart[0].length : 0,
+      match.index
+    );
+    const after = text.slice((match.index ?? 0) + match[0].length);
+    if (!NEGATED_BEFORE.test(before) && !NEGATED_AFTER.test(after)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export const ACCESSIBILITY_LABELS: Record<AccessibilityNeed, string> = {
+  "step-free": "step-free access (no stairs or escalators)",
+  "avoid-crowds": "quieter, less crowded routes",
+  stroller: "stroller-friendly, step-free paths",
+  "low-vision": "low vision (landmark and sound cues over signage)",
+  "rest-stops": "regular rest stops with seating",
+};
+
+export function parseAccessibilityNotes(notes?: string | null): AccessibilityNeed[] {
+  const text = notes?.trim().toLowerCase() ?? "";
+  if (!text || NO_NEEDS.test(text)) {
+    return [];
+  }
+  return ACCESSIBILITY_NEEDS.filter((need) =>
+    NEED_PATTERNS[need].some((pattern) => mentions(text, pattern))
+  );
+}
+
+/** Wheelchairs and strollers both rule out stairs and escalators. */
+export function needsStepFree(needs: AccessibilityNeed[]): boolean {
+  return needs.includes("step-free") || needs.includes("stroller");
+}
+
+export function describeAccessibilityNeeds(needs: AccessibilityNeed[]): string {
+  return needs.map((need) => ACCESSIBILITY_LABELS[need]).join("; ");
+}
+
+function expandNeeds(needs: AccessibilityNeed[]): Set<AccessibilityNeed> {
+  const expanded = new Set(needs);
+  if (needsStepFree(needs)) {
+    expanded.add("step-free");
+  }
+  return expanded;
+}
+
+export function isSuitableFor(
+  info: AccessibilityInfo | undefined,
+  needs: AccessibilityNeed[]
+): boolean {
+  const expanded = expandNeeds(needs);
+  return !info?.unsuitableFor?.some((need) => expanded.has(need));
+}
+
+/** Parts of a place this traveller should skip, e.g. "the Sky Nets and mazes". */
+export function partsToSkip(
+  info: AccessibilityInfo | undefined,
+  needs: AccessibilityNeed[]
+): string[] {
+  const expanded = expandNeeds(needs);
+  return (info?.skip ?? [])
+    .filter((part) => part.needs.some((need) => expanded.has(need)))
+    .map((part) => part.what);
+}
+
+/** One-line summary such as "Step-free. Nearest lift: … Skip: …". */
+export function formatAccessibilityInfo(
+  info: AccessibilityInfo | undefined,
+  needs: AccessibilityNeed[] = []
+): string | null {
+  if (!info) {
+    return null;
+  }
+  const skip = partsToSkip(info, needs);
+  const parts = [
+    info.stepFree === undefined
+      ? null
+      : info.stepFree
+      ? "Step-free access."
+      : "Not step-free.",
+    info.nearestLift ? `Nearest lift: ${info.nearestLift}.` : null,
+    info.notes,
+    skip.length ? `Skip for this traveller: ${skip.join("; ")}.` : null,
+  ];
+  const line = parts.filter(Boolean).join(" ");
+  return line || null;
+}
@@ -0,0 +1,126 @@
+/**
+ * Records what happened inside `TourGuideAgent.respond` so a bad answer can be
+ * debugged after the fact: the query, each agent run's input and context, the tool
+ * calls with their arguments and outputs, the knowledge trace, model output and usage,
+ * and the final response. Recording is on when `AGENT_RECORDING=true`; files land in
+ * `data/agent-recordings/<venueId>/` (or `AGENT_RECORDING_DIR`).
+ *
+ * Recordings are replayed by `replayAgentRecording` in agent-replay.ts, which runs the
+ * response building, web-search fallback and guardrails against them offline.
+ *
+ * Example:
+ *   const recorder = new AgentRecorder(query);
+ *   recorder.addRun({ agent: "Tour Guide Companion", input, context, trace, result });
+ *   const path = await recorder.save(response);
+ */
+import type { AgentOutputType } from "@openai/agents";
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import { dirname, resolve } from "path";
+
+import type { LlmAgentRunResult } from "./llm";
+import type { AgentQuery, AgentResponse, AgentRunTrace } from "./tour-agent";
+import type { TourAgentContext } from "./tools/knowledge-tool";
+
+export type RecordedQuery = Omit<AgentQuery, "onActivity" | "onDelta">;
+
+export type AgentRunRecording = {
+  agent: string;
+  /** The full user context the agent was given, history included. */
+  input: string;
+  context: Omit<TourAgentContext, "runTrace">;
+  /** Tool lookups the run made, as the tools recorded them. */
+  trace: AgentRunTrace;
+  /**
+   * Missing when the run threw; see `error`. Older recordings hold text output, newer
+   * ones a structured reply.
+   */
+  result?: LlmAgentRunResult<AgentOutputType>;
+  error?: { name: string; message: string };
+};
+
+export type AgentRecording = {
+  id: string;
+  version: string;
+  recordedAt: string;
+  venueId?: string;
+  provider: string;
+  query: RecordedQuery;
+  runs: AgentRunRecording[];
+  response: AgentResponse;
+};
+
+const RECORDING_VERSION = "1";
+const DEFAULT_RECORDING_DIR = resolve(process.cwd(), "data/agent-recordings");
+
+export function isAgentRecordingEnabled(): boolean {
+  return process.env.AGENT_RECORDING === "true";
+}
+
+export class AgentRecorder {
+  readonly id = randomUUID();
+  private recordedAt = new Date().toISOString();
+  private query: RecordedQuery;
+  private provider: string;
+  private runs: AgentRunRecording[] = [];
+  private dir: string;
+
+  constructor(query: AgentQuery, opts: { provider: string; dir?: string }) {
+    // Callbacks cannot be serialised and do not affect the answer.
+    const recorded: AgentQuery = { ...query };
+    delete recorded.onActivity;
+    delete recorded.onDelta;
+    this.query = recorded;
+    this.provider = opts.provider;
+    this.dir =
+      opts.dir ?? process.env.AGENT_RECORDING_DIR ?? DEFAULT_RECORDING_DIR;
+  }
+
+  get runCount(): number {
+    return this.runs.length;
+  }
+
+  addRun(run: AgentRunRecording): void {
+    // Copy now: the trace arrays are live and the caller may keep using them.
+    this.runs.push(JSON.parse(JSON.stringify(run)) as AgentRunRecording);
+  }
+
+  /** Writes the recording and returns its path. */
+  async save(response: AgentResponse): Promise<string> {
+    const recording: AgentRecording = {
+      id: this.id,
+      version: RECORDING_VERSION,
+      recordedAt: this.recordedAt,
+      venueId: response.venueId ?? this.runs[0]?.context.venueId,
+      provider: this.provider,
+      query: this.query,
+      runs: this.runs,
+      response,
+    };
+    const stamp = this.recordedAt.replace(/[:.]/g, "-");
+    const filePath = resolve(
+      this.dir,
+      recording.venueId ?? "unknown",
+      `${stamp}-${this.id.slice(0, 8)}.json`
+    );
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(recording, null, 2), "utf-8");
+    console.info("[AgentRecorder] saved recording", {
+      id: this.id,
+      filePath,
+      runs: this.runs.length,
+    });
+    return filePath;
+  }
+}
+
+export async function loadAgentRecording(
+  filePath: string
+): Promise<AgentRecording> {
+  const raw = await fs.readFile(filePath, "utf-8");
+  const recording = JSON.parse(raw) as AgentRecording;
+  if (!recording?.query?.query || !Array.isArray(recording.runs)) {
+    throw new Error(`${filePath} is not an agent recording.`);
+  }
+  return recording;
+}
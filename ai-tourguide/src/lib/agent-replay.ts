@@ -0,0 +1,69 @@
+/**
+ * Replays an AgentRecording through a fresh, read-only TourGuideAgent backed by the
+ * ReplayProvider, then compares the rebuilt response with the recorded one. Any
+ * difference means response building, the web-search fallback or a guardrail now
+ * behaves differently for that exact run.
+ *
+ * Example:
+ *   const result = await replayAgentRecording(await loadAgentRecording(path));
+ *   if (result.differences.length) console.log(result.differences);
+ */
+import type { AgentRecording } from "./agent-recordings";
+import { ReplayProvider } from "./llm";
+import { AgentResponse, TourGuideAgent } from "./tour-agent";
+
+export type ReplayDifference = {
+  field: string;
+  recorded: unknown;
+  replayed: unknown;
+};
+
+export type ReplayResult = {
+  recording: AgentRecording;
+  response: AgentResponse;
+  differences: ReplayDifference[];
+};
+
+// Cache status and venue id come from the store and request, not the recorded run.
+const COMPARED_FIELDS = [
+  "answer",
+  "usedWebSearch",
+  "webSearchNote",
+  "knowledgeReferences",
+  "citations",
+  "followUps",
+  "relatedPoiIds",
+] as const;
+
+export function diffAgentResponses(
+  recorded: AgentResponse,
+  replayed: AgentResponse
+): ReplayDifference[] {
+  return COMPARED_FIELDS.filter(
+    (field) =>
+      JSON.stringify(recorded[field] ?? null) !==
+      JSON.stringify(replayed[field] ?? null)
+  ).map((field) => ({
+    field,
+    recorded: recorded[field],
+    replayed: replayed[field],
+  }));
+}
+
+export async function replayAgentRecording(
+  recording: AgentRecording
+): Promise<ReplayResult> {
+  const provider = new ReplayProvider(recording);
+  const agent = new TourGuideAgent({ provider, record: false, readOnly: true });
+  const response = await agent.respond({ ...recording.query });
+
+  const differences = diffAgentResponses(recording.response, response);
+  if (provider.remainingRuns) {
+    differences.push({
+      field: "runs",
+      recorded: recording.runs.length,
+      replayed: recording.runs.length - provider.remainingRuns,
+    });
+  }
+  return { recording, response, differences };
+}
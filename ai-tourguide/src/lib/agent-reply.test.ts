@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { agentAnswerDeltas } from "./agent-reply";
+
+function streamed(deltas: string[]): string[] {
+  const sent: string[] = [];
+  const onDelta = agentAnswerDeltas((text) => sent.push(text));
+  deltas.forEach(onDelta);
+  return sent;
+}
+
+describe("agentAnswerDeltas", () => {
+  it("streams only the answer of a structured reply", () => {
+    const sent = streamed([
+      '{"ans',
+      'wer": "The Rain',
+      " Vortex is 40",
+      '-metre tall.", "spokenAnswer": "It is tall."',
+      ', "followUps": []}',
+    ]);
+    assert.deepEqual(sent, ["The Rain", " Vortex is 40", "-metre tall."]);
+  });
+
+  it("waits for escapes split across deltas", () => {
+    const sent = streamed(['{"answer":"Say \\', '"shiok\\', 'u0021\\"', ' lah"}']);
+    assert.equal(sent.join(""), 'Say "shiok!" lah');
+  });
+
+  it("passes plain text through", () => {
+    assert.deepEqual(streamed(["Canopy Park ", "is on Level 5."]), [
+      "Canopy Park ",
+      "is on Level 5.",
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * The guide agent's structured reply. The agent runs with `AgentReplySchema` as its
+ * output type, so the model returns the answer together with a short spoken version,
+ * follow-up questions the UI can offer as chips, related POIs it can narrate, and how
+ * confident it is. Every field is required because OpenAI's strict JSON schema mode
+ * needs that; limits such as the three follow-ups are applied after parsing.
+ *
+ * Plain-text outputs (mock fixtures without `fields`, older recordings) still parse:
+ * they become a reply with only `answer` set.
+ *
+ * Example:
+ *   const reply = parseAgentReply(agentRun.finalOutput, { poiIds: ["changi-jewel-rain-vortex"] });
+ *   reply.followUps; // ["When is the next light show?"]
+ */
+import { z } from "zod";
+
+export const MAX_FOLLOW_UPS = 3;
+
+export const AgentReplySchema = z.object({
+  answer: z.string(),
+  spokenAnswer: z.string(),
+  followUps: z.array(z.string()),
+  relatedPoiIds: z.array(z.string()),
+  confidence: z.enum(["high", "medium", "low"]),
+});
+
+export type AgentReplyConfidence = z.infer<typeof AgentReplySchema>["confidence"];
+
+export type AgentReply = {
+  answer: string;
+  spokenAnswer?: string;
+  followUps: string[];
+  relatedPoiIds: string[];
+  confidence?: AgentReplyConfidence;
+};
+
+function parseJsonObject(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{")) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+/** The answer text of a raw agent output, structured or not. */
+export function agentOutputText(raw: unknown): string {
+  if (typeof raw === "string") {
+    const parsed = AgentReplySchema.safeParse(parseJsonObject(raw));
+    return parsed.success ? parsed.data.answer : raw;
+  }
+  const parsed = AgentReplySchema.safeParse(raw);
+  return parsed.success ? parsed.data.answer : "";
+}
+
+/**
+ * The part of `answer` written so far in a partial raw output, so a structured reply
+ * can be streamed before its JSON is complete. Plain text is returned as it is.
+ */
+function partialAnswerText(raw: string): string {
+  const trimmed = raw.trimStart();
+  if (!trimmed.startsWith("{")) {
+    return trimmed;
+  }
+  const start = /"answer"\s*:\s*"/.exec(trimmed);
+  if (!start) {
+    return "";
+  }
+  let text = "";
+  for (let i = start.index + start[0].length; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === '"') {
+      break;
+    }
+    if (char !== "\\") {
+      text += char;
+      continue;
+    }
+    // Stop at an escape that has not fully arrived yet.
+    const length = trimmed[i + 1] === "u" ? 6 : 2;
+    const escape = trimmed.slice(i, i + length);
+    if (escape.length < length) {
+      break;
+    }
+    text += JSON.parse(`"${escape}"`);
+    i += length - 1;
+  }
+  return text;
+}
+
+/**
+ * Turns the raw output deltas of an agent run into deltas of its answer text.
+ *
+ * Example:
+ *   const onDelta = agentAnswerDeltas((text) => send("delta", { text }));
+ *   onDelta('{"answer":"The Rain'); // sends "The Rain"
+ */
+export function agentAnswerDeltas(
+  onAnswerDelta: (text: string) => void
+): (delta: string) => void {
+  let raw = "";
+  let sent = 0;
+  return (delta) => {
+    raw += delta;
+    const answer = partialAnswerText(raw);
+    if (answer.length > sent) {
+      onAnswerDelta(answer.slice(sent));
+      sent = answer.length;
+    }
+  };
+}
+
+/**
+ * Validates a raw agent output. Follow-ups are trimmed, de-duplicated and capped, and
+ * POI ids the venue does not publish are dropped.
+ */
+export function parseAgentReply(
+  raw: unknown,
+  opts: { poiIds: string[] }
+): AgentReply {
+  const parsed = AgentReplySchema.safeParse(
+    typeof raw === "string" ? parseJsonObject(raw) : raw
+  );
+  if (!parsed.success) {
+    return {
+      answer: typeof raw === "string" ? raw.trim() : "",
+      followUps: [],
+      relatedPoiIds: [],
+    };
+  }
+
+  const { answer, spokenAnswer, followUps, relatedPoiIds, confidence } =
+    parsed.data;
+  const knownPois = new Set(opts.poiIds);
+  return {
+    answer: answer.trim(),
+    spokenAnswer: spokenAnswer.trim() || undefined,
+    followUps: Array.from(
+      new Set(followUps.map((question) => question.trim()).filter(Boolean))
+    ).slice(0, MAX_FOLLOW_UPS),
+    relatedPoiIds: Array.from(new Set(relatedPoiIds)).filter((id) =>
+      knownPois.has(id)
+    ),
+    confidence,
+  };
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { AnswerCacheFile, AnswerCacheStore } from "./answer-cache";
+
+const seeds: AnswerCacheFile = {
+  meta: { version: "1", knowledgeVersion: "2025-03-01" },
+  cachedResponses: [
+    {
+      query: "canopy park",
+      normalizedQuery: "canopy park",
+      response: "Canopy Park is on Level 5.",
+      knowledgeReferences: ["canopy_park"],
+      cachedAt: "2025-01-01T00:00:00Z",
+    },
+  ],
+};
+
+async function tempStore(): Promise<AnswerCacheStore> {
+  const dir = await fs.mkdtemp(join(tmpdir(), "answer-cache-"));
+  return new AnswerCacheStore({
+    venueId: "changi-jewel",
+    knowledgeVersion: "2025-03-01",
+    seeds,
+    filePath: join(dir, "changi-jewel.json"),
+  });
+}
+
+describe("AnswerCacheStore", () => {
+  it("serves a stored answer only to the persona that wrote it", async () => {
+    const store = await tempStore();
+    await store.store({
+      query: "What is the Rain Vortex?",
+      response: "Wah, the Rain Vortex is damn shiok lah.",
+      knowledgeReferences: ["rain_vortex"],
+      personaId: "wei-jie",
+      lang: "en-SG",
+    });
+
+    const own = await store.lookup("what is the rain vortex", {
+      personaId: "wei-jie",
+      lang: "en-SG",
+    });
+    assert.equal(own?.entry.response, "Wah, the Rain Vortex is damn shiok lah.");
+    assert.equal(
+      await store.lookup("what is the rain vortex", {
+        personaId: "sir-raffles",
+        lang: "en-SG",
+      }),
+      null
+    );
+  });
+
+  it("serves curated seeds to every persona", async () => {
+    const store = await tempStore();
+    const hit = await store.lookup("Canopy Park?", {
+      personaId: "sir-raffles",
+      lang: "en-GB",
+    });
+    assert.equal(hit?.entry.knowledgeReferences[0], "canopy_park");
+  });
+
+  it("does not serve an English answer to another language", async () => {
+    const store = await tempStore();
+    assert.equal(
+      await store.lookup("Canopy Park?", { personaId: "wei-jie", lang: "zh-CN" }),
+      null
+    );
+  });
+
+  it("keeps every answer when stores run concurrently", async () => {
+    const store = await tempStore();
+    const questions = ["rain vortex", "forest valley", "shiseido forest valley"];
+    await Promise.all(
+      questions.map((query) =>
+        store.store({
+          query,
+          response: `All about ${query}.`,
+          knowledgeReferences: ["rain_vortex"],
+          personaId: "wei-jie",
+          lang: "en-SG",
+        })
+      )
+    );
+
+    for (const query of questions) {
+      const hit = await store.lookup(query, { personaId: "wei-jie", lang: "en" });
+      assert.equal(hit?.entry.response, `All about ${query}.`);
+    }
+  });
+});
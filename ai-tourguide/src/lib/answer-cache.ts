@@ -0,0 +1,387 @@
+import { promises as fs } from "fs";
+import { dirname, resolve } from "path";
+
+import { tokenize } from "./knowledge-index";
+import { editDistance } from "./query-expansion";
+
+export type CachedResponse = {
+  query: string;
+  normalizedQuery: string;
+  response: string;
+  knowledgeReferences: string[];
+  cachedAt: string;
+  expiresAt?: string;
+  knowledgeVersion?: string;
+  /**
+   * Guide persona whose voice the answer is written in. Curated seeds leave it out
+   * and are served to every persona; stored answers only to the one that wrote them.
+   */
+  personaId?: string;
+  /** Primary language subtag of the answer, e.g. "en"; entries without one are English. */
+  lang?: string;
+};
+
+export type AnswerCacheFile = {
+  meta: {
+    version: string;
+    description?: string;
+    lastUpdated?: string;
+    knowledgeVersion?: string;
+  };
+  cachedResponses: CachedResponse[];
+};
+
+export type AnswerCacheStatus = {
+  hit: boolean;
+  similarity?: number;
+  matchedQuery?: string;
+  knowledgeVersion: string;
+};
+
+export type AnswerCacheHit = {
+  entry: CachedResponse;
+  similarity: number;
+};
+
+const DEFAULT_CACHE_DIR = resolve(process.cwd(), "data/answer-cache");
+const DEFAULT_TTL_HOURS = 24 * 7;
+// Scored by `cacheKeySimilarity`, where one typo in a two-word key scores about 0.92.
+const DEFAULT_SIMILARITY_THRESHOLD = 0.9;
+// Question words that change what is being asked, so "where is X?" never gets the
+// answer to "when does X open?". "What" is left out: "what's X?" just asks about X.
+const INTENT_WORDS = new Set(["when", "where", "how", "why", "which", "who"]);
+const DEFAULT_MAX_ENTRIES = 200;
+
+function parseNumber(value: string | undefined, fallback: number) {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number.parseFloat(value);
+  return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+/**
+ * Lowercases, strips punctuation and stopwords, and folds plurals so "What's the
+ * Rain Vortex?" and "rain vortex" normalise to the same key. Intent words such as
+ * "where" and "when" are kept.
+ */
+export function normalizeCacheQuery(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .flatMap((word) => (INTENT_WORDS.has(word) ? [word] : tokenize(word)))
+    .filter((token) => token.length > 1)
+    .join(" ");
+}
+
+/** "en-SG" and "en" both key as "en": regional variants share answers. */
+export function cacheLanguage(lang: string): string {
+  return lang.split(/[-_]/)[0].toLowerCase() || "en";
+}
+
+/** The intent words left in a normalised query, e.g. "where" for "where canopy park". */
+export function queryIntent(normalized: string): string {
+  return normalized
+    .split(" ")
+    .filter((word) => INTENT_WORDS.has(word))
+    .join(" ");
+}
+
+function characterBigrams(text: string): string[] {
+  const compact = text.replace(/\s+/g, "");
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    grams.push(compact.slice(i, i + 2));
+  }
+  return grams;
+}
+
+function diceCoefficient(a: string[], b: string[]): number {
+  if (!a.length || !b.length) {
+    return 0;
+  }
+  const counts = new Map<string, number>();
+  for (const item of a) {
+    counts.set(item, (counts.get(item) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (const item of b) {
+    const remaining = counts.get(item) ?? 0;
+    if (remaining > 0) {
+      overlap++;
+      counts.set(item, remaining - 1);
+    }
+  }
+  return (2 * overlap) / (a.length + b.length);
+}
+
+/**
+ * Similarity between two normalised queries. Token overlap catches reordered
+ * words, character bigrams tolerate small typos; the stronger signal wins.
+ */
+export function querySimilarity(a: string, b: string): number {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+  const tokenScore = diceCoefficient(a.split(" "), b.split(" "));
+  const bigramScore = diceCoefficient(characterBigrams(a), characterBigrams(b));
+  return Math.max(tokenScore, bigramScore);
+}
+
+// Longer words may carry a typo ("canopi", "resturant"); short words and intent
+// words must match exactly, so "free" is never "tree" and "when" never "where".
+function tokenMatchScore(token: string, candidates: string[]): number {
+  const allowed = INTENT_WORDS.has(token)
+    ? 0
+    : token.length >= 8
+    ? 2
+    : token.length >= 5
+    ? 1
+    : 0;
+  let best = 0;
+  for (const candidate of candidates) {
+    const distance = editDistance(token, candidate, allowed);
+    if (distance <= allowed) {
+      best = Math.max(
+        best,
+        1 - distance / Math.max(token.length, candidate.length)
+      );
+    }
+  }
+  return best;
+}
+
+/**
+ * Stricter similarity for reusing whole answers: every word on either side needs a
+ * counterpart (allowing small typos), so "Is the Rain Vortex free?" does not reuse
+ * the answer to "rain vortex". Scores 0 when any word is unmatched, otherwise the
+ * mean closeness of the matched words.
+ */
+export function cacheKeySimilarity(a: string, b: string): number {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+  const left = a.split(" ");
+  const right = b.split(" ");
+  const scores = [
+    ...left.map((token) => tokenMatchScore(token, right)),
+    ...right.map((token) => tokenMatchScore(token, left)),
+  ];
+  if (scores.some((score) => score === 0)) {
+    return 0;
+  }
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+export class AnswerCacheStore {
+  private filePath: string;
+  private knowledgeVersion: string;
+  private ttlMs: number;
+  private similarityThreshold: number;
+  private maxEntries: number;
+  private seeds: CachedResponse[];
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(opts: {
+    venueId: string;
+    knowledgeVersion: string;
+    seeds?: AnswerCacheFile;
+    filePath?: string;
+    ttlHours?: number;
+    similarityThreshold?: number;
+    maxEntries?: number;
+  }) {
+    this.knowledgeVersion = opts.knowledgeVersion;
+    this.filePath =
+      opts.filePath ??
+      resolve(
+        process.env.ANSWER_CACHE_DIR ?? DEFAULT_CACHE_DIR,
+        `${opts.venueId}.json`
+      );
+    this.ttlMs =
+      parseNumber(
+        process.env.ANSWER_CACHE_TTL_HOURS,
+        opts.ttlHours ?? DEFAULT_TTL_HOURS
+      ) *
+      60 *
+      60 *
+      1000;
+    this.similarityThreshold = Math.min(
+      parseNumber(
+        process.env.ANSWER_CACHE_SIMILARITY,
+        opts.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD
+      ),
+      1
+    );
+    this.maxEntries = parseNumber(
+      process.env.ANSWER_CACHE_LIMIT,
+      opts.maxEntries ?? DEFAULT_MAX_ENTRIES
+    );
+
+    // Curated seeds inherit the file-level knowledge version when entries omit it.
+    this.seeds = (opts.seeds?.cachedResponses ?? []).map((entry) => ({
+      ...entry,
+      knowledgeVersion:
+        entry.knowledgeVersion ?? opts.seeds?.meta.knowledgeVersion,
+    }));
+  }
+
+  getKnowledgeVersion(): string {
+    return this.knowledgeVersion;
+  }
+
+  private isFresh(entry: CachedResponse, at: number): boolean {
+    if (entry.knowledgeVersion !== this.knowledgeVersion) {
+      return false;
+    }
+    if (entry.expiresAt) {
+      const expiry = Date.parse(entry.expiresAt);
+      if (!Number.isNaN(expiry) && expiry <= at) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  async lookup(
+    query: string,
+    opts: { personaId: string; lang: string }
+  ): Promise<AnswerCacheHit | null> {
+    const normalized = normalizeCacheQuery(query);
+    if (!normalized) {
+      return null;
+    }
+
+    const lang = cacheLanguage(opts.lang);
+    const stored = (await this.readCacheFile()).cachedResponses.filter(
+      (entry) => entry.personaId === opts.personaId
+    );
+    const seeds = this.seeds.filter(
+      (entry) => !entry.personaId || entry.personaId === opts.personaId
+    );
+    const at = Date.now();
+    let best: AnswerCacheHit | null = null;
+
+    // Stored answers are listed first so they win ties against curated seeds. Keys are
+    // rebuilt from the original query so older entries pick up the intent words.
+    for (const entry of [...stored, ...seeds]) {
+      if (!this.isFresh(entry, at) || (entry.lang ?? "en") !== lang) {
+        continue;
+      }
+      const similarity = cacheKeySimilarity(
+        normalized,
+        normalizeCacheQuery(entry.query || entry.normalizedQuery)
+      );
+      if (similarity > (best?.similarity ?? 0)) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (!best || best.similarity < this.similarityThreshold) {
+      return null;
+    }
+
+    return best;
+  }
+
+  async store(entry: {
+    query: string;
+    response: string;
+    knowledgeReferences: string[];
+    personaId: string;
+    lang: string;
+  }): Promise<void> {
+    const normalizedQuery = normalizeCacheQuery(entry.query);
+    if (!normalizedQuery || !entry.response.trim()) {
+      return;
+    }
+    const lang = cacheLanguage(entry.lang);
+
+    return this.serialize(async () => {
+      const cache = await this.readCacheFile();
+      const at = Date.now();
+
+      // Drop stale and superseded answers before appending the new one; other
+      // personas and languages keep their own answer to the same question.
+      const retained = cache.cachedResponses.filter(
+        (existing) =>
+          this.isFresh(existing, at) &&
+          (existing.normalizedQuery !== normalizedQuery ||
+            existing.personaId !== entry.personaId ||
+            (existing.lang ?? "en") !== lang)
+      );
+
+      retained.push({
+        query: entry.query,
+        normalizedQuery,
+        response: entry.response,
+        knowledgeReferences: entry.knowledgeReferences,
+        cachedAt: new Date(at).toISOString(),
+        expiresAt: new Date(at + this.ttlMs).toISOString(),
+        knowledgeVersion: this.knowledgeVersion,
+        personaId: entry.personaId,
+        lang,
+      });
+
+      if (retained.length > this.maxEntries) {
+        retained.splice(0, retained.length - this.maxEntries);
+      }
+
+      await this.writeCacheFile({
+        meta: {
+          ...cache.meta,
+          lastUpdated: new Date(at).toISOString(),
+          knowledgeVersion: this.knowledgeVersion,
+        },
+        cachedResponses: retained,
+      });
+    });
+  }
+
+  /**
+   * Runs read-modify-write changes one at a time so answers finishing together
+   * cannot each rewrite the same snapshot and drop the other's entry.
+   */
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(change);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readCacheFile(): Promise<AnswerCacheFile> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf-8");
+      const parsed = JSON.parse(raw) as AnswerCacheFile;
+      return {
+        meta: parsed?.meta ?? { version: "1" },
+        cachedResponses: Array.isArray(parsed?.cachedResponses)
+          ? parsed.cachedResponses
+          : [],
+      };
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+        console.warn("[AnswerCache] read cache failed", { error });
+      }
+      return {
+        meta: {
+          version: "1",
+          description: "Grounded answers written back by TourGuideAgent",
+        },
+        cachedResponses: [],
+      };
+    }
+  }
+
+  private async writeCacheFile(cache: AnswerCacheFile): Promise<void> {
+    const directory = dirname(this.filePath);
+    await fs.mkdir(directory, { recursive: true });
+    const payload = JSON.stringify(cache, null, 2);
+    await fs.writeFile(this.filePath, payload, "utf-8");
+  }
+}
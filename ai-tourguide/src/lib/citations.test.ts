@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { splitSentences } from "./citations";
+
+function sentences(text: string): string[] {
+  return splitSentences(text).map((span) => span.text);
+}
+
+describe("splitSentences", () => {
+  it("keeps decimals, prices and abbreviations inside a sentence", () => {
+    assert.deepEqual(
+      sentences(
+        "The light show starts at 7.30pm. Tickets cost S$8.50, e.g. for adults. The walk is 1.5km!"
+      ),
+      [
+        "The light show starts at 7.30pm.",
+        "Tickets cost S$8.50, e.g. for adults.",
+        "The walk is 1.5km!",
+      ]
+    );
+  });
+
+  it("splits at line breaks and closing quotes", () => {
+    assert.deepEqual(sentences('He said "Shiok!" Then left\nNext line'), [
+      'He said "Shiok!"',
+      "Then left",
+      "Next line",
+    ]);
+  });
+
+  it("reports offsets into the original text", () => {
+    const text = "Canopy Park is on Level 5.  It opens at 10am.";
+    for (const span of splitSentences(text)) {
+      assert.equal(text.slice(span.start, span.end), span.text);
+    }
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Post-hoc attribution of answer sentences to the evidence the agent actually saw.
+ *
+ * Candidate sources come from the run trace (knowledge entries returned by the lookup
+ * tools) and from web search URL annotations. Each answer sentence is matched to the
+ * sources whose wording it overlaps most, so a citation only appears when the
+ * sentence plausibly came from that source.
+ *
+ * Example:
+ *   const citations = attributeCitations(reply, agentResult.citationSources);
+ *   citations[0]; // { sentence: "...", sources: [{ type: "knowledge", entryId: "rain_vortex", ... }] }
+ */
+import type { KnowledgeEntry } from "./knowledge-index";
+import { tokenize } from "./tokenizer";
+
+export type CitationRef =
+  | {
+      type: "knowledge";
+      entryId: string;
+      title: string;
+      url?: string;
+    }
+  | {
+      type: "web";
+      url: string;
+      title: string;
+    };
+
+/** A citable source plus the text used to match answer sentences against it. */
+export type CitationSource = CitationRef & {
+  evidence: string;
+};
+
+export type Citation = {
+  sentence: string;
+  /** Character offsets of the sentence in the answer. */
+  start: number;
+  end: number;
+  sources: CitationRef[];
+};
+
+type SentenceSpan = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+// Share of a sentence's content words that must appear in the source.
+const MIN_OVERLAP = 0.35;
+const MIN_SENTENCE_TOKENS = 2;
+const MAX_SOURCES_PER_SENTENCE = 2;
+
+/**
+ * Splits text into sentences with their offsets. A sentence ends at a line break or at
+ * terminal punctuation followed by whitespace or the end of the text, so "7.30pm",
+ * "S$8.50", "1.5km" and "e.g. the lift" stay in one sentence.
+ */
+export function splitSentences(text: string): SentenceSpan[] {
+  const spans: SentenceSpan[] = [];
+  const pattern =
+    /[^\n]+?(?:(?<!\b[eEiI]\.[gGeE])[.!?]+["”’)]*(?=\s|$)|(?=\n)|$)/g;
+  for (const match of text.matchAll(pattern)) {
+    const raw = match[0];
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (!trimmed) {
+      continue;
+    }
+    const start = (match.index ?? 0) + leading;
+    spans.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+  return spans;
+}
+
+export function knowledgeCitationSource(entry: KnowledgeEntry): CitationSource {
+  const url = entry.sources?.find((source) => source.url)?.url;
+  return {
+    type: "knowledge",
+    entryId: entry.id,
+    title: entry.name,
+    ...(url ? { url } : {}),
+    evidence: [entry.summary, entry.details, ...(entry.tags ?? [])].join(" "),
+  };
+}
+
+export function citationKey(ref: CitationRef): string {
+  return ref.type === "knowledge" ? `kb:${ref.entryId}` : `web:${ref.url}`;
+}
+
+function toRef(source: CitationSource): CitationRef {
+  return source.type === "knowledge"
+    ? {
+        type: "knowledge",
+        entryId: source.entryId,
+        title: source.title,
+        ...(source.url ? { url: source.url } : {}),
+      }
+    : { type: "web", url: source.url, title: source.title };
+}
+
+export function attributeCitations(
+  answer: string,
+  sources: CitationSource[]
+): Citation[] {
+  if (!answer.trim() || !sources.length) {
+    return [];
+  }
+
+  const unique = new Map<string, CitationSource>();
+  for (const source of sources) {
+    const key = citationKey(source);
+    const existing = unique.get(key);
+    unique.set(
+      key,
+      existing
+        ? { ...existing, evidence: `${existing.evidence} ${source.evidence}` }
+        : source
+    );
+  }
+
+  const indexed = Array.from(unique.values()).map((source) => ({
+    source,
+    titleTokens: tokenize(source.title),
+    evidenceTokens: new Set(tokenize(`${source.title} ${source.evidence}`)),
+  }));
+
+  const citations: Citation[] = [];
+  for (const span of splitSentences(answer)) {
+    const tokens = Array.from(new Set(tokenize(span.text)));
+    if (tokens.length < MIN_SENTENCE_TOKENS) {
+      continue;
+    }
+    const tokenSet = new Set(tokens);
+
+    const scored = indexed
+      .map(({ source, titleTokens, evidenceTokens }) => {
+        const overlap =
+          tokens.filter((token) => evidenceTokens.has(token)).length /
+          tokens.length;
+        // Naming the entry outright is strong evidence even in a short sentence.
+        const namesSource =
+          titleTokens.length > 0 &&
+          titleTokens.every((token) => tokenSet.has(token));
+        return { source, score: overlap + (namesSource ? 0.5 : 0) };
+      })
+      .filter((item) => item.score >= MIN_OVERLAP)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SOURCES_PER_SENTENCE);
+
+    if (scored.length) {
+      citations.push({
+        sentence: span.text,
+        start: span.start,
+        end: span.end,
+        sources: scored.map(({ source }) => toRef(source)),
+      });
+    }
+  }
+
+  return citations;
+}
@@ -5,6 +5,8 @@ export type Session = {
   lastSeenAt: number;
   turns: number;
   lang?: string;
+  /** Guide persona picked for this session; see `lib/personas`. */
+  personaId?: string;
 };
 
 export const SESSIONS = new Map<string, Session>();
@@ -0,0 +1,297 @@
+/**
+ * Zod schemas for the JSON and TS data that ships inside venue packs. The inferred
+ * shapes are pinned to the hand-written types so the two cannot drift apart.
+ */
+import { z } from "zod";
+
+import type {
+  ChangiJewelKnowledge,
+  FaqEntry,
+  KnowledgeBlock,
+  QuickFact,
+} from "@/data/changi-jewel/types";
+
+import { ACCESSIBILITY_NEEDS, type AccessibilityInfo } from "./accessibility";
+import type { AnswerCacheFile, CachedResponse } from "./answer-cache";
+import type {
+  KnowledgeEntry,
+  KnowledgeIndexFile,
+  KnowledgeSource,
+} from "./knowledge-index";
+import type { SynonymTable } from "./query-expansion";
+import { type VenueSchedule, WEEKDAYS, isValidTimeZone } from "./schedules";
+import type { NavigationGraph } from "./wayfinding";
+import type { PlaceOfInterest } from "./storytelling";
+import type { VenueManifest } from "./venues";
+
+/** `YYYY-MM` or `YYYY-MM-DD`, matching how `lastVerified` is written by hand. */
+export const LAST_VERIFIED_PATTERN = /^\d{4}-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?$/;
+
+const text = z
+  .string()
+  .refine((value) => value.trim().length > 0, { message: "must not be blank" });
+
+const textList = z.array(text);
+
+const lastVerified = z
+  .string()
+  .regex(LAST_VERIFIED_PATTERN, { message: "expected YYYY-MM or YYYY-MM-DD" });
+
+const isoTimestamp = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), {
+    message: "expected an ISO timestamp",
+  });
+
+const localTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, {
+  message: "expected HH:MM on a 24-hour clock",
+});
+
+const localDate = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, {
+  message: "expected YYYY-MM-DD",
+});
+
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+
+const accessibilityNeeds = z.array(z.enum(ACCESSIBILITY_NEEDS)).min(1);
+
+export const AccessibilityInfoSchema: z.ZodType<AccessibilityInfo> = z.object({
+  stepFree: z.boolean().optional(),
+  nearestLift: z.string().optional(),
+  notes: z.string().optional(),
+  unsuitableFor: accessibilityNeeds.optional(),
+  skip: z
+    .array(z.object({ needs: accessibilityNeeds, what: text }))
+    .optional(),
+});
+
+export const KnowledgeSourceSchema: z.ZodType<KnowledgeSource> = z.object({
+  type: text,
+  note: z.string().optional(),
+  url: z.string().url().optional(),
+});
+
+export const KnowledgeEntrySchema: z.ZodType<KnowledgeEntry> = z.object({
+  id: text,
+  name: text,
+  summary: text,
+  details: text,
+  tags: textList.optional(),
+  location: z
+    .object({
+      lat: latitude.optional(),
+      lng: longitude.optional(),
+      level: z.string().optional(),
+    })
+    .optional(),
+  sources: z.array(KnowledgeSourceSchema).optional(),
+  accessibility: AccessibilityInfoSchema.optional(),
+  lastVerified: lastVerified.optional(),
+});
+
+export const KnowledgeIndexFileSchema: z.ZodType<KnowledgeIndexFile> = z.object({
+  meta: z.object({
+    version: text,
+    scope: z.string().optional(),
+    notes: z.string().optional(),
+  }),
+  entries: z.array(KnowledgeEntrySchema),
+});
+
+const QuickFactSchema: z.ZodType<QuickFact> = z.object({
+  label: text,
+  value: text,
+  category: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const KnowledgeBlockSchema: z.ZodType<KnowledgeBlock> = z.object({
+  title: text,
+  summary: text,
+  bullets: textList.optional(),
+  tags: textList.optional(),
+  relatedLinks: z.array(z.string().url()).optional(),
+  lastVerified: lastVerified.optional(),
+});
+
+const FaqEntrySchema: z.ZodType<FaqEntry> = z.object({
+  question: text,
+  answer: text,
+  relatedTopics: textList.optional(),
+});
+
+const blocks = z.array(KnowledgeBlockSchema);
+
+export const ChangiJewelKnowledgeSchema: z.ZodType<ChangiJewelKnowledge> =
+  z.object({
+    overview: KnowledgeBlockSchema,
+    quickFacts: z.array(QuickFactSchema),
+    history: blocks,
+    developmentPartnership: blocks,
+    architectureAndEngineering: blocks,
+    natureAndBiophilia: blocks,
+    attractionsAndExperiences: blocks,
+    canopyParkHighlights: blocks,
+    artAndInstallations: blocks,
+    shoppingAndDining: blocks,
+    hospitalityAndServices: blocks,
+    operationsAndLogistics: blocks,
+    visitorPlanning: blocks,
+    sustainabilityAndInnovation: blocks,
+    awardsAndRecognition: blocks,
+    futureOutlook: blocks,
+    triviaAndFunFacts: textList,
+    faqs: z.array(FaqEntrySchema),
+    references: textList,
+  });
+
+export const PlaceOfInterestSchema: z.ZodType<PlaceOfInterest> = z.object({
+  id: text,
+  name: text,
+  summary: text,
+  highlights: textList.min(1),
+  sensoryDetails: textList,
+  suggestedDuration: text,
+  insiderTips: textList.optional(),
+  callToAction: z.string().optional(),
+  accessibility: AccessibilityInfoSchema.optional(),
+  navigationNodeId: text.optional(),
+  scheduleItemIds: z.array(text).optional(),
+});
+
+const CachedResponseSchema: z.ZodType<CachedResponse> = z.object({
+  query: text,
+  normalizedQuery: z.string(),
+  response: text,
+  knowledgeReferences: z.array(text),
+  cachedAt: isoTimestamp,
+  expiresAt: isoTimestamp.optional(),
+  knowledgeVersion: z.string().optional(),
+  personaId: z.string().optional(),
+  lang: z.string().optional(),
+});
+
+export const AnswerCacheFileSchema: z.ZodType<AnswerCacheFile> = z.object({
+  meta: z.object({
+    version: text,
+    description: z.string().optional(),
+    lastUpdated: isoTimestamp.optional(),
+    knowledgeVersion: z.string().optional(),
+  }),
+  cachedResponses: z.array(CachedResponseSchema),
+});
+
+export const SynonymTableSchema: z.ZodType<SynonymTable> = z.object({
+  meta: z.object({
+    version: text,
+    notes: z.string().optional(),
+  }),
+  groups: z.array(
+    z.object({
+      canonical: text,
+      aliases: textList.min(1),
+      entryIds: textList.optional(),
+    })
+  ),
+});
+
+const openingHours = z.object({
+  open: localTime,
+  close: localTime,
+});
+
+const showRun = z.object({
+  times: z.array(localTime).min(1),
+  durationMinutes: z.number().int().positive(),
+});
+
+const weekdays = z.array(z.enum(WEEKDAYS)).min(1).optional();
+
+export const VenueScheduleSchema: z.ZodType<VenueSchedule> = z.object({
+  meta: z.object({
+    version: text,
+    timezone: z.string().refine(isValidTimeZone, {
+      message: "expected an IANA time zone such as Asia/Singapore",
+    }),
+    notes: z.string().optional(),
+    lastVerified: lastVerified.optional(),
+  }),
+  items: z.array(
+    z.object({
+      id: text,
+      name: text,
+      kind: z.enum(["venue", "attraction", "show", "service"]),
+      knowledgeId: z.string().optional(),
+      hours: z.array(openingHours.extend({ days: weekdays })).optional(),
+      shows: z.array(showRun.extend({ days: weekdays })).optional(),
+      lastEntryMinutes: z.number().int().positive().optional(),
+      notes: z.string().optional(),
+    })
+  ),
+  exceptions: z.array(
+    z.object({
+      date: localDate,
+      itemId: text,
+      closed: z.boolean().optional(),
+      hours: z.array(openingHours).optional(),
+      shows: z.array(showRun).optional(),
+      note: z.string().optional(),
+    })
+  ),
+});
+
+export const NavigationGraphSchema: z.ZodType<NavigationGraph> = z.object({
+  meta: z.object({
+    version: text,
+    notes: z.string().optional(),
+  }),
+  nodes: z.array(
+    z.object({
+      id: text,
+      name: text,
+      kind: z.enum(["entrance", "junction", "lift", "escalator", "bridge", "poi"]),
+      level: text,
+      knowledgeId: z.string().optional(),
+      aliases: textList.optional(),
+      seating: z.boolean().optional(),
+      suggestedDuration: z.string().optional(),
+      lat: latitude.optional(),
+      lng: longitude.optional(),
+    })
+  ),
+  edges: z.array(
+    z.object({
+      from: text,
+      to: text,
+      kind: z.enum(["walk", "lift", "escalator", "stairs", "bridge", "travelator"]),
+      seconds: z.number().positive(),
+      hint: z.string().optional(),
+      reverseHint: z.string().optional(),
+      oneWay: z.boolean().optional(),
+      stepFree: z.boolean().optional(),
+      busy: z.boolean().optional(),
+    })
+  ),
+});
+
+export const VenueManifestSchema: z.ZodType<VenueManifest> = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, {
+    message: "expected a lowercase kebab-case id",
+  }),
+  name: text,
+  aliases: textList.optional(),
+  city: z.string().optional(),
+  poiCatalog: textList,
+  defaultPersona: text,
+  boundingBox: z
+    .object({
+      north: latitude,
+      south: latitude,
+      east: longitude,
+      west: longitude,
+    })
+    .refine((box) => box.north > box.south && box.east > box.west, {
+      message: "north/east must be greater than south/west",
+    }),
+});
@@ -0,0 +1,657 @@
+/**
+ * Validates venue packs beyond their schemas: duplicate ids, dangling cache, schedule
+ * and navigation references, POIs missing from the catalog or with unreadable durations,
+ * unknown default personas, coordinates outside the venue bounds, disconnected
+ * navigation nodes, synonym aliases claimed by two groups and `lastVerified` dates that
+ * have gone stale.
+ *
+ * Example:
+ *   const issues = validateVenuePacks(VENUE_PACK_SOURCES);
+ *   issues.filter((issue) => issue.severity === "error");
+ */
+import type { z } from "zod";
+
+import {
+  AnswerCacheFileSchema,
+  ChangiJewelKnowledgeSchema,
+  KnowledgeIndexFileSchema,
+  NavigationGraphSchema,
+  PlaceOfInterestSchema,
+  SynonymTableSchema,
+  VenueManifestSchema,
+  VenueScheduleSchema,
+} from "./data-schemas";
+import { compileKnowledgeBase } from "./knowledge-compiler";
+import { parseSuggestedDuration } from "./itinerary";
+import { getPersona } from "./personas";
+import { tokenize } from "./tokenizer";
+import { VenueBoundingBox, VenuePack, listVenuePacks } from "./venues";
+
+export type DataIssue = {
+  severity: "error" | "warning";
+  file: string;
+  path: string;
+  message: string;
+};
+
+export type DataValidationOptions = {
+  now?: Date;
+  /** `lastVerified` older than this many months is reported as stale. */
+  staleAfterMonths?: number;
+};
+
+const DEFAULT_STALE_AFTER_MONTHS = Number.parseInt(
+  process.env.DATA_STALE_AFTER_MONTHS ?? "24",
+  10
+);
+
+export class VenueDataError extends Error {
+  issues: DataIssue[];
+
+  constructor(venueId: string, issues: DataIssue[]) {
+    super(
+      [
+        `Venue pack "${venueId}" has ${issues.length} data error(s):`,
+        ...issues.map(formatDataIssue),
+      ].join("\n")
+    );
+    this.name = "VenueDataError";
+    this.issues = issues;
+  }
+}
+
+export function formatDataIssue(issue: DataIssue): string {
+  const location = issue.path ? `${issue.file} ${issue.path}` : issue.file;
+  return `  ${issue.severity.toUpperCase()} ${location}: ${issue.message}`;
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : index === 0
+        ? segment
+        : `.${segment}`
+    )
+    .join("");
+}
+
+function checkSchema(
+  issues: DataIssue[],
+  schema: z.ZodTypeAny,
+  value: unknown,
+  file: string,
+  basePath: Array<string | number> = []
+): boolean {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return true;
+  }
+  for (const issue of result.error.issues) {
+    issues.push({
+      severity: "error",
+      file,
+      path: formatPath([...basePath, ...issue.path]),
+      message: issue.message,
+    });
+  }
+  return false;
+}
+
+function monthsBetween(value: string, now: Date): number {
+  const [year, month] = value.split("-").map((part) => Number.parseInt(part, 10));
+  return (now.getFullYear() - year) * 12 + (now.getMonth() + 1 - month);
+}
+
+function checkStale(
+  issues: DataIssue[],
+  value: string | undefined,
+  file: string,
+  path: string,
+  opts: Required<DataValidationOptions>
+) {
+  if (!value) {
+    return;
+  }
+  const age = monthsBetween(value, opts.now);
+  if (age > opts.staleAfterMonths) {
+    issues.push({
+      severity: "warning",
+      file,
+      path,
+      message: `lastVerified ${value} is ${age} months old`,
+    });
+  }
+}
+
+function checkCoordinates(
+  issues: DataIssue[],
+  location: { lat?: number; lng?: number } | undefined,
+  box: VenueBoundingBox,
+  venueName: string,
+  file: string,
+  path: string
+) {
+  const { lat, lng } = location ?? {};
+  if (typeof lat === "number" && typeof lng === "number") {
+    if (lat > box.north || lat < box.south || lng > box.east || lng < box.west) {
+      issues.push({
+        severity: "error",
+        file,
+        path,
+        message: `${lat}, ${lng} is outside the ${venueName} bounding box`,
+      });
+    }
+  } else if (typeof lat === "number" || typeof lng === "number") {
+    issues.push({
+      severity: "error",
+      file,
+      path,
+      message: "lat and lng must be set together",
+    });
+  }
+}
+
+export function validateVenuePack(
+  pack: VenuePack,
+  options: DataValidationOptions = {}
+): DataIssue[] {
+  const opts: Required<DataValidationOptions> = {
+    now: options.now ?? new Date(),
+    staleAfterMonths: options.staleAfterMonths ?? DEFAULT_STALE_AFTER_MONTHS,
+  };
+  const { manifest } = pack;
+  const dir = `src/data/${manifest.id}`;
+  const manifestFile = `${dir}/manifest.json`;
+  const indexFile = `${dir}/index.json`;
+  const knowledgeBaseFile = `${dir}/knowledge-base.ts`;
+  const cacheFile = `${dir}/cache.json`;
+  const packFile = `${dir}/pack.ts`;
+  const synonymsFile = `${dir}/synonyms.json`;
+  const navigationFile = `${dir}/navigation.json`;
+  const scheduleFile = `${dir}/schedule.json`;
+  const issues: DataIssue[] = [];
+
+  const manifestValid = checkSchema(
+    issues,
+    VenueManifestSchema,
+    manifest,
+    manifestFile
+  );
+  const indexValid = checkSchema(
+    issues,
+    KnowledgeIndexFileSchema,
+    pack.knowledgeIndex,
+    indexFile
+  );
+  const knowledgeBaseValid =
+    !pack.knowledgeBase ||
+    checkSchema(
+      issues,
+      ChangiJewelKnowledgeSchema,
+      pack.knowledgeBase,
+      knowledgeBaseFile
+    );
+  pack.pointsOfInterest.forEach((poi, index) =>
+    checkSchema(issues, PlaceOfInterestSchema, poi, packFile, [
+      "pointsOfInterest",
+      index,
+    ])
+  );
+  const cacheValid =
+    !pack.answerCache ||
+    checkSchema(issues, AnswerCacheFileSchema, pack.answerCache, cacheFile);
+
+  const synonymsValid =
+    !pack.synonyms ||
+    checkSchema(issues, SynonymTableSchema, pack.synonyms, synonymsFile);
+
+  const scheduleValid =
+    !pack.schedule ||
+    checkSchema(issues, VenueScheduleSchema, pack.schedule, scheduleFile);
+
+  const navigationValid =
+    !pack.navigation ||
+    checkSchema(issues, NavigationGraphSchema, pack.navigation, navigationFile);
+
+  // Cross-reference checks assume well-formed data; schema errors come first.
+  if (
+    !manifestValid ||
+    !indexValid ||
+    !knowledgeBaseValid ||
+    !cacheValid ||
+    !synonymsValid ||
+    !scheduleValid ||
+    !navigationValid
+  ) {
+    return issues;
+  }
+
+  const knowledgeIds = new Map<string, string>();
+  pack.knowledgeIndex.entries.forEach((entry, index) => {
+    const path = `entries[${index}]`;
+    if (knowledgeIds.has(entry.id)) {
+      issues.push({
+        severity: "error",
+        file: indexFile,
+        path: `${path}.id`,
+        message: `duplicate id "${entry.id}" (first seen at ${knowledgeIds.get(entry.id)})`,
+      });
+    } else {
+      knowledgeIds.set(entry.id, path);
+    }
+
+    checkCoordinates(
+      issues,
+      entry.location,
+      manifest.boundingBox,
+      manifest.name,
+      indexFile,
+      `${path}.location`
+    );
+
+    checkStale(issues, entry.lastVerified, indexFile, `${path}.lastVerified`, opts);
+  });
+
+  if (pack.knowledgeBase) {
+    const compiled = compileKnowledgeBase(pack.knowledgeBase, {
+      venueName: manifest.name,
+    });
+    for (const entry of compiled) {
+      if (knowledgeIds.has(entry.id)) {
+        issues.push({
+          severity: "error",
+          file: knowledgeBaseFile,
+          path: entry.name,
+          message: `compiles to duplicate id "${entry.id}" (also at ${knowledgeIds.get(entry.id)})`,
+        });
+      } else {
+        knowledgeIds.set(entry.id, entry.name);
+      }
+    }
+
+    const { overview, ...sections } = pack.knowledgeBase;
+    checkStale(
+      issues,
+      overview.lastVerified,
+      knowledgeBaseFile,
+      "overview.lastVerified",
+      opts
+    );
+    for (const [section, value] of Object.entries(sections)) {
+      if (!Array.isArray(value)) {
+        continue;
+      }
+      value.forEach((block, index) => {
+        if (typeof block === "object" && block && "lastVerified" in block) {
+          checkStale(
+            issues,
+            block.lastVerified,
+            knowledgeBaseFile,
+            `${section}[${index}].lastVerified`,
+            opts
+          );
+        }
+      });
+    }
+  }
+
+  const poiIds = new Set<string>();
+  const navigationNodeIds = new Set(pack.navigation?.nodes.map((node) => node.id));
+  const scheduleItemIds = new Set(pack.schedule?.items.map((item) => item.id));
+  pack.pointsOfInterest.forEach((poi, index) => {
+    const path = `pointsOfInterest[${index}]`;
+    if (poiIds.has(poi.id)) {
+      issues.push({
+        severity: "error",
+        file: packFile,
+        path: `${path}.id`,
+        message: `duplicate POI id "${poi.id}"`,
+      });
+    }
+    poiIds.add(poi.id);
+
+    if (!parseSuggestedDuration(poi.suggestedDuration)) {
+      issues.push({
+        severity: "warning",
+        file: packFile,
+        path: `${path}.suggestedDuration`,
+        message: `"${poi.suggestedDuration}" has no minutes or hours, so itineraries leave "${poi.id}" out`,
+      });
+    }
+    if (poi.navigationNodeId && !navigationNodeIds.has(poi.navigationNodeId)) {
+      issues.push({
+        severity: "error",
+        file: packFile,
+        path: `${path}.navigationNodeId`,
+        message: `unknown navigation node "${poi.navigationNodeId}"`,
+      });
+    }
+    poi.scheduleItemIds?.forEach((itemId, itemIndex) => {
+      if (!scheduleItemIds.has(itemId)) {
+        issues.push({
+          severity: "error",
+          file: packFile,
+          path: `${path}.scheduleItemIds[${itemIndex}]`,
+          message: `unknown schedule item "${itemId}"`,
+        });
+      }
+    });
+  });
+
+  manifest.poiCatalog.forEach((poiId, index) => {
+    if (!poiIds.has(poiId)) {
+      issues.push({
+        severity: "error",
+        file: manifestFile,
+        path: `poiCatalog[${index}]`,
+        message: `POI "${poiId}" is not published by the pack`,
+      });
+    }
+  });
+
+  if (!getPersona(manifest.defaultPersona)) {
+    issues.push({
+      severity: "error",
+      file: manifestFile,
+      path: "defaultPersona",
+      message: `persona "${manifest.defaultPersona}" is not in the persona registry`,
+    });
+  }
+
+  if (pack.synonyms) {
+    const aliasOwners = new Map<string, string>();
+    pack.synonyms.groups.forEach((group, groupIndex) => {
+      group.aliases.forEach((alias, aliasIndex) => {
+        const key = tokenize(alias).join(" ");
+        const path = `groups[${groupIndex}].aliases[${aliasIndex}]`;
+        if (!key) {
+          issues.push({
+            severity: "warning",
+            file: synonymsFile,
+            path,
+            message: `alias "${alias}" is only stopwords and never matches`,
+          });
+          return;
+        }
+        const owner = aliasOwners.get(key);
+        if (owner) {
+          issues.push({
+            severity: "warning",
+            file: synonymsFile,
+            path,
+            message: `alias "${alias}" is also listed at ${owner}`,
+          });
+        } else {
+          aliasOwners.set(key, path);
+        }
+      });
+      group.entryIds?.forEach((entryId, entryIndex) => {
+        if (!knowledgeIds.has(entryId)) {
+          issues.push({
+            severity: "error",
+            file: synonymsFile,
+            path: `groups[${groupIndex}].entryIds[${entryIndex}]`,
+            message: `unknown knowledge id "${entryId}"`,
+          });
+        }
+      });
+    });
+  }
+
+  if (pack.schedule) {
+    const itemIds = new Set<string>();
+    pack.schedule.items.forEach((item, index) => {
+      const path = `items[${index}]`;
+      if (itemIds.has(item.id)) {
+        issues.push({
+          severity: "error",
+          file: scheduleFile,
+          path: `${path}.id`,
+          message: `duplicate schedule item "${item.id}"`,
+        });
+      }
+      itemIds.add(item.id);
+
+      if (item.knowledgeId && !knowledgeIds.has(item.knowledgeId)) {
+        issues.push({
+          severity: "error",
+          file: scheduleFile,
+          path: `${path}.knowledgeId`,
+          message: `unknown knowledge id "${item.knowledgeId}"`,
+        });
+      }
+      if (!item.hours?.length && !item.shows?.length) {
+        issues.push({
+          severity: "error",
+          file: scheduleFile,
+          path,
+          message: `"${item.id}" has neither hours nor shows`,
+        });
+      }
+    });
+
+    pack.schedule.exceptions.forEach((exception, index) => {
+      const path = `exceptions[${index}]`;
+      if (!itemIds.has(exception.itemId)) {
+        issues.push({
+          severity: "error",
+          file: scheduleFile,
+          path: `${path}.itemId`,
+          message: `unknown schedule item "${exception.itemId}"`,
+        });
+      }
+      if (exception.closed && (exception.hours || exception.shows)) {
+        issues.push({
+          severity: "warning",
+          file: scheduleFile,
+          path,
+          message: "closed exceptions ignore hours and shows",
+        });
+      }
+    });
+
+    checkStale(
+      issues,
+      pack.schedule.meta.lastVerified,
+      scheduleFile,
+      "meta.lastVerified",
+      opts
+    );
+  }
+
+  if (pack.navigation) {
+    const { nodes, edges } = pack.navigation;
+    const nodeIds = new Set<string>();
+    nodes.forEach((node, index) => {
+      const path = `nodes[${index}]`;
+      if (nodeIds.has(node.id)) {
+        issues.push({
+          severity: "error",
+          file: navigationFile,
+          path: `${path}.id`,
+          message: `duplicate node id "${node.id}"`,
+        });
+      }
+      nodeIds.add(node.id);
+
+      if (node.knowledgeId && !knowledgeIds.has(node.knowledgeId)) {
+        issues.push({
+          severity: "error",
+          file: navigationFile,
+          path: `${path}.knowledgeId`,
+          message: `unknown knowledge id "${node.knowledgeId}"`,
+        });
+      }
+      if (node.suggestedDuration && !parseSuggestedDuration(node.suggestedDuration)) {
+        issues.push({
+          severity: "warning",
+          file: navigationFile,
+          path: `${path}.suggestedDuration`,
+          message: `"${node.suggestedDuration}" has no minutes or hours, so itineraries leave "${node.id}" out`,
+        });
+      }
+      checkCoordinates(
+        issues,
+        node,
+        manifest.boundingBox,
+        manifest.name,
+        navigationFile,
+        path
+      );
+    });
+
+    const neighbours = new Map<string, string[]>(
+      Array.from(nodeIds, (id) => [id, []])
+    );
+    edges.forEach((edge, index) => {
+      const path = `edges[${index}]`;
+      for (const end of ["from", "to"] as const) {
+        if (!nodeIds.has(edge[end])) {
+          issues.push({
+            severity: "error",
+            file: navigationFile,
+            path: `${path}.${end}`,
+            message: `unknown node "${edge[end]}"`,
+          });
+        }
+      }
+      if (edge.from === edge.to) {
+        issues.push({
+          severity: "error",
+          file: navigationFile,
+          path,
+          message: `edge loops back to "${edge.from}"`,
+        });
+      }
+      neighbours.get(edge.from)?.push(edge.to);
+      neighbours.get(edge.to)?.push(edge.from);
+    });
+
+    // Every node should be reachable from the first one, ignoring direction.
+    const reached = new Set<string>();
+    const queue = nodes.length ? [nodes[0].id] : [];
+    while (queue.length) {
+      const id = queue.pop()!;
+      if (reached.has(id)) {
+        continue;
+      }
+      reached.add(id);
+      queue.push(...(neighbours.get(id) ?? []));
+    }
+    nodes.forEach((node, index) => {
+      if (!reached.has(node.id)) {
+        issues.push({
+          severity: "warning",
+          file: navigationFile,
+          path: `nodes[${index}]`,
+          message: `"${node.id}" is not connected to "${nodes[0].id}", so no route reaches it`,
+        });
+      }
+    });
+  }
+
+  if (pack.answerCache) {
+    const { meta, cachedResponses } = pack.answerCache;
+    if (meta.knowledgeVersion && meta.knowledgeVersion !== pack.knowledgeIndex.meta.version) {
+      issues.push({
+        severity: "warning",
+        file: cacheFile,
+        path: "meta.knowledgeVersion",
+        message: `seeds target knowledge ${meta.knowledgeVersion} but ${indexFile} is ${pack.knowledgeIndex.meta.version}, so they will never be served`,
+      });
+    }
+
+    cachedResponses.forEach((entry, index) => {
+      entry.knowledgeReferences.forEach((reference, refIndex) => {
+        if (!knowledgeIds.has(reference)) {
+          issues.push({
+            severity: "error",
+            file: cacheFile,
+            path: `cachedResponses[${index}].knowledgeReferences[${refIndex}]`,
+            message: `unknown knowledge id "${reference}"`,
+          });
+        }
+      });
+    });
+  }
+
+  return issues;
+}
+
+/** Validates every pack plus cross-venue invariants such as unique venue and POI ids. */
+export function validateVenuePacks(
+  packs: VenuePack[],
+  options: DataValidationOptions = {}
+): DataIssue[] {
+  const issues: DataIssue[] = [];
+  const venueIds = new Set<string>();
+  const poiOwners = new Map<string, string>();
+
+  for (const pack of packs) {
+    const { id } = pack.manifest;
+    if (venueIds.has(id)) {
+      issues.push({
+        severity: "error",
+        file: `src/data/${id}/manifest.json`,
+        path: "id",
+        message: `duplicate venue id "${id}"`,
+      });
+    }
+    venueIds.add(id);
+
+    for (const poi of pack.pointsOfInterest) {
+      const owner = poiOwners.get(poi.id);
+      if (owner && owner !== id) {
+        issues.push({
+          severity: "error",
+          file: `src/data/${id}/pack.ts`,
+          path: "pointsOfInterest",
+          message: `POI id "${poi.id}" is also published by venue "${owner}"`,
+        });
+      }
+      poiOwners.set(poi.id, id);
+    }
+
+    issues.push(...validateVenuePack(pack, options));
+  }
+
+  return issues;
+}
+
+/**
+ * Throws `VenueDataError` when the pack has errors; warnings are only summarised so
+ * stale dates do not block a deploy.
+ */
+export function assertValidVenuePack(pack: VenuePack): VenuePack {
+  const issues = validateVenuePack(pack);
+  const errors = issues.filter((issue) => issue.severity === "error");
+  if (errors.length) {
+    throw new VenueDataError(pack.manifest.id, errors);
+  }
+
+  const warnings = issues.length - errors.length;
+  if (warnings) {
+    console.warn("[VenueData] pack loaded with warnings", {
+      venueId: pack.manifest.id,
+      warnings,
+      hint: "run `yarn validate:data` for details",
+    });
+  }
+  return pack;
+}
+
+let venuePacksValidated = false;
+
+/**
+ * Validates every registered pack once per process. Server entry points and scripts
+ * call this; client pages never import this module, so zod stays out of the browser.
+ */
+export function assertValidVenuePacks(): void {
+  if (venuePacksValidated) {
+    return;
+  }
+  listVenuePacks().forEach(assertValidVenuePack);
+  venuePacksValidated = true;
+}
@@ -0,0 +1,383 @@
+/**
+ * Scores TourGuideAgent answers against a golden set of traveller questions, so prompt
+ * and pipeline changes can be compared run to run. Each case lists the knowledge
+ * entries a good answer should draw on and the facts it must state. Every answer is
+ * scored on:
+ *   - retrieval recall: share of expected entries among the answer's references
+ *   - fact coverage: share of required facts present (case-insensitive)
+ *   - word-count compliance: within the prompt's "under about 60 words" rule
+ *   - hallucinated numbers: figures in the answer found in no referenced entry,
+ *     citation evidence, venue schedule or the question itself
+ *
+ * Runs go through the mock provider, through each case's agent recording (`recorded`)
+ * or live against OpenAI. Offline runs are hermetic: the agent reads an empty
+ * conversation history, and any model call that reaches the shared provider instead
+ * of the run's own is refused and reported on the case. Reports hold no timestamps
+ * and keep case order, so two reports can be diffed directly.
+ *
+ * Example:
+ *   const suite = await loadEvalSuite("fixtures/eval/changi-jewel.json");
+ *   const report = await runEvaluation(suite, { provider: "mock" });
+ *   console.log(report.summary);
+ */
+import { Agent, AgentOutputType } from "@openai/agents";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { dirname, resolve } from "path";
+
+import { loadAgentRecording } from "./agent-recordings";
+import { ConversationHistoryStore } from "./conversation-history";
+import {
+  LlmAgent,
+  LlmAgentOptions,
+  LlmAgentRunResult,
+  LlmProvider,
+  LlmTextResult,
+  ReplayProvider,
+  createLlmProvider,
+  setLlmProvider,
+} from "./llm";
+import { AgentQuery, AgentResponse, TourGuideAgent } from "./tour-agent";
+import { getKnowledgeEntries } from "./tools/knowledge-tool";
+import { getVenuePack } from "./venues";
+
+export type EvalProviderName = "mock" | "recorded" | "openai";
+
+export type EvalCase = {
+  id: string;
+  question: string;
+  expectedKnowledgeIds?: string[];
+  /** Phrases a good answer must contain, matched case-insensitively. */
+  requiredFacts?: string[];
+  placeName?: string;
+  accessibilityNotes?: string;
+  locationHint?: AgentQuery["locationHint"];
+  /** Agent recording to replay for this case, relative to the suite file. */
+  recording?: string;
+};
+
+export type EvalSuite = {
+  name: string;
+  venueId: string;
+  /** Defaults to the system prompt's 60-word cap. */
+  maxWords?: number;
+  cases: EvalCase[];
+  /** Set by `loadEvalSuite`; recordings resolve against it. */
+  baseDir?: string;
+};
+
+export type EvalCaseResult = {
+  id: string;
+  question: string;
+  skipped?: string;
+  answer?: string;
+  knowledgeReferences?: string[];
+  usedWebSearch?: boolean;
+  retrievalRecall?: number;
+  missingKnowledgeIds?: string[];
+  factCoverage?: number;
+  missingFacts?: string[];
+  wordCount?: number;
+  withinWordLimit?: boolean;
+  hallucinatedNumbers?: string[];
+  /** Offline runs only: model calls that went to the shared provider, e.g. "chat". */
+  sharedProviderCalls?: string[];
+};
+
+export type EvalSummary = {
+  cases: number;
+  scored: number;
+  skipped: number;
+  retrievalRecall: number;
+  factCoverage: number;
+  wordLimitCompliance: number;
+  casesWithHallucinatedNumbers: number;
+  casesUsingSharedProvider: number;
+};
+
+export type EvalReport = {
+  suite: string;
+  venueId: string;
+  provider: EvalProviderName;
+  maxWords: number;
+  summary: EvalSummary;
+  cases: EvalCaseResult[];
+};
+
+const DEFAULT_MAX_WORDS = 60;
+
+// Plain numbers, decimals, thousands and clock times: 40, 3.5, 500,000, 19:30.
+const NUMBER_PATTERN = /\d+(?:[.,:]\d+)*/g;
+
+/** Stands in for the shared provider during offline runs and refuses every call. */
+class SharedProviderGuard implements LlmProvider {
+  readonly name = "eval-guard";
+  calls: string[] = [];
+
+  constructor(private provider: EvalProviderName) {}
+
+  private refuse(call: string): never {
+    this.calls.push(call);
+    throw new Error(
+      `A ${this.provider} evaluation reached the shared model provider (${call}).`
+    );
+  }
+
+  async chat(): Promise<LlmTextResult> {
+    return this.refuse("chat");
+  }
+
+  async respond(): Promise<LlmTextResult> {
+    return this.refuse("respond");
+  }
+
+  createAgent<TContext, TOutput extends AgentOutputType>(
+    options: LlmAgentOptions<TContext, TOutput>
+  ): LlmAgent<TContext, TOutput> {
+    // Building an agent is harmless; running it is what would bypass the eval.
+    return new Agent<TContext, TOutput>(options);
+  }
+
+  async runAgent<TContext, TOutput extends AgentOutputType>(
+    agent: LlmAgent<TContext, TOutput>
+  ): Promise<LlmAgentRunResult<TOutput>> {
+    return this.refuse(`agent "${agent.name}"`);
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function average(values: number[]): number {
+  return values.length
+    ? round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : 0;
+}
+
+function normaliseText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ");
+}
+
+function extractNumbers(text: string): string[] {
+  return (text.match(NUMBER_PATTERN) ?? []).map((value) =>
+    value.replace(/,(?=\d{3}\b)/g, "").replace(/[.,:]$/, "")
+  );
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+async function collectEvidence(
+  evalCase: EvalCase,
+  response: AgentResponse,
+  venueId: string
+): Promise<string> {
+  const entries = await getKnowledgeEntries(
+    response.knowledgeReferences,
+    venueId
+  );
+  return [
+    evalCase.question,
+    ...entries.map((entry) => JSON.stringify(entry)),
+    ...(response.citationSources ?? []).map((source) => source.evidence),
+    JSON.stringify(getVenuePack(venueId)?.schedule ?? {}),
+  ].join("\n");
+}
+
+export async function scoreAnswer(
+  evalCase: EvalCase,
+  response: AgentResponse,
+  opts: { venueId: string; maxWords?: number }
+): Promise<EvalCaseResult> {
+  const answer = response.answer;
+  const expected = evalCase.expectedKnowledgeIds ?? [];
+  const facts = evalCase.requiredFacts ?? [];
+  const references = new Set(response.knowledgeReferences);
+  const missingKnowledgeIds = expected.filter((id) => !references.has(id));
+  const normalisedAnswer = normaliseText(answer);
+  const missingFacts = facts.filter(
+    (fact) => !normalisedAnswer.includes(normaliseText(fact))
+  );
+
+  const evidenceNumbers = new Set(
+    extractNumbers(await collectEvidence(evalCase, response, opts.venueId))
+  );
+  const hallucinatedNumbers = Array.from(
+    new Set(extractNumbers(answer).filter((value) => !evidenceNumbers.has(value)))
+  );
+  const wordCount = countWords(answer);
+
+  return {
+    id: evalCase.id,
+    question: evalCase.question,
+    answer,
+    knowledgeReferences: response.knowledgeReferences,
+    usedWebSearch: response.usedWebSearch,
+    retrievalRecall: expected.length
+      ? round((expected.length - missingKnowledgeIds.length) / expected.length)
+      : 1,
+    missingKnowledgeIds,
+    factCoverage: facts.length
+      ? round((facts.length - missingFacts.length) / facts.length)
+      : 1,
+    missingFacts,
+    wordCount,
+    withinWordLimit: wordCount <= (opts.maxWords ?? DEFAULT_MAX_WORDS),
+    hallucinatedNumbers,
+  };
+}
+
+function summarise(results: EvalCaseResult[]): EvalSummary {
+  const scored = results.filter((result) => !result.skipped);
+  return {
+    cases: results.length,
+    scored: scored.length,
+    skipped: results.length - scored.length,
+    retrievalRecall: average(scored.map((result) => result.retrievalRecall ?? 0)),
+    factCoverage: average(scored.map((result) => result.factCoverage ?? 0)),
+    wordLimitCompliance: average(
+      scored.map((result) => (result.withinWordLimit ? 1 : 0))
+    ),
+    casesWithHallucinatedNumbers: scored.filter(
+      (result) => result.hallucinatedNumbers?.length
+    ).length,
+    casesUsingSharedProvider: results.filter(
+      (result) => result.sharedProviderCalls?.length
+    ).length,
+  };
+}
+
+export async function loadEvalSuite(filePath: string): Promise<EvalSuite> {
+  const raw = await fs.readFile(filePath, "utf-8");
+  const suite = JSON.parse(raw) as EvalSuite;
+  if (!suite?.venueId || !Array.isArray(suite.cases)) {
+    throw new Error(`${filePath} is not an evaluation suite.`);
+  }
+  return { ...suite, baseDir: dirname(resolve(filePath)) };
+}
+
+export async function runEvaluation(
+  suite: EvalSuite,
+  opts: { provider: EvalProviderName }
+): Promise<EvalReport> {
+  const maxWords = suite.maxWords ?? DEFAULT_MAX_WORDS;
+  const guard =
+    opts.provider === "openai" ? null : new SharedProviderGuard(opts.provider);
+  // A path nothing writes to, so answers never depend on the dev server's history.
+  const historyStore = new ConversationHistoryStore({
+    filePath: resolve(
+      tmpdir(),
+      `eval-${randomUUID()}`,
+      "conversation-history.json"
+    ),
+  });
+  // Eval runs must not read or seed the answer cache, or log gaps.
+  const liveAgent =
+    opts.provider === "recorded"
+      ? null
+      : new TourGuideAgent({
+          provider: createLlmProvider(opts.provider),
+          record: false,
+          readOnly: true,
+          historyStore,
+        });
+
+  if (guard) {
+    setLlmProvider(guard);
+  }
+  try {
+    return await runCases(suite, {
+      ...opts,
+      liveAgent,
+      guard,
+      historyStore,
+      maxWords,
+    });
+  } finally {
+    if (guard) {
+      setLlmProvider(null);
+    }
+  }
+}
+
+async function runCases(
+  suite: EvalSuite,
+  opts: {
+    provider: EvalProviderName;
+    liveAgent: TourGuideAgent | null;
+    guard: SharedProviderGuard | null;
+    historyStore: ConversationHistoryStore;
+    maxWords: number;
+  }
+): Promise<EvalReport> {
+  const { liveAgent, guard, historyStore, maxWords } = opts;
+
+  const results: EvalCaseResult[] = [];
+  for (const evalCase of suite.cases) {
+    let agent = liveAgent;
+    let query: AgentQuery = {
+      query: evalCase.question,
+      venueId: suite.venueId,
+      placeName: evalCase.placeName,
+      accessibilityNotes: evalCase.accessibilityNotes,
+      locationHint: evalCase.locationHint,
+      // A fresh session per case keeps earlier answers out of the context.
+      sessionId: `eval-${evalCase.id}`,
+    };
+
+    if (!agent) {
+      if (!evalCase.recording) {
+        results.push({
+          id: evalCase.id,
+          question: evalCase.question,
+          skipped: "no recording",
+        });
+        continue;
+      }
+      const recording = await loadAgentRecording(
+        resolve(suite.baseDir ?? process.cwd(), evalCase.recording)
+      );
+      const provider: LlmProvider = new ReplayProvider(recording);
+      agent = new TourGuideAgent({
+        provider,
+        record: false,
+        readOnly: true,
+        historyStore,
+      });
+      query = { ...recording.query };
+    }
+
+    guard?.calls.splice(0);
+    let result: EvalCaseResult;
+    try {
+      const response = await agent.respond(query);
+      result = await scoreAnswer(evalCase, response, {
+        venueId: suite.venueId,
+        maxWords,
+      });
+    } catch (error) {
+      console.warn("[Evaluation] case failed", { id: evalCase.id, error });
+      result = {
+        id: evalCase.id,
+        question: evalCase.question,
+        skipped: error instanceof Error ? error.message : "failed",
+      };
+    }
+    if (guard?.calls.length) {
+      result.sharedProviderCalls = [...guard.calls];
+    }
+    results.push(result);
+  }
+
+  return {
+    suite: suite.name,
+    venueId: suite.venueId,
+    provider: opts.provider,
+    maxWords,
+    summary: summarise(results),
+    cases: results,
+  };
+}
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyFactCheck, checkFigures, extractFigures } from "./fact-check";
+import { personaFigureNote, resolvePersona } from "./personas";
+
+const note = (figures: string[]) => `Unconfirmed: ${figures.join(", ")}.`;
+
+describe("extractFigures", () => {
+  it("normalises times to the 24-hour clock", () => {
+    assert.deepEqual(
+      extractFigures("Shows at 7.30pm, 8 p.m. and 21:00, doors 12am.").map(
+        (figure) => [figure.kind, figure.value]
+      ),
+      [
+        ["time", "19:30"],
+        ["time", "20:00"],
+        ["time", "21:00"],
+        ["time", "00:00"],
+      ]
+    );
+  });
+
+  it("normalises prices and measures to bare numbers", () => {
+    assert.deepEqual(
+      extractFigures("Entry is S$8.50 or SGD 1,200 for groups; the 40-metre fall.").map(
+        (figure) => [figure.kind, figure.value]
+      ),
+      [
+        ["price", "8.5"],
+        ["price", "1200"],
+        ["measure", "40"],
+      ]
+    );
+  });
+
+  it("skips single-digit bare numbers", () => {
+    assert.deepEqual(extractFigures("Take the lift to Level 1, 2 stops."), []);
+  });
+});
+
+describe("checkFigures", () => {
+  it("matches figures written differently in the evidence", () => {
+    const check = checkFigures("The show starts at 7pm and costs $8.", [
+      "Light show daily at 19:00. Tickets S$8.",
+    ]);
+    assert.deepEqual(check.unsupported, []);
+  });
+
+  it("reports figures missing from the evidence", () => {
+    const check = checkFigures("Canopy Park opens at 10am and costs $35.", [
+      "Canopy Park opens at 10:00. Tickets S$8.",
+    ]);
+    assert.deepEqual(
+      check.unsupported.map((figure) => figure.text),
+      ["$35"]
+    );
+  });
+});
+
+describe("applyFactCheck", () => {
+  const answer = "Canopy Park is on Level 5. Tickets cost $35. Enjoy the view!";
+  const check = checkFigures(answer, ["Canopy Park is on Level 5. Tickets S$8."]);
+
+  it("strips later sentences with unsupported figures", () => {
+    const outcome = applyFactCheck(answer, check, { usedWebSearch: false, note });
+    assert.equal(outcome.action, "stripped");
+    assert.equal(outcome.answer, "Canopy Park is on Level 5. Enjoy the view!");
+  });
+
+  it("notes instead of stripping when the opening sentence is unsupported", () => {
+    const outcome = applyFactCheck(
+      "Tickets cost $35. Canopy Park is on Level 5.",
+      check,
+      { usedWebSearch: false, note }
+    );
+    assert.equal(outcome.action, "noted");
+    assert.equal(
+      outcome.answer,
+      "Tickets cost $35. Canopy Park is on Level 5. Unconfirmed: $35."
+    );
+  });
+
+  it("notes instead of stripping when web search may have sourced the figure", () => {
+    const outcome = applyFactCheck(answer, check, { usedWebSearch: true, note });
+    assert.equal(outcome.action, "noted");
+    assert.ok(outcome.answer.startsWith(answer));
+  });
+
+  it("words the note in the persona's voice", () => {
+    const outcome = applyFactCheck("Tickets cost $35.", check, {
+      usedWebSearch: true,
+      note: (figures) => personaFigureNote(resolvePersona("sir-raffles"), figures),
+    });
+    assert.equal(
+      outcome.answer,
+      "Tickets cost $35. I confess I could not confirm $35 in my notes; pray verify it on site."
+    );
+  });
+});
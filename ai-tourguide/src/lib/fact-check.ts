@@ -0,0 +1,190 @@
+/**
+ * Checks the figures in an agent answer (times, prices, heights and other measures,
+ * multi-digit numbers) against the evidence the run actually saw: the traveller's
+ * question, the knowledge entries and quick facts in the run trace, schedule, route and
+ * nearby tool output, and web citation evidence. Figures are compared by value, so
+ * "7pm" matches "19:00", "S$8" matches "$8" and "40 m" matches "40-metre".
+ *
+ * Single-digit bare numbers ("Level 1", "2 stops") are not checked; neither are numbers
+ * written as words.
+ *
+ * Example:
+ *   const check = checkFigures("Tickets cost $12 and the show starts at 8pm.", evidence);
+ *   const { answer } = applyFactCheck(answer, check, {
+ *     usedWebSearch: false,
+ *     note: (figures) => personaFigureNote(persona, figures),
+ *   });
+ */
+import { splitSentences } from "./citations";
+
+export type FigureKind = "time" | "price" | "measure" | "number";
+
+export type Figure = {
+  /** As written in the text, e.g. "7.30pm" or "S$12". */
+  text: string;
+  kind: FigureKind;
+  /** Normalised for comparison: "19:30" for times, "12" for prices and measures. */
+  value: string;
+};
+
+export type FactCheckResult = {
+  figures: Figure[];
+  unsupported: Figure[];
+};
+
+export type FactCheckAction = "stripped" | "noted";
+
+export type FactCheckOutcome = {
+  answer: string;
+  /** How unsupported figures were handled; absent when there were none. */
+  action?: FactCheckAction;
+  unsupported: string[];
+};
+
+const MEASURE_UNITS = [
+  "m",
+  "metres?",
+  "meters?",
+  "km",
+  "kilometres?",
+  "ft",
+  "feet",
+  "storeys?",
+  "stories",
+  "floors?",
+  "levels",
+  "minutes?",
+  "mins?",
+  "hours?",
+  "hrs?",
+  "seconds?",
+  "secs?",
+  "%",
+  "percent",
+  "sq ?m",
+  "square metres?",
+  "hectares?",
+  "litres?",
+  "liters?",
+  "tonnes?",
+  "species",
+  "plants",
+  "trees",
+  "shops",
+  "stores",
+  "seats",
+  "people",
+  "visitors",
+].join("|");
+
+const FIGURE_PATTERNS: Array<[FigureKind, RegExp]> = [
+  ["price", /(?:S\$|SGD\s?|US\$|\$)\s?(\d[\d,]*(?:\.\d{1,2})?)/gi],
+  ["time", /\b(\d{1,2})(?:[:.](\d{2}))?\s?(am|pm|a\.m\.|p\.m\.)(?![a-z])/gi],
+  ["time", /\b([01]?\d|2[0-3]):([0-5]\d)\b/g],
+  [
+    "measure",
+    new RegExp(
+      String.raw`\b(\d[\d,]*(?:\.\d+)?)\s?-?\s?(?:${MEASURE_UNITS})(?![a-z])`,
+      "gi"
+    ),
+  ],
+  ["number", /\b(\d[\d,]*(?:\.\d+)?)\b/g],
+];
+
+function normaliseNumber(raw: string): string {
+  const value = Number(raw.replace(/,/g, ""));
+  return Number.isFinite(value) ? String(value) : raw;
+}
+
+function normaliseTime(hours: string, minutes = "00", meridiem?: string): string {
+  let hour = Number(hours) % 24;
+  const suffix = meridiem?.toLowerCase().replace(/\./g, "");
+  if (suffix === "pm" && hour < 12) {
+    hour += 12;
+  } else if (suffix === "am" && hour === 12) {
+    hour = 0;
+  }
+  return `${String(hour).padStart(2, "0")}:${minutes}`;
+}
+
+export function extractFigures(text: string): Figure[] {
+  const figures: Array<Figure & { start: number; end: number }> = [];
+  const overlaps = (start: number, end: number) =>
+    figures.some((figure) => start < figure.end && figure.start < end);
+
+  for (const [kind, pattern] of FIGURE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (overlaps(start, end)) {
+        continue;
+      }
+      const value =
+        kind === "time"
+          ? normaliseTime(match[1], match[2], match[3])
+          : normaliseNumber(match[1]);
+      if (kind === "number" && Number(value) < 10) {
+        continue;
+      }
+      figures.push({ text: match[0].trim(), kind, value, start, end });
+    }
+  }
+
+  return figures
+    .sort((a, b) => a.start - b.start)
+    .map(({ text: figureText, kind, value }) => ({ text: figureText, kind, value }));
+}
+
+/** Every figure in `answer` whose value appears nowhere in `evidence`. */
+export function checkFigures(answer: string, evidence: string[]): FactCheckResult {
+  const figures = extractFigures(answer);
+  if (!figures.length) {
+    return { figures, unsupported: [] };
+  }
+  const known = new Set(
+    evidence.flatMap((text) => extractFigures(text).map((figure) => figure.value))
+  );
+  return {
+    figures,
+    unsupported: figures.filter((figure) => !known.has(figure.value)),
+  };
+}
+
+/**
+ * Removes later sentences that carry unsupported figures. When the opening sentence
+ * (the direct answer) carries one, or the figures may come from web pages we cannot
+ * see, the answer is kept and an uncertainty note is appended instead.
+ */
+export function applyFactCheck(
+  answer: string,
+  check: FactCheckResult,
+  opts: {
+    usedWebSearch: boolean;
+    /** Builds the uncertainty note, in the guide's voice, from the unconfirmed figures. */
+    note: (figures: string[]) => string;
+  }
+): FactCheckOutcome {
+  if (!check.unsupported.length) {
+    return { answer, unsupported: [] };
+  }
+  const unsupported = Array.from(new Set(check.unsupported.map((figure) => figure.text)));
+  const unsupportedValues = new Set(check.unsupported.map((figure) => figure.value));
+  const sentences = splitSentences(answer).map((sentence) => sentence.text);
+  const flagged = sentences.map((sentence) =>
+    extractFigures(sentence).some((figure) => unsupportedValues.has(figure.value))
+  );
+
+  if (!opts.usedWebSearch && !flagged[0]) {
+    return {
+      answer: sentences.filter((_, index) => !flagged[index]).join(" "),
+      action: "stripped",
+      unsupported,
+    };
+  }
+
+  return {
+    answer: `${answer} ${opts.note(unsupported)}`,
+    action: "noted",
+    unsupported,
+  };
+}
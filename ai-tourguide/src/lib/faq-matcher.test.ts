@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FaqMatcher, isTimeSensitiveQuery } from "./faq-matcher";
+import { getDefaultVenuePack } from "./venues";
+
+const pack = getDefaultVenuePack();
+const matcher = new FaqMatcher(pack.knowledgeBase?.faqs ?? [], {
+  venueName: pack.manifest.name,
+  aliases: pack.manifest.aliases,
+});
+
+describe("FaqMatcher", () => {
+  it("answers rephrasings of a curated FAQ", () => {
+    const result = matcher.match("Can I check in for my flight here?");
+    assert.equal(result.match?.faq.question, "Can I check in for my flight at Jewel?");
+  });
+
+  it("does not answer a different question word with the FAQ's answer", () => {
+    const result = matcher.match("Who should I watch the Rain Vortex light show with?");
+    assert.equal(result.match, null);
+    assert.notEqual(
+      result.status.matchedQuestion,
+      "Where should I watch the Rain Vortex light show?"
+    );
+  });
+
+  it("sends time, duration and price questions to the agent", () => {
+    for (const query of [
+      "When is the Rain Vortex light show?",
+      "What time does the light show start?",
+      "How long should I spend here in transit?",
+      "How much is Canopy Park?",
+    ]) {
+      assert.ok(isTimeSensitiveQuery(query), query);
+      assert.equal(matcher.match(query).status.bypassed, "time-sensitive", query);
+    }
+    assert.ok(!isTimeSensitiveQuery("Where should I watch the Rain Vortex light show?"));
+  });
+});
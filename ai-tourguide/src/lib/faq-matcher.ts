@@ -0,0 +1,171 @@
+/**
+ * Answers near-duplicates of a venue's curated FAQs directly, skipping the agent run.
+ * Questions are compared with the answer cache's `querySimilarity` after dropping
+ * stopwords and the venue's own name (or "here"), so "Can I check in for my flight
+ * here?" still matches "Can I check in for my flight at Jewel?". Only FAQs asked with
+ * the same question word are candidates: "When is the light show?" never gets the
+ * answer to "Where should I watch the light show?".
+ *
+ * Questions about live or time-sensitive details ("open now", "tonight's show", "when
+ * is…", "what time…", "how long…", "how much…") always bypass the FAQ: the curated
+ * answer is general and the agent has schedule tools.
+ *
+ * Example:
+ *   const result = getFaqMatcher(pack).match("Can I check in for my flight here?");
+ *   if (result.match) reply(result.match.faq.answer);
+ */
+import type { FaqEntry } from "@/data/changi-jewel/types";
+
+import { normalizeCacheQuery, queryIntent, querySimilarity } from "./answer-cache";
+import { compileFaq } from "./knowledge-compiler";
+import type { KnowledgeEntry } from "./knowledge-index";
+import { tokenize } from "./tokenizer";
+import type { VenuePack } from "./venues";
+
+export type FaqMatch = {
+  faq: FaqEntry;
+  /** The compiled knowledge entry, for references and citations. */
+  entry: KnowledgeEntry;
+  confidence: number;
+};
+
+/** Reported in the conversation response `meta.faq`. */
+export type FaqMatchStatus = {
+  hit: boolean;
+  threshold: number;
+  confidence?: number;
+  matchedQuestion?: string;
+  knowledgeId?: string;
+  bypassed?: "time-sensitive";
+};
+
+export type FaqMatchResult = {
+  match: FaqMatch | null;
+  status: FaqMatchStatus;
+};
+
+type IndexedFaq = {
+  faq: FaqEntry;
+  entry: KnowledgeEntry;
+  normalized: string;
+  intent: string;
+};
+
+// Stricter than the answer cache: a wrong FAQ answer never reaches the agent to be fixed.
+const DEFAULT_FAQ_THRESHOLD = 0.85;
+
+const TIME_SENSITIVE_PATTERNS = [
+  /\b(right )?now\b/,
+  /\b(today|tonight|tomorrow|this (morning|afternoon|evening|week|weekend))\b/,
+  /\b(currently|current|at the moment|latest|live)\b/,
+  /\b(still open|open late|closing soon|closed today)\b/,
+  /\b(next|upcoming) (show|session|light show)\b/,
+  /\b(queue|wait(ing)? time|crowd(ed)?|busy|weather|delay(ed|s)?)\b/,
+  // Times, durations and prices change; the agent checks the schedule and sources.
+  /\b(when|what time|how long|how much)\b/,
+];
+
+export function isTimeSensitiveQuery(query: string): boolean {
+  const text = query.toLowerCase();
+  return TIME_SENSITIVE_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+function parseThreshold(value: string | undefined, fallback: number) {
+  const parsed = value ? Number.parseFloat(value) : Number.NaN;
+  return Number.isNaN(parsed) || parsed <= 0 || parsed > 1 ? fallback : parsed;
+}
+
+export class FaqMatcher {
+  private faqs: IndexedFaq[];
+  private venueTerms: Set<string>;
+  private threshold: number;
+
+  constructor(
+    faqs: FaqEntry[],
+    opts: { venueName: string; aliases?: string[]; threshold?: number }
+  ) {
+    // "here" stands for the venue in questions asked on site.
+    this.venueTerms = new Set([
+      "here",
+      ...[opts.venueName, ...(opts.aliases ?? [])].flatMap((name) =>
+        tokenize(name)
+      ),
+    ]);
+    this.threshold = parseThreshold(
+      process.env.FAQ_MATCH_THRESHOLD,
+      opts.threshold ?? DEFAULT_FAQ_THRESHOLD
+    );
+    this.faqs = faqs.map((faq) => {
+      const normalized = this.normalize(faq.question);
+      return {
+        faq,
+        entry: compileFaq(faq, { venueName: opts.venueName }),
+        normalized,
+        intent: queryIntent(normalized),
+      };
+    });
+  }
+
+  get size(): number {
+    return this.faqs.length;
+  }
+
+  private normalize(text: string): string {
+    return normalizeCacheQuery(text)
+      .split(" ")
+      .filter((token) => !this.venueTerms.has(token))
+      .join(" ");
+  }
+
+  match(query: string): FaqMatchResult {
+    const status: FaqMatchStatus = { hit: false, threshold: this.threshold };
+    if (isTimeSensitiveQuery(query)) {
+      return { match: null, status: { ...status, bypassed: "time-sensitive" } };
+    }
+
+    const normalized = this.normalize(query);
+    const intent = queryIntent(normalized);
+    let best: FaqMatch | null = null;
+    for (const candidate of this.faqs) {
+      if (candidate.intent !== intent) {
+        continue;
+      }
+      const confidence = querySimilarity(normalized, candidate.normalized);
+      if (confidence > (best?.confidence ?? 0)) {
+        best = { faq: candidate.faq, entry: candidate.entry, confidence };
+      }
+    }
+
+    if (!best) {
+      return { match: null, status };
+    }
+
+    const confidence = Math.round(best.confidence * 100) / 100;
+    const hit = best.confidence >= this.threshold;
+    return {
+      match: hit ? best : null,
+      status: {
+        ...status,
+        hit,
+        confidence,
+        matchedQuestion: best.faq.question,
+        knowledgeId: best.entry.id,
+      },
+    };
+  }
+}
+
+const MATCHERS = new Map<string, FaqMatcher>();
+
+export function getFaqMatcher(pack: VenuePack): FaqMatcher {
+  const venueId = pack.manifest.id;
+  let matcher = MATCHERS.get(venueId);
+  if (!matcher) {
+    matcher = new FaqMatcher(pack.knowledgeBase?.faqs ?? [], {
+      venueName: pack.manifest.name,
+      aliases: pack.manifest.aliases,
+    });
+    MATCHERS.set(venueId, matcher);
+  }
+  return matcher;
+}
@@ -0,0 +1,70 @@
+export type LocationHint = {
+  lat: number;
+  lng: number;
+  /** Floor the traveller is on, e.g. "Level 5", "L5" or "B2". */
+  level?: string;
+};
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Great-circle distance in metres between two lat/lng points. */
+export function haversineDistanceMeters(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Folds the ways floors are written ("Level 5", "L5", "5", "Basement 2", "B2") into
+ * one key so they can be compared.
+ */
+export function normaliseLevel(level?: string | null): string | undefined {
+  if (!level) {
+    return undefined;
+  }
+  const compact = level.toLowerCase().replace(/[\s_-]+/g, "");
+  const basement = compact.match(/^(?:basement|b)(\d+)$/);
+  if (basement) {
+    return `b${Number.parseInt(basement[1], 10)}`;
+  }
+  const floor = compact.match(/^(?:level|lvl|l)?(\d+)$/);
+  if (floor) {
+    return `l${Number.parseInt(floor[1], 10)}`;
+  }
+  return compact || undefined;
+}
+
+export function isSameLevel(a?: string | null, b?: string | null): boolean {
+  const left = normaliseLevel(a);
+  return Boolean(left) && left === normaliseLevel(b);
+}
+
+export function formatDistance(meters: number): string {
+  if (meters < 1000) {
+    return `${Math.max(5, Math.round(meters / 5) * 5)} m`;
+  }
+  return `${(meters / 1000).toFixed(1)} km`;
+}
+
+/** Floor as a signed number (B2 → -2, Level 5 → 5) for up/down comparisons. */
+export function levelNumber(level?: string | null): number | undefined {
+  const key = normaliseLevel(level);
+  const match = key?.match(/^([bl])(\d+)$/);
+  if (!match) {
+    return undefined;
+  }
+  const floor = Number.parseInt(match[2], 10);
+  return match[1] === "b" ? -floor : floor;
+}
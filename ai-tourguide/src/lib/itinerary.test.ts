@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ItineraryPlanner, parseSuggestedDuration } from "./itinerary";
+import { getDefaultVenuePack } from "./venues";
+
+const planner = new ItineraryPlanner(getDefaultVenuePack());
+// 7pm and 8am in Singapore.
+const EVENING = new Date("2025-03-05T11:00:00Z");
+const MORNING = new Date("2025-03-05T00:00:00Z");
+
+describe("parseSuggestedDuration", () => {
+  it("reads ranges, word numbers and mixed units", () => {
+    assert.deepEqual(parseSuggestedDuration("20–30 mesmerised minutes"), {
+      minMinutes: 20,
+      maxMinutes: 30,
+    });
+    assert.deepEqual(parseSuggestedDuration("2 to 3 unhurried hours"), {
+      minMinutes: 120,
+      maxMinutes: 180,
+    });
+    assert.deepEqual(parseSuggestedDuration("half an hour"), {
+      minMinutes: 30,
+      maxMinutes: 30,
+    });
+    assert.deepEqual(parseSuggestedDuration("1 h 30 min"), {
+      minMinutes: 90,
+      maxMinutes: 90,
+    });
+    assert.equal(parseSuggestedDuration("as long as you like"), null);
+  });
+});
+
+describe("ItineraryPlanner", () => {
+  it("fills two hours with several places, not the whole venue", () => {
+    const itinerary = planner.plan({ budgetMinutes: 120, pace: "express", at: EVENING });
+    const ids = itinerary.stops.map((stop) => stop.poi.id);
+
+    assert.ok(ids.length >= 3, ids.join(", "));
+    assert.ok(ids.includes("canopy_park_entrance"));
+    assert.ok(!ids.includes("changi-jewel-main"));
+    assert.ok(itinerary.usedMinutes <= 120);
+  });
+
+  it("describes map stops from their knowledge entry", () => {
+    const itinerary = planner.plan({ budgetMinutes: 120, pace: "express", at: EVENING });
+    const canopy = itinerary.stops.find((stop) => stop.poi.id === "canopy_park_entrance");
+
+    assert.equal(canopy?.poi.name, "Canopy Park");
+    assert.equal(canopy?.node?.level, "Level 5");
+    assert.deepEqual(canopy?.poi.scheduleItemIds, ["canopy_park"]);
+  });
+
+  it("keeps map stops to their linked opening hours", () => {
+    const itinerary = planner.plan({ budgetMinutes: 120, at: MORNING });
+    const canopy = itinerary.skipped.find(
+      (entry) => entry.poi.id === "canopy_park_entrance"
+    );
+
+    assert.equal(canopy?.reason, "closed until 10:00 am");
+    assert.ok(itinerary.stops.length >= 2);
+  });
+
+  it("stays longer at a leisurely pace", () => {
+    const visit = (pace: "leisurely" | "express") =>
+      planner
+        .plan({ budgetMinutes: 60, pace, at: EVENING })
+        .stops.find((stop) => stop.poi.id === "changi-jewel-rain-vortex")?.visitMinutes;
+
+    assert.equal(visit("express"), 20);
+    assert.equal(visit("leisurely"), 30);
+  });
+});
@@ -0,0 +1,505 @@
+/**
+ * Time-budgeted itineraries: "I have two hours, what should I do?". POI durations are
+ * free text ("20–30 mesmerised minutes"), so they are first parsed into minute ranges;
+ * the planner then picks and orders places to fit the budget. Places are the venue's
+ * published POIs, less any that cover the whole venue, plus navigation nodes with a
+ * `suggestedDuration` that no POI sits on; those are described from their knowledge
+ * entry and keep to the schedule items linked to the same entry.
+ *
+ * Each step takes the best-matching place for the traveller's interests that still
+ * fits, with walking time from the previous stop (from the navigation graph) and the
+ * place's opening hours at arrival (from the schedule). Visit lengths follow the
+ * traveller's pace: leisurely travellers get the top of a POI's range, express ones
+ * the bottom. Shows that start during a visit are noted on the stop.
+ *
+ * Example:
+ *   const planner = new ItineraryPlanner(pack);
+ *   const itinerary = planner.plan({ budgetMinutes: 120, interests: ["photography"] });
+ *   planner.describe(itinerary); // ["1. HSBC Rain Vortex: walk 3 min, stay 30 min (7:05–7:35 PM).", ...]
+ */
+import {
+  AccessibilityNeed,
+  isSuitableFor,
+  needsStepFree,
+  partsToSkip,
+} from "./accessibility";
+import { LocationHint } from "./geo";
+import { ScheduleCalendar } from "./schedules";
+import {
+  NormalizedUserPreferences,
+  PlaceOfInterest,
+} from "./storytelling";
+import { tokenize } from "./tokenizer";
+import { VenuePack, getPoiCatalog } from "./venues";
+import { NavigationNode, WayfindingGraph } from "./wayfinding";
+
+export type DurationRange = {
+  minMinutes: number;
+  maxMinutes: number;
+};
+
+export type ItineraryOptions = {
+  budgetMinutes: number;
+  interests?: string[];
+  pace?: NormalizedUserPreferences["preferredPace"];
+  /** Place to start from, e.g. "Terminal 1"; otherwise `location`, otherwise the first stop. */
+  start?: string;
+  location?: LocationHint;
+  accessibility?: AccessibilityNeed[];
+  at?: Date;
+};
+
+export type ItineraryStop = {
+  poi: PlaceOfInterest;
+  duration: DurationRange;
+  /** Map node the stop was walked to; absent when the POI is not on the map. */
+  node?: NavigationNode;
+  walkMinutes: number;
+  visitMinutes: number;
+  arriveAt: Date;
+  leaveAt: Date;
+  /** Traveller interests the place matched. */
+  matchedInterests: string[];
+  /** Shows during the visit, closing times and parts to skip. */
+  notes: string[];
+};
+
+export type Itinerary = {
+  startAt: Date;
+  budgetMinutes: number;
+  /** Where the first walk starts; absent when the plan starts at the first stop. */
+  start?: NavigationNode;
+  stops: ItineraryStop[];
+  /** Walking plus visits. */
+  usedMinutes: number;
+  skipped: Array<{ poi: PlaceOfInterest; reason: string }>;
+};
+
+type Candidate = {
+  poi: PlaceOfInterest;
+  duration: DurationRange;
+  node?: NavigationNode;
+  matchedInterests: string[];
+};
+
+type Evaluation =
+  | { ok: true; stop: ItineraryStop }
+  | { ok: false; reason: string };
+
+const MINUTE_MS = 60_000;
+// Walking allowance between places the navigation graph does not cover.
+const UNMAPPED_WALK_MINUTES = 5;
+// Interest words match POI words that share this many leading letters, so
+// "photography" finds "photo spots" and "novel" finds "novelty".
+const STEM_LENGTH = 5;
+
+const WORD_NUMBERS: Record<string, number> = {
+  "half an": 0.5,
+  "half a": 0.5,
+  an: 1,
+  a: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+};
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?|half an?|an?|one|two|three|four|five|six)`;
+const DURATION_PATTERN = new RegExp(
+  String.raw`\b${NUMBER}(?!\s+(?:few|couple)\b)(?:\s*(?:–|—|-|to)\s*${NUMBER})?\+?(?:\s+[a-z]+){0,2}?[\s-]*(hours?|hrs?|h|minutes?|mins?)\b(?:\s*(?:and\s+)?(\d+)\s*(?:minutes?|mins?)\b)?`,
+  "i"
+);
+
+function parseNumber(value: string): number {
+  const word = WORD_NUMBERS[value.toLowerCase()];
+  return word ?? Number(value);
+}
+
+/**
+ * Minute range of a free-text duration such as "20–30 mesmerised minutes", "2 to 3
+ * unhurried hours", "half an hour" or "1 h 30 min"; null when none is found.
+ */
+export function parseSuggestedDuration(text: string): DurationRange | null {
+  const match = DURATION_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, from, to, unit, extraMinutes] = match;
+  const perUnit = unit.toLowerCase().startsWith("h") ? 60 : 1;
+  const extra = !to && extraMinutes ? Number(extraMinutes) : 0;
+  const low = Math.round(parseNumber(from) * perUnit) + extra;
+  const high = to ? Math.round(parseNumber(to) * perUnit) : low;
+  if (!Number.isFinite(low) || !Number.isFinite(high) || !low || !high) {
+    return null;
+  }
+  return { minMinutes: Math.min(low, high), maxMinutes: Math.max(low, high) };
+}
+
+function stemsMatch(a: string, b: string): boolean {
+  return (
+    a === b ||
+    (a.length >= STEM_LENGTH &&
+      b.length >= STEM_LENGTH &&
+      a.slice(0, STEM_LENGTH) === b.slice(0, STEM_LENGTH))
+  );
+}
+
+function matchInterests(poi: PlaceOfInterest, interests: string[]): string[] {
+  const poiTokens = tokenize(
+    [
+      poi.name,
+      poi.summary,
+      ...poi.highlights,
+      ...poi.sensoryDetails,
+      ...(poi.insiderTips ?? []),
+    ].join(" ")
+  );
+  return interests.filter((interest) =>
+    tokenize(interest).some((token) =>
+      poiTokens.some((poiToken) => stemsMatch(token, poiToken))
+    )
+  );
+}
+
+// More matched interests first, then the shorter walk, then the shorter visit so
+// more places fit.
+function compareStops(a: ItineraryStop, b: ItineraryStop): number {
+  return (
+    b.matchedInterests.length - a.matchedInterests.length ||
+    a.walkMinutes - b.walkMinutes ||
+    a.duration.minMinutes - b.duration.minMinutes
+  );
+}
+
+function targetMinutes(
+  duration: DurationRange,
+  pace: NormalizedUserPreferences["preferredPace"]
+): number {
+  if (pace === "leisurely") {
+    return duration.maxMinutes;
+  }
+  if (pace === "express") {
+    return duration.minMinutes;
+  }
+  return Math.round((duration.minMinutes + duration.maxMinutes) / 2);
+}
+
+export class ItineraryPlanner {
+  private pack: VenuePack;
+  private graph: WayfindingGraph | null;
+  private calendar: ScheduleCalendar | null;
+
+  constructor(pack: VenuePack) {
+    this.pack = pack;
+    this.graph = pack.navigation ? new WayfindingGraph(pack.navigation) : null;
+    this.calendar = pack.schedule ? new ScheduleCalendar(pack.schedule) : null;
+  }
+
+  plan(opts: ItineraryOptions): Itinerary {
+    const startAt = opts.at ?? new Date();
+    const interests = opts.interests ?? [];
+    const pace = opts.pace ?? "leisurely";
+    const needs = opts.accessibility ?? [];
+    const skipped: Itinerary["skipped"] = [];
+
+    const candidates: Candidate[] = [];
+    for (const poi of this.places()) {
+      const duration = parseSuggestedDuration(poi.suggestedDuration);
+      if (!duration) {
+        skipped.push({ poi, reason: "no usable suggested duration" });
+      } else if (!isSuitableFor(poi.accessibility, needs)) {
+        skipped.push({ poi, reason: "not suitable for the traveller's needs" });
+      } else {
+        candidates.push({
+          poi,
+          duration,
+          node: poi.navigationNodeId
+            ? this.graph?.getNode(poi.navigationNodeId)
+            : undefined,
+          matchedInterests: matchInterests(poi, interests),
+        });
+      }
+    }
+
+    const start = this.resolveStart(opts);
+    const stops: ItineraryStop[] = [];
+    let elapsed = 0;
+    let current = start;
+    let remaining = candidates;
+    const reasons = new Map<string, string>();
+
+    while (remaining.length) {
+      let best: { candidate: Candidate; stop: ItineraryStop } | undefined;
+      for (const candidate of remaining) {
+        const evaluation = this.evaluate(candidate, {
+          from: current,
+          isFirst: !stops.length,
+          elapsed,
+          startAt,
+          budgetMinutes: opts.budgetMinutes,
+          pace,
+          needs,
+        });
+        if (!evaluation.ok) {
+          reasons.set(candidate.poi.id, evaluation.reason);
+          continue;
+        }
+        if (!best || compareStops(evaluation.stop, best.stop) < 0) {
+          best = { candidate, stop: evaluation.stop };
+        }
+      }
+      if (!best) {
+        break;
+      }
+
+      const chosen = best;
+      stops.push(chosen.stop);
+      elapsed += chosen.stop.walkMinutes + chosen.stop.visitMinutes;
+      current = chosen.stop.node ?? current;
+      remaining = remaining.filter((candidate) => candidate !== chosen.candidate);
+    }
+
+    for (const candidate of remaining) {
+      skipped.push({
+        poi: candidate.poi,
+        reason: reasons.get(candidate.poi.id) ?? "does not fit the time left",
+      });
+    }
+
+    console.info("[Itinerary] planned", {
+      venueId: this.pack.manifest.id,
+      budgetMinutes: opts.budgetMinutes,
+      start: start?.id,
+      stops: stops.map((stop) => stop.poi.id),
+      usedMinutes: elapsed,
+      skipped: skipped.map((entry) => entry.poi.id),
+    });
+
+    return {
+      startAt,
+      budgetMinutes: opts.budgetMinutes,
+      start,
+      stops,
+      usedMinutes: elapsed,
+      skipped,
+    };
+  }
+
+  /** One line per stop plus the time left over and anything left out. */
+  describe(itinerary: Itinerary): string[] {
+    if (!itinerary.stops.length) {
+      return [
+        `Nothing fits in ${itinerary.budgetMinutes} minutes.`,
+        ...itinerary.skipped.map(
+          (entry) => `${entry.poi.name}: ${entry.reason}.`
+        ),
+      ];
+    }
+
+    let from = itinerary.start?.name;
+    const lines = itinerary.stops.map((stop, index) => {
+      const walk = stop.walkMinutes
+        ? `walk ${stop.walkMinutes} min${from ? ` from ${from}` : ""}, then `
+        : "";
+      from = stop.node?.name ?? stop.poi.name;
+      const times = `${this.formatTime(stop.arriveAt)}–${this.formatTime(
+        stop.leaveAt
+      )}`;
+      return [
+        `${index + 1}. ${stop.poi.name}: ${walk}stay ${stop.visitMinutes} min (${times}).`,
+        ...stop.notes,
+      ].join(" ");
+    });
+
+    const spare = itinerary.budgetMinutes - itinerary.usedMinutes;
+    return [
+      ...lines,
+      `Total: ${itinerary.usedMinutes} of ${itinerary.budgetMinutes} min${
+        spare > 0 ? `, ${spare} min to spare` : ""
+      }.`,
+      ...itinerary.skipped.map(
+        (entry) => `Left out ${entry.poi.name}: ${entry.reason}.`
+      ),
+    ];
+  }
+
+  /** `7:30 PM` in the venue's time zone when it publishes a schedule. */
+  formatTime(value: Date): string {
+    return this.calendar
+      ? this.calendar.formatTime(value)
+      : value.toLocaleTimeString("en-SG", { hour: "numeric", minute: "2-digit" });
+  }
+
+  /** Catalog POIs that are single places, then map nodes worth a stop of their own. */
+  private places(): PlaceOfInterest[] {
+    // A POI whose only schedule is the venue's own hours is the whole venue, not a stop.
+    const pois = getPoiCatalog(this.pack).filter(
+      (poi) =>
+        !poi.scheduleItemIds?.length ||
+        poi.scheduleItemIds.some(
+          (itemId) =>
+            this.calendar?.items.find((item) => item.id === itemId)?.kind !== "venue"
+        )
+    );
+    const covered = new Set(
+      this.pack.pointsOfInterest.map((poi) => poi.navigationNodeId)
+    );
+    const entries = new Map(
+      this.pack.knowledgeIndex.entries.map((entry) => [entry.id, entry])
+    );
+
+    const nodePlaces = (this.pack.navigation?.nodes ?? [])
+      .filter((node) => node.suggestedDuration && !covered.has(node.id))
+      .map((node): PlaceOfInterest => {
+        const entry = node.knowledgeId ? entries.get(node.knowledgeId) : undefined;
+        return {
+          id: node.id,
+          name: entry?.name ?? node.name,
+          summary: entry?.summary ?? node.name,
+          highlights: [],
+          sensoryDetails: [],
+          suggestedDuration: node.suggestedDuration ?? "",
+          accessibility: entry?.accessibility,
+          navigationNodeId: node.id,
+          scheduleItemIds: (this.calendar?.items ?? [])
+            .filter((item) => node.knowledgeId && item.knowledgeId === node.knowledgeId)
+            .map((item) => item.id),
+        };
+      });
+
+    return [...pois, ...nodePlaces];
+  }
+
+  private resolveStart(opts: ItineraryOptions): NavigationNode | undefined {
+    if (!this.graph) {
+      return undefined;
+    }
+    if (opts.start) {
+      return this.graph.findNode(opts.start);
+    }
+    return opts.location ? this.graph.nearestNode(opts.location)?.node : undefined;
+  }
+
+  private walkMinutes(
+    from: NavigationNode | undefined,
+    to: NavigationNode | undefined,
+    isFirst: boolean,
+    needs: AccessibilityNeed[]
+  ): number | null {
+    if (isFirst && !from) {
+      return 0;
+    }
+    if (!from || !to || !this.graph) {
+      return UNMAPPED_WALK_MINUTES;
+    }
+    if (from.id === to.id) {
+      return 0;
+    }
+    const route = this.graph.route(from.id, to.id, {
+      stepFree: needsStepFree(needs),
+      avoidCrowds: needs.includes("avoid-crowds"),
+    });
+    return route ? Math.ceil(route.totalSeconds / 60) : null;
+  }
+
+  private evaluate(
+    candidate: Candidate,
+    state: {
+      from?: NavigationNode;
+      isFirst: boolean;
+      elapsed: number;
+      startAt: Date;
+      budgetMinutes: number;
+      pace: NormalizedUserPreferences["preferredPace"];
+      needs: AccessibilityNeed[];
+    }
+  ): Evaluation {
+    const { poi, duration, node } = candidate;
+    const walkMinutes = this.walkMinutes(
+      state.from,
+      node,
+      state.isFirst,
+      state.needs
+    );
+    if (walkMinutes === null) {
+      return {
+        ok: false,
+        reason: needsStepFree(state.needs)
+          ? "no mapped step-free route"
+          : "no mapped walking route",
+      };
+    }
+
+    const arriveAfter = state.elapsed + walkMinutes;
+    const arriveAt = new Date(state.startAt.getTime() + arriveAfter * MINUTE_MS);
+    let available = state.budgetMinutes - arriveAfter;
+    const notes: string[] = [];
+
+    for (const itemId of poi.scheduleItemIds ?? []) {
+      const status = this.calendar?.status(itemId, arriveAt);
+      if (!status || status.alwaysOpen) {
+        continue;
+      }
+      if (!status.open) {
+        return {
+          ok: false,
+          reason: status.opensAt
+            ? `closed until ${this.calendar?.formatWhen(status.opensAt, arriveAt)}`
+            : "closed",
+        };
+      }
+      if (status.lastEntryAt && status.lastEntryAt <= arriveAt) {
+        return { ok: false, reason: "last entry will have passed" };
+      }
+      if (status.closesAt) {
+        const untilClose = Math.floor(
+          (status.closesAt.getTime() - arriveAt.getTime()) / MINUTE_MS
+        );
+        if (untilClose < available) {
+          available = untilClose;
+          notes.push(`${status.item.name} closes at ${this.formatTime(status.closesAt)}.`);
+        }
+      }
+    }
+
+    if (available < duration.minMinutes) {
+      return { ok: false, reason: "does not fit the time left" };
+    }
+
+    const visitMinutes = Math.min(targetMinutes(duration, state.pace), available);
+    const leaveAt = new Date(arriveAt.getTime() + visitMinutes * MINUTE_MS);
+
+    for (const itemId of poi.scheduleItemIds ?? []) {
+      const shows =
+        this.calendar
+          ?.nextShows({ itemId, at: arriveAt, withinMinutes: visitMinutes })
+          .filter((show) => show.startsAt >= arriveAt) ?? [];
+      if (shows.length) {
+        notes.push(
+          `Catch the ${shows[0].item.name} at ${this.formatTime(shows[0].startsAt)}.`
+        );
+      }
+    }
+    const skipParts = partsToSkip(poi.accessibility, state.needs);
+    if (skipParts.length) {
+      notes.push(`Skip ${skipParts.join(" and ")}.`);
+    }
+
+    return {
+      ok: true,
+      stop: {
+        poi,
+        duration,
+        node,
+        walkMinutes,
+        visitMinutes,
+        arriveAt,
+        leaveAt,
+        matchedInterests: candidate.matchedInterests,
+        notes,
+      },
+    };
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Flattens a venue's long-form knowledge base (shaped like `ChangiJewelKnowledge`) into
+ * `KnowledgeEntry` records so the agent can search history, sustainability, awards,
+ * FAQs and trivia alongside the curated `index.json` entries.
+ *
+ * Ids are derived from the section and title (never from array position) so they stay
+ * stable when blocks are reordered, e.g. `kb_history_vision_announcement_2013`.
+ */
+import type {
+  ChangiJewelKnowledge,
+  FaqEntry,
+  KnowledgeBlock,
+  QuickFact,
+} from "@/data/changi-jewel/types";
+
+import type { KnowledgeEntry, KnowledgeSource } from "./knowledge-index";
+
+type BlockSection = {
+  [K in keyof ChangiJewelKnowledge]: ChangiJewelKnowledge[K] extends KnowledgeBlock[]
+    ? K
+    : never;
+}[keyof ChangiJewelKnowledge];
+
+const BLOCK_SECTIONS: BlockSection[] = [
+  "history",
+  "developmentPartnership",
+  "architectureAndEngineering",
+  "natureAndBiophilia",
+  "attractionsAndExperiences",
+  "canopyParkHighlights",
+  "artAndInstallations",
+  "shoppingAndDining",
+  "hospitalityAndServices",
+  "operationsAndLogistics",
+  "visitorPlanning",
+  "sustainabilityAndInnovation",
+  "awardsAndRecognition",
+  "futureOutlook",
+];
+
+const ID_PREFIX = "kb";
+const MAX_SLUG_WORDS = 8;
+
+type CompileOptions = {
+  venueName: string;
+};
+
+function slugify(value: string, maxWords = MAX_SLUG_WORDS): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9\s]+/g, " ")
+    .trim()
+    .split(/\s+/)
+    .slice(0, maxWords)
+    .join("_");
+}
+
+function sectionSlug(section: string): string {
+  return section.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+}
+
+function sectionLabel(section: string): string {
+  return section
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(/\band\b/g, "&");
+}
+
+function buildBlockSources(
+  block: KnowledgeBlock,
+  section: string,
+  opts: CompileOptions
+): KnowledgeSource[] {
+  const sources: KnowledgeSource[] = [
+    {
+      type: "curated",
+      note: `${opts.venueName} knowledge base (${sectionLabel(section)})`,
+    },
+  ];
+
+  for (const link of block.relatedLinks ?? []) {
+    sources.push({ type: "link", url: link });
+  }
+
+  return sources;
+}
+
+function uniqueTags(tags: Array<string | undefined>): string[] {
+  return Array.from(
+    new Set(
+      tags
+        .filter((tag): tag is string => Boolean(tag?.trim()))
+        .map((tag) => tag.trim().toLowerCase())
+    )
+  );
+}
+
+function compileBlock(
+  block: KnowledgeBlock,
+  section: string,
+  opts: CompileOptions
+): KnowledgeEntry {
+  return {
+    id: `${ID_PREFIX}_${sectionSlug(section)}_${slugify(block.title)}`,
+    name: block.title,
+    summary: block.summary,
+    details: block.bullets?.join(" ") ?? block.summary,
+    tags: uniqueTags([sectionLabel(section), ...(block.tags ?? [])]),
+    sources: buildBlockSources(block, section, opts),
+    lastVerified: block.lastVerified,
+  };
+}
+
+function compileQuickFact(
+  fact: QuickFact,
+  opts: CompileOptions
+): KnowledgeEntry {
+  return {
+    id: `${ID_PREFIX}_quick_fact_${slugify(fact.label)}`,
+    name: fact.label,
+    summary: fact.value,
+    details: fact.notes ? `${fact.value} ${fact.notes}` : fact.value,
+    tags: uniqueTags(["quick facts", fact.category]),
+    sources: [{ type: "curated", note: `${opts.venueName} quick facts` }],
+  };
+}
+
+/** Also used by the FAQ matcher so direct answers cite the same entry id. */
+export function compileFaq(faq: FaqEntry, opts: CompileOptions): KnowledgeEntry {
+  return {
+    id: `${ID_PREFIX}_faq_${slugify(faq.question)}`,
+    name: faq.question,
+    summary: faq.answer,
+    details: faq.answer,
+    tags: uniqueTags([
+      "faq",
+      ...(faq.relatedTopics ?? []).map((topic) => sectionLabel(topic)),
+    ]),
+    sources: [{ type: "curated", note: `${opts.venueName} FAQ` }],
+  };
+}
+
+function compileTrivia(fact: string, opts: CompileOptions): KnowledgeEntry {
+  const firstSentence = fact.split(/(?<=[.!?])\s/)[0] ?? fact;
+  return {
+    id: `${ID_PREFIX}_trivia_${slugify(fact)}`,
+    name: `${opts.venueName} trivia`,
+    summary: firstSentence,
+    details: fact,
+    tags: ["trivia", "fun facts"],
+    sources: [{ type: "curated", note: `${opts.venueName} trivia` }],
+  };
+}
+
+export function compileKnowledgeBase(
+  knowledge: ChangiJewelKnowledge,
+  opts: CompileOptions
+): KnowledgeEntry[] {
+  const entries: KnowledgeEntry[] = [
+    compileBlock(knowledge.overview, "overview", opts),
+  ];
+
+  for (const fact of knowledge.quickFacts) {
+    entries.push(compileQuickFact(fact, opts));
+  }
+
+  for (const section of BLOCK_SECTIONS) {
+    for (const block of knowledge[section]) {
+      entries.push(compileBlock(block, section, opts));
+    }
+  }
+
+  for (const fact of knowledge.triviaAndFunFacts) {
+    entries.push(compileTrivia(fact, opts));
+  }
+
+  for (const faq of knowledge.faqs) {
+    entries.push(compileFaq(faq, opts));
+  }
+
+  if (knowledge.references.length) {
+    entries.push({
+      id: `${ID_PREFIX}_references`,
+      name: `${opts.venueName} reference sources`,
+      summary: `Publications and official pages the ${opts.venueName} knowledge base was compiled from.`,
+      details: knowledge.references.join("; "),
+      tags: ["references", "sources"],
+      sources: knowledge.references.map((reference) => ({
+        type: "reference",
+        note: reference,
+      })),
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,339 @@
+/**
+ * Persistent log of questions the curated knowledge could not answer well: lookups
+ * with no matches, matches below the confidence bar, and runs that fell back to web
+ * search. `report()` clusters similar questions so the content team can see which
+ * entries to write next, biggest gaps first.
+ *
+ * Clustering is greedy and lexical: each question joins the first cluster whose
+ * representative is similar enough (the same `querySimilarity` the answer cache
+ * uses), so "canopy park price" and "how much is canopy park" land together.
+ *
+ * Example:
+ *   const log = getKnowledgeGapLog("changi-jewel");
+ *   await log.record({ query: "Is there a prayer room?", reasons: ["no-match"], ... });
+ *   const { clusters } = await log.report({ sinceDays: 7 });
+ */
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import { dirname, resolve } from "path";
+
+import { normalizeCacheQuery, querySimilarity } from "./answer-cache";
+
+export type KnowledgeGapReason = "no-match" | "low-score" | "web-fallback";
+
+export type KnowledgeGapMatch = {
+  id: string;
+  score: number;
+};
+
+export type KnowledgeGapRecord = {
+  id: string;
+  query: string;
+  normalizedQuery: string;
+  reasons: KnowledgeGapReason[];
+  sessionId?: string;
+  placeName?: string;
+  /** Queries the agent actually sent to `lookup_local_knowledge`. */
+  lookupQueries: string[];
+  /** Best raw matches seen across lookups, including those below the threshold. */
+  topMatches: KnowledgeGapMatch[];
+  answer: string;
+  usedWebSearch: boolean;
+  knowledgeVersion?: string;
+  recordedAt: string;
+  resolvedAt?: string;
+  resolutionNote?: string;
+};
+
+export type KnowledgeGapLogFile = {
+  meta: {
+    version: string;
+    venueId: string;
+    lastUpdated?: string;
+  };
+  records: KnowledgeGapRecord[];
+};
+
+export type KnowledgeGapCluster = {
+  /** Id of the representative record, stable while it stays in the log. */
+  id: string;
+  label: string;
+  count: number;
+  sessions: number;
+  reasons: Partial<Record<KnowledgeGapReason, number>>;
+  /** Most frequent words across the cluster, a hint for the entry's name and tags. */
+  topTerms: string[];
+  /** Existing entries that came closest; expand these rather than adding new ones. */
+  nearestEntries: KnowledgeGapMatch[];
+  sampleQueries: string[];
+  latestAnswer: string;
+  recordIds: string[];
+  firstSeen: string;
+  lastSeen: string;
+};
+
+export type KnowledgeGapReport = {
+  venueId: string;
+  generatedAt: string;
+  totalRecords: number;
+  clusters: KnowledgeGapCluster[];
+};
+
+const DEFAULT_GAP_DIR = resolve(process.cwd(), "data/knowledge-gaps");
+const DEFAULT_MAX_RECORDS = 2000;
+// Looser than the FAQ matcher: grouping related questions, not reusing answers.
+const DEFAULT_CLUSTER_SIMILARITY = 0.5;
+const MAX_SAMPLE_QUERIES = 5;
+const MAX_TOP_TERMS = 5;
+const MAX_NEAREST_ENTRIES = 3;
+
+function parseNumber(value: string | undefined, fallback: number) {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number.parseFloat(value);
+  return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+function countTerms(records: KnowledgeGapRecord[]): string[] {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    for (const term of new Set(record.normalizedQuery.split(" "))) {
+      if (term) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_TOP_TERMS)
+    .map(([term]) => term);
+}
+
+function nearestEntries(records: KnowledgeGapRecord[]): KnowledgeGapMatch[] {
+  const best = new Map<string, number>();
+  for (const record of records) {
+    for (const match of record.topMatches) {
+      best.set(match.id, Math.max(best.get(match.id) ?? 0, match.score));
+    }
+  }
+  return Array.from(best.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_NEAREST_ENTRIES);
+}
+
+function summariseCluster(records: KnowledgeGapRecord[]): KnowledgeGapCluster {
+  // Records arrive oldest first; the representative is the first question asked.
+  const [first] = records;
+  const latest = records[records.length - 1];
+  const reasons: KnowledgeGapCluster["reasons"] = {};
+  for (const record of records) {
+    for (const reason of record.reasons) {
+      reasons[reason] = (reasons[reason] ?? 0) + 1;
+    }
+  }
+  const sampleQueries = Array.from(
+    new Set(records.map((record) => record.query.trim()))
+  ).slice(0, MAX_SAMPLE_QUERIES);
+
+  return {
+    id: first.id,
+    label: first.query.trim(),
+    count: records.length,
+    sessions: new Set(records.map((record) => record.sessionId ?? record.id))
+      .size,
+    reasons,
+    topTerms: countTerms(records),
+    nearestEntries: nearestEntries(records),
+    sampleQueries,
+    latestAnswer: latest.answer,
+    recordIds: records.map((record) => record.id),
+    firstSeen: first.recordedAt,
+    lastSeen: latest.recordedAt,
+  };
+}
+
+export class KnowledgeGapLog {
+  private venueId: string;
+  private filePath: string;
+  private maxRecords: number;
+  private clusterSimilarity: number;
+  private snapshot: KnowledgeGapLogFile | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(opts: {
+    venueId: string;
+    filePath?: string;
+    maxRecords?: number;
+    clusterSimilarity?: number;
+  }) {
+    this.venueId = opts.venueId;
+    this.filePath =
+      opts.filePath ??
+      resolve(
+        process.env.KNOWLEDGE_GAP_DIR ?? DEFAULT_GAP_DIR,
+        `${opts.venueId}.json`
+      );
+    this.maxRecords = parseNumber(
+      process.env.KNOWLEDGE_GAP_LIMIT,
+      opts.maxRecords ?? DEFAULT_MAX_RECORDS
+    );
+    this.clusterSimilarity = Math.min(
+      opts.clusterSimilarity ?? DEFAULT_CLUSTER_SIMILARITY,
+      1
+    );
+  }
+
+  async record(
+    entry: Omit<KnowledgeGapRecord, "id" | "normalizedQuery" | "recordedAt">
+  ): Promise<KnowledgeGapRecord> {
+    return this.serialize(async () => {
+      const file = await this.read();
+      const record: KnowledgeGapRecord = {
+        ...entry,
+        id: randomUUID(),
+        normalizedQuery: normalizeCacheQuery(entry.query),
+        recordedAt: new Date().toISOString(),
+      };
+
+      const records = [...file.records, record];
+      if (records.length > this.maxRecords) {
+        records.splice(0, records.length - this.maxRecords);
+      }
+      await this.write({
+        meta: { ...file.meta, lastUpdated: record.recordedAt },
+        records,
+      });
+      return record;
+    });
+  }
+
+  async list(
+    opts: { sinceDays?: number; includeResolved?: boolean } = {}
+  ): Promise<KnowledgeGapRecord[]> {
+    const file = await this.read();
+    const since = opts.sinceDays
+      ? Date.now() - opts.sinceDays * 24 * 60 * 60 * 1000
+      : 0;
+    return file.records.filter(
+      (record) =>
+        (opts.includeResolved || !record.resolvedAt) &&
+        Date.parse(record.recordedAt) >= since
+    );
+  }
+
+  /** Open gaps grouped by similar question, largest and most recent first. */
+  async report(
+    opts: { sinceDays?: number; includeResolved?: boolean } = {}
+  ): Promise<KnowledgeGapReport> {
+    const records = await this.list(opts);
+    const groups: Array<{ representative: string; records: KnowledgeGapRecord[] }> =
+      [];
+
+    for (const record of records) {
+      const group = groups.find(
+        (candidate) =>
+          querySimilarity(candidate.representative, record.normalizedQuery) >=
+          this.clusterSimilarity
+      );
+      if (group) {
+        group.records.push(record);
+      } else {
+        groups.push({
+          representative: record.normalizedQuery,
+          records: [record],
+        });
+      }
+    }
+
+    const clusters = groups
+      .map((group) => summariseCluster(group.records))
+      .sort(
+        (a, b) =>
+          b.count - a.count || Date.parse(b.lastSeen) - Date.parse(a.lastSeen)
+      );
+
+    return {
+      venueId: this.venueId,
+      generatedAt: new Date().toISOString(),
+      totalRecords: records.length,
+      clusters,
+    };
+  }
+
+  /** Marks records as handled, e.g. once an entry covering them is published. */
+  async resolve(ids: string[], note?: string): Promise<number> {
+    return this.serialize(async () => {
+      const file = await this.read();
+      const wanted = new Set(ids);
+      const resolvedAt = new Date().toISOString();
+      let resolved = 0;
+      const records = file.records.map((record) => {
+        if (!wanted.has(record.id) || record.resolvedAt) {
+          return record;
+        }
+        resolved++;
+        return { ...record, resolvedAt, resolutionNote: note };
+      });
+      if (resolved) {
+        await this.write({
+          meta: { ...file.meta, lastUpdated: resolvedAt },
+          records,
+        });
+      }
+      return resolved;
+    });
+  }
+
+  /**
+   * Runs read-modify-write changes one at a time so answers finishing together
+   * cannot each append to the same snapshot and drop the other's record.
+   */
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(change);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private async read(): Promise<KnowledgeGapLogFile> {
+    if (this.snapshot) {
+      return this.snapshot;
+    }
+    try {
+      const raw = await fs.readFile(this.filePath, "utf-8");
+      const parsed = JSON.parse(raw) as KnowledgeGapLogFile;
+      this.snapshot = {
+        meta: parsed?.meta ?? { version: "1", venueId: this.venueId },
+        records: Array.isArray(parsed?.records) ? parsed.records : [],
+      };
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+        console.warn("[KnowledgeGapLog] read log failed", { error });
+      }
+      this.snapshot = {
+        meta: { version: "1", venueId: this.venueId },
+        records: [],
+      };
+    }
+    return this.snapshot;
+  }
+
+  private async write(file: KnowledgeGapLogFile): Promise<void> {
+    this.snapshot = file;
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(file, null, 2), "utf-8");
+  }
+}
+
+const LOGS = new Map<string, KnowledgeGapLog>();
+
+/** One log per venue so the agent and the admin report share the same snapshot. */
+export function getKnowledgeGapLog(venueId: string): KnowledgeGapLog {
+  let log = LOGS.get(venueId);
+  if (!log) {
+    log = new KnowledgeGapLog({ venueId });
+    LOGS.set(venueId, log);
+  }
+  return log;
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getDefaultVenuePack } from "./venues";
+import { compileKnowledgeBase } from "./knowledge-compiler";
+import { KnowledgeSearchIndex } from "./knowledge-index";
+
+const pack = getDefaultVenuePack();
+const index = new KnowledgeSearchIndex(
+  [
+    ...pack.knowledgeIndex.entries,
+    ...(pack.knowledgeBase
+      ? compileKnowledgeBase(pack.knowledgeBase, { venueName: pack.manifest.name })
+      : []),
+  ],
+  { synonyms: pack.synonyms?.groups }
+);
+
+function topIds(query: string, limit = 3): string[] {
+  return index.search(query, limit).map((match) => match.id);
+}
+
+describe("KnowledgeSearchIndex ranking", () => {
+  it("ranks the Rain Vortex first for colloquial and misspelled names", () => {
+    for (const query of [
+      "the big water thing",
+      "where is the air terjun",
+      "rain vortx",
+      "indoor waterfall",
+    ]) {
+      assert.equal(topIds(query)[0], "rain_vortex", query);
+    }
+  });
+
+  it("ranks Canopy Park first for misspellings and aliases", () => {
+    for (const query of ["canopi park", "canopy park", "rooftop park", "sky nets"]) {
+      assert.equal(topIds(query)[0], "canopy_park", query);
+    }
+  });
+
+  it("sends Singlish food questions to the dining entries", () => {
+    for (const query of ["where to makan", "so hungry leh", "can tapau kopi?"]) {
+      assert.deepEqual(
+        topIds(query, 2).sort(),
+        ["dining_shiseido_forest_valley", "kb_shopping_and_dining_dining_highlights"],
+        query
+      );
+    }
+  });
+
+  it("keeps the light show FAQ in reach after the alias expands", () => {
+    assert.ok(
+      topIds("when is the light show", 5).includes(
+        "kb_faq_where_should_i_watch_the_rain_vortex_light"
+      )
+    );
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * In-memory inverted index over curated knowledge entries, ranked with BM25F.
+ *
+ * Each entry is split into weighted fields (name, tags, summary, details). Term
+ * frequencies are normalised per field by length, combined with the field boosts,
+ * then saturated with the usual BM25 `k1` curve and multiplied by the term's IDF.
+ * Matching is whole-token, so "art" no longer matches "departure".
+ *
+ * Queries are expanded first (venue synonyms, Singlish aliases and typo repair, see
+ * `QueryExpander`), so "makan" and "canopi park" still reach the right entries. Entries
+ * a matched synonym group names in `entryIds` are boosted above ones that only share
+ * its words.
+ *
+ * When the traveller's location is known, entries with coordinates close to them get
+ * a multiplicative boost (decaying with haversine distance) plus a same-level bonus.
+ *
+ * Example:
+ *   const index = new KnowledgeSearchIndex(entries);
+ *   const matches = index.search("rain vortex light show", 3);
+ *   const nearby = index.nearby({ lat: 1.3593, lng: 103.9893, level: "L1" });
+ */
+import type { AccessibilityInfo } from "./accessibility";
+import {
+  LocationHint,
+  haversineDistanceMeters,
+  isSameLevel,
+} from "./geo";
+import { QueryExpander, SynonymGroup } from "./query-expansion";
+import { tokenize } from "./tokenizer";
+
+export { tokenize } from "./tokenizer";
+
+export type KnowledgeSource = {
+  type: string;
+  note?: string;
+  url?: string;
+};
+
+export type KnowledgeEntry = {
+  id: string;
+  name: string;
+  summary: string;
+  details: string;
+  tags?: string[];
+  location?: {
+    lat?: number;
+    lng?: number;
+    level?: string;
+  };
+  sources?: KnowledgeSource[];
+  accessibility?: AccessibilityInfo;
+  lastVerified?: string;
+};
+
+export type KnowledgeIndexFile = {
+  meta: {
+    version: string;
+    scope?: string;
+    notes?: string;
+  };
+  entries: KnowledgeEntry[];
+};
+
+export type KnowledgeMatch = KnowledgeEntry & {
+  score: number;
+  highlights: string[];
+  distanceMeters?: number;
+};
+
+export type NearbyKnowledgeMatch = KnowledgeEntry & {
+  distanceMeters: number;
+  sameLevel: boolean;
+};
+
+type KnowledgeField = "name" | "tags" | "summary" | "details";
+
+type FieldConfig = {
+  boost: number;
+  b: number;
+};
+
+// Boosts keep a single strong name hit around the old 3-point scale so
+// `minimumScore` and `MIN_KNOWLEDGE_CONFIDENCE` remain meaningful.
+const FIELD_CONFIG: Record<KnowledgeField, FieldConfig> = {
+  name: { boost: 3, b: 0.5 },
+  tags: { boost: 2, b: 0.3 },
+  summary: { boost: 2, b: 0.75 },
+  details: { boost: 1, b: 0.75 },
+};
+
+const FIELDS = Object.keys(FIELD_CONFIG) as KnowledgeField[];
+
+const BM25_K1 = 1.2;
+
+// An entry named by a matched synonym group scores up to 1.5x.
+const ALIAS_TARGET_BOOST = 0.5;
+
+// An entry right next to the traveller scores up to 1.5x; the boost halves roughly
+// every 70 m. Being on the same level adds another 0.25x.
+const PROXIMITY_BOOST = 0.5;
+const PROXIMITY_DECAY_METERS = 100;
+const SAME_LEVEL_BOOST = 0.25;
+const DEFAULT_NEARBY_RADIUS_METERS = 500;
+// Rough walking cost of taking a lift or escalator to another level.
+const LEVEL_CHANGE_METERS = 40;
+
+type Posting = {
+  docIndex: number;
+  termFrequencies: Partial<Record<KnowledgeField, number>>;
+};
+
+type IndexedDocument = {
+  entry: KnowledgeEntry;
+  fieldLengths: Record<KnowledgeField, number>;
+};
+
+function fieldText(entry: KnowledgeEntry, field: KnowledgeField): string {
+  switch (field) {
+    case "name":
+      return entry.name;
+    case "tags":
+      return entry.tags?.join(" ") ?? "";
+    case "summary":
+      return entry.summary ?? "";
+    case "details":
+      return entry.details ?? "";
+  }
+}
+
+export class KnowledgeSearchIndex {
+  private documents: IndexedDocument[] = [];
+  private postings = new Map<string, Posting[]>();
+  private averageFieldLengths: Record<KnowledgeField, number>;
+  private expander: QueryExpander;
+
+  constructor(
+    entries: KnowledgeEntry[],
+    opts: { synonyms?: SynonymGroup[] } = {}
+  ) {
+    const nameAndTagTokens = new Set<string>();
+
+    const totals: Record<KnowledgeField, number> = {
+      name: 0,
+      tags: 0,
+      summary: 0,
+      details: 0,
+    };
+
+    entries.forEach((entry, docIndex) => {
+      const fieldLengths = { ...totals };
+      const docTerms = new Map<string, Posting>();
+
+      for (const field of FIELDS) {
+        const tokens = tokenize(fieldText(entry, field));
+        fieldLengths[field] = tokens.length;
+        totals[field] += tokens.length;
+        if (field === "name" || field === "tags") {
+          tokens.forEach((token) => nameAndTagTokens.add(token));
+        }
+
+        for (const token of tokens) {
+          let posting = docTerms.get(token);
+          if (!posting) {
+            posting = { docIndex, termFrequencies: {} };
+            docTerms.set(token, posting);
+          }
+          posting.termFrequencies[field] =
+            (posting.termFrequencies[field] ?? 0) + 1;
+        }
+      }
+
+      for (const [token, posting] of docTerms) {
+        const list = this.postings.get(token);
+        if (list) {
+          list.push(posting);
+        } else {
+          this.postings.set(token, [posting]);
+        }
+      }
+
+      this.documents.push({ entry, fieldLengths });
+    });
+
+    const count = Math.max(entries.length, 1);
+    this.averageFieldLengths = {
+      name: totals.name / count || 1,
+      tags: totals.tags / count || 1,
+      summary: totals.summary / count || 1,
+      details: totals.details / count || 1,
+    };
+
+    this.expander = new QueryExpander({
+      groups: opts.synonyms,
+      vocabulary: nameAndTagTokens,
+      knownTerms: new Set(this.postings.keys()),
+    });
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  getEntry(id: string): KnowledgeEntry | undefined {
+    return this.documents.find((doc) => doc.entry.id === id)?.entry;
+  }
+
+  private inverseDocumentFrequency(documentFrequency: number): number {
+    const n = this.documents.length;
+    return Math.log(
+      1 + (n - documentFrequency + 0.5) / (documentFrequency + 0.5)
+    );
+  }
+
+  private weightedTermFrequency(posting: Posting): number {
+    const { fieldLengths } = this.documents[posting.docIndex];
+    let weighted = 0;
+
+    for (const field of FIELDS) {
+      const tf = posting.termFrequencies[field];
+      if (!tf) {
+        continue;
+      }
+      const { boost, b } = FIELD_CONFIG[field];
+      const lengthRatio = fieldLengths[field] / this.averageFieldLengths[field];
+      weighted += (boost * tf) / (1 - b + b * lengthRatio);
+    }
+
+    return weighted;
+  }
+
+  /**
+   * Returns a score per document index for the given weighted query tokens.
+   * Repeated query tokens are counted once so verbose questions do not inflate scores.
+   */
+  private scoreTokens(queryTokens: Map<string, number>): Map<number, number> {
+    const scores = new Map<number, number>();
+
+    for (const [token, weight] of queryTokens) {
+      const postings = this.postings.get(token);
+      if (!postings?.length) {
+        continue;
+      }
+
+      const idf = this.inverseDocumentFrequency(postings.length);
+      for (const posting of postings) {
+        const tf = this.weightedTermFrequency(posting);
+        const termScore =
+          (weight * idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1);
+        scores.set(
+          posting.docIndex,
+          (scores.get(posting.docIndex) ?? 0) + termScore
+        );
+      }
+    }
+
+    return scores;
+  }
+
+  private locate(
+    entry: KnowledgeEntry,
+    near: LocationHint
+  ): { distanceMeters: number; sameLevel: boolean } | undefined {
+    const { lat, lng, level } = entry.location ?? {};
+    if (typeof lat !== "number" || typeof lng !== "number") {
+      return undefined;
+    }
+    return {
+      distanceMeters: haversineDistanceMeters(near, { lat, lng }),
+      sameLevel: isSameLevel(near.level, level),
+    };
+  }
+
+  search(
+    query: string,
+    limit = 3,
+    opts: { near?: LocationHint } = {}
+  ): KnowledgeMatch[] {
+    if (!query.trim()) {
+      return [];
+    }
+
+    const { tokens, targets } = this.expander.expand(query);
+    if (!tokens.size) {
+      return [];
+    }
+
+    const matches: KnowledgeMatch[] = [];
+    for (const [docIndex, rawScore] of this.scoreTokens(tokens)) {
+      const { entry } = this.documents[docIndex];
+      const highlights: string[] = [];
+      if (entry.summary) highlights.push(entry.summary);
+      if (entry.details) highlights.push(entry.details);
+
+      let score = rawScore * (1 + ALIAS_TARGET_BOOST * (targets.get(entry.id) ?? 0));
+      let distanceMeters: number | undefined;
+      const position = opts.near && this.locate(entry, opts.near);
+      if (position) {
+        distanceMeters = Math.round(position.distanceMeters);
+        score *=
+          1 +
+          PROXIMITY_BOOST *
+            Math.exp(-position.distanceMeters / PROXIMITY_DECAY_METERS) +
+          (position.sameLevel ? SAME_LEVEL_BOOST : 0);
+      }
+
+      matches.push({
+        ...entry,
+        score: Math.round(score * 100) / 100,
+        highlights,
+        distanceMeters,
+      });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return matches.slice(0, limit);
+  }
+
+  /**
+   * Entries with coordinates within `radiusMeters` of the traveller, closest first.
+   * Entries on another known level are ranked as if they were a short walk further.
+   */
+  nearby(
+    near: LocationHint,
+    opts: { limit?: number; radiusMeters?: number } = {}
+  ): NearbyKnowledgeMatch[] {
+    const { limit = 5, radiusMeters = DEFAULT_NEARBY_RADIUS_METERS } = opts;
+    const results: NearbyKnowledgeMatch[] = [];
+
+    for (const { entry } of this.documents) {
+      const position = this.locate(entry, near);
+      if (!position || position.distanceMeters > radiusMeters) {
+        continue;
+      }
+      results.push({
+        ...entry,
+        distanceMeters: Math.round(position.distanceMeters),
+        sameLevel: position.sameLevel,
+      });
+    }
+
+    const travelDistance = (match: NearbyKnowledgeMatch) =>
+      match.distanceMeters +
+      (near.level && match.location?.level && !match.sameLevel
+        ? LEVEL_CHANGE_METERS
+        : 0);
+    results.sort((a, b) => travelDistance(a) - travelDistance(b));
+    return results.slice(0, limit);
+  }
+}
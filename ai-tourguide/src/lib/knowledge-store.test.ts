@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import type { KnowledgeIndexFile } from "./knowledge-index";
+import { KnowledgeStore } from "./knowledge-store";
+
+const seed: KnowledgeIndexFile = {
+  meta: { version: "2025-03-01" },
+  entries: [
+    {
+      id: "rain_vortex",
+      name: "HSBC Rain Vortex",
+      summary: "40-meter indoor waterfall.",
+      details: "Light-and-sound shows run every evening.",
+    },
+    {
+      id: "canopy_park",
+      name: "Canopy Park",
+      summary: "Top-level play attractions.",
+      details: "Tickets are required for most play areas.",
+    },
+  ],
+};
+
+async function tempStorePath(): Promise<string> {
+  const dir = await fs.mkdtemp(join(tmpdir(), "knowledge-store-"));
+  return join(dir, "changi-jewel.json");
+}
+
+describe("KnowledgeStore", () => {
+  it("keeps every edit when saves run concurrently", async () => {
+    const filePath = await tempStorePath();
+    const store = new KnowledgeStore({ venueId: "changi-jewel", seed, filePath });
+
+    await Promise.all(
+      seed.entries.map((entry) =>
+        store.saveDraft({ ...entry, summary: `${entry.summary} Updated.` })
+      )
+    );
+
+    const reopened = new KnowledgeStore({ venueId: "changi-jewel", seed, filePath });
+    const { pendingChanges } = await reopened.list();
+    assert.equal(pendingChanges, 2);
+  });
+
+  it("raises instead of reseeding when the store file is unreadable", async () => {
+    const filePath = await tempStorePath();
+    await fs.writeFile(filePath, "{ not json", "utf-8");
+    const store = new KnowledgeStore({ venueId: "changi-jewel", seed, filePath });
+
+    await assert.rejects(store.list(), SyntaxError);
+    await assert.rejects(
+      store.saveDraft({ ...seed.entries[0], summary: "Overwritten" }),
+      SyntaxError
+    );
+    assert.equal(await fs.readFile(filePath, "utf-8"), "{ not json");
+  });
+});
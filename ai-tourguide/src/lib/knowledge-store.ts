@@ -0,0 +1,386 @@
+/**
+ * File-backed authoring store for a venue's curated knowledge entries (the pack's
+ * `index.json`). Edits land as drafts, every change is kept as a numbered revision,
+ * and `publish()` promotes all drafts at once and bumps `meta.version` so answer
+ * caches keyed on the old version stop serving.
+ *
+ * The store seeds itself from the pack on first write; until then the pack's
+ * `index.json` is the published state. Afterwards the store file is the source of
+ * truth; delete it to reseed from the pack. Entries compiled from the long-form
+ * knowledge base are not editable here.
+ *
+ * Example:
+ *   const store = getKnowledgeStore(pack);
+ *   await store.saveDraft({ ...entry, summary: "Updated" }, { author: "ops" });
+ *   await store.publish({ note: "Fix show times" });
+ */
+import { promises as fs } from "fs";
+import { dirname, resolve } from "path";
+
+import { KnowledgeEntrySchema } from "./data-schemas";
+import type { KnowledgeEntry, KnowledgeIndexFile } from "./knowledge-index";
+import type { VenuePack } from "./venues";
+
+export type KnowledgeRevision = {
+  revision: number;
+  /** `null` records a deletion. */
+  entry: KnowledgeEntry | null;
+  status: "draft" | "published";
+  savedAt: string;
+  author?: string;
+  note?: string;
+};
+
+export type StoredKnowledgeEntry = {
+  id: string;
+  published: KnowledgeEntry | null;
+  /** Pending change: an entry to publish, `null` to delete, absent when clean. */
+  draft?: KnowledgeEntry | null;
+  revisions: KnowledgeRevision[];
+};
+
+export type KnowledgeStoreFile = {
+  meta: KnowledgeIndexFile["meta"] & {
+    publishedAt?: string;
+  };
+  entries: StoredKnowledgeEntry[];
+};
+
+export type KnowledgeEntryState =
+  | "published"
+  | "draft"
+  | "modified"
+  | "pending-delete"
+  | "deleted";
+
+export type KnowledgeEntrySummary = {
+  id: string;
+  name: string;
+  state: KnowledgeEntryState;
+  revisionCount: number;
+  updatedAt?: string;
+};
+
+type ChangeOptions = {
+  author?: string;
+  note?: string;
+};
+
+export class KnowledgeStoreError extends Error {
+  code: "not_found" | "conflict" | "invalid";
+
+  constructor(code: KnowledgeStoreError["code"], message: string) {
+    super(message);
+    this.name = "KnowledgeStoreError";
+    this.code = code;
+  }
+}
+
+const DEFAULT_STORE_DIR = resolve(process.cwd(), "data/knowledge");
+
+function entryState(stored: StoredKnowledgeEntry): KnowledgeEntryState {
+  if (stored.draft === undefined) {
+    return stored.published ? "published" : "deleted";
+  }
+  if (stored.draft === null) {
+    return "pending-delete";
+  }
+  return stored.published ? "modified" : "draft";
+}
+
+function parseEntry(entry: unknown): KnowledgeEntry {
+  const result = KnowledgeEntrySchema.safeParse(entry);
+  if (!result.success) {
+    const details = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "entry"}: ${issue.message}`)
+      .join("; ");
+    throw new KnowledgeStoreError("invalid", details);
+  }
+  return result.data;
+}
+
+/**
+ * Date-based versions so they sort and read naturally; a second publish on the same
+ * day becomes `2025-03-01.2`.
+ */
+export function nextKnowledgeVersion(current: string, at = new Date()): string {
+  const today = at.toISOString().slice(0, 10);
+  const [base, counter] = current.split(".");
+  if (base !== today) {
+    return today;
+  }
+  return `${today}.${(Number.parseInt(counter ?? "1", 10) || 1) + 1}`;
+}
+
+export class KnowledgeStore {
+  private filePath: string;
+  private seed: KnowledgeIndexFile;
+  private snapshot: KnowledgeStoreFile | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(opts: {
+    venueId: string;
+    seed: KnowledgeIndexFile;
+    filePath?: string;
+  }) {
+    this.seed = opts.seed;
+    this.filePath =
+      opts.filePath ??
+      resolve(
+        process.env.KNOWLEDGE_STORE_DIR ?? DEFAULT_STORE_DIR,
+        `${opts.venueId}.json`
+      );
+  }
+
+  async list(): Promise<{
+    meta: KnowledgeStoreFile["meta"];
+    entries: KnowledgeEntrySummary[];
+    pendingChanges: number;
+  }> {
+    const file = await this.read();
+    const entries = file.entries.map((stored) => ({
+      id: stored.id,
+      name:
+        (stored.draft ?? stored.published)?.name ??
+        stored.revisions.findLast((revision) => revision.entry)?.entry?.name ??
+        stored.id,
+      state: entryState(stored),
+      revisionCount: stored.revisions.length,
+      updatedAt: stored.revisions[stored.revisions.length - 1]?.savedAt,
+    }));
+    return {
+      meta: file.meta,
+      entries,
+      pendingChanges: file.entries.filter(
+        (stored) => stored.draft !== undefined
+      ).length,
+    };
+  }
+
+  async get(id: string): Promise<StoredKnowledgeEntry & { state: KnowledgeEntryState }> {
+    const stored = (await this.read()).entries.find((item) => item.id === id);
+    if (!stored) {
+      throw new KnowledgeStoreError("not_found", `Unknown entry "${id}".`);
+    }
+    return { ...stored, state: entryState(stored) };
+  }
+
+  /** The entries travellers see; drafts are excluded. */
+  async getPublishedIndex(): Promise<KnowledgeIndexFile> {
+    const file = await this.read();
+    const { version, scope, notes } = file.meta;
+    return {
+      meta: { version, scope, notes },
+      entries: file.entries
+        .map((stored) => stored.published)
+        .filter((entry): entry is KnowledgeEntry => Boolean(entry)),
+    };
+  }
+
+  async create(entry: unknown, opts: ChangeOptions = {}) {
+    const parsed = parseEntry(entry);
+    return this.mutate((file) => {
+      const existing = file.entries.find((item) => item.id === parsed.id);
+      if (existing && entryState(existing) !== "deleted") {
+        throw new KnowledgeStoreError(
+          "conflict",
+          `Entry "${parsed.id}" already exists.`
+        );
+      }
+      const stored = existing ?? {
+        id: parsed.id,
+        published: null,
+        revisions: [],
+      };
+      if (!existing) {
+        file.entries.push(stored);
+      }
+      this.recordDraft(stored, parsed, opts);
+      return stored;
+    });
+  }
+
+  async saveDraft(entry: unknown, opts: ChangeOptions = {}) {
+    const parsed = parseEntry(entry);
+    return this.mutate((file) => {
+      const stored = this.require(file, parsed.id);
+      this.recordDraft(stored, parsed, opts);
+      return stored;
+    });
+  }
+
+  /** Stages a deletion; the entry disappears on the next publish. */
+  async remove(id: string, opts: ChangeOptions = {}) {
+    return this.mutate((file) => {
+      const stored = this.require(file, id);
+      this.recordDraft(stored, null, opts);
+      return stored;
+    });
+  }
+
+  async discardDraft(id: string) {
+    return this.mutate((file) => {
+      const stored = this.require(file, id);
+      delete stored.draft;
+      return stored;
+    });
+  }
+
+  /** Stages an older revision as the draft so it can be reviewed, then published. */
+  async rollback(id: string, revision: number, opts: ChangeOptions = {}) {
+    return this.mutate((file) => {
+      const stored = this.require(file, id);
+      const target = stored.revisions.find(
+        (item) => item.revision === revision
+      );
+      if (!target) {
+        throw new KnowledgeStoreError(
+          "not_found",
+          `Entry "${id}" has no revision ${revision}.`
+        );
+      }
+      this.recordDraft(stored, target.entry, {
+        author: opts.author,
+        note: opts.note ?? `Rollback to revision ${revision}`,
+      });
+      return stored;
+    });
+  }
+
+  /** Promotes every draft and bumps `meta.version`. */
+  async publish(opts: ChangeOptions = {}) {
+    return this.mutate((file) => {
+      const pending = file.entries.filter((stored) => stored.draft !== undefined);
+      if (!pending.length) {
+        throw new KnowledgeStoreError("conflict", "Nothing to publish.");
+      }
+
+      const at = new Date();
+      for (const stored of pending) {
+        stored.published = stored.draft ?? null;
+        delete stored.draft;
+        stored.revisions.push({
+          revision: stored.revisions.length + 1,
+          entry: stored.published,
+          status: "published",
+          savedAt: at.toISOString(),
+          author: opts.author,
+          note: opts.note,
+        });
+      }
+
+      file.meta = {
+        ...file.meta,
+        version: nextKnowledgeVersion(file.meta.version, at),
+        publishedAt: at.toISOString(),
+      };
+
+      console.info("[KnowledgeStore] published", {
+        version: file.meta.version,
+        changed: pending.map((stored) => stored.id),
+      });
+
+      return { meta: file.meta, published: pending.map((stored) => stored.id) };
+    });
+  }
+
+  private require(file: KnowledgeStoreFile, id: string): StoredKnowledgeEntry {
+    const stored = file.entries.find((item) => item.id === id);
+    if (!stored) {
+      throw new KnowledgeStoreError("not_found", `Unknown entry "${id}".`);
+    }
+    return stored;
+  }
+
+  private recordDraft(
+    stored: StoredKnowledgeEntry,
+    entry: KnowledgeEntry | null,
+    opts: ChangeOptions
+  ) {
+    stored.draft = entry;
+    stored.revisions.push({
+      revision: stored.revisions.length + 1,
+      entry,
+      status: "draft",
+      savedAt: new Date().toISOString(),
+      author: opts.author,
+      note: opts.note,
+    });
+  }
+
+  /**
+   * Changes run one at a time, each on the state the previous one wrote, so two
+   * concurrent saves cannot both start from the same snapshot and drop an edit.
+   */
+  private mutate<T>(change: (file: KnowledgeStoreFile) => T): Promise<T> {
+    const run = this.writes.then(async () => {
+      // Work on a copy so a rejected change leaves the in-memory snapshot untouched.
+      const file = structuredClone(await this.read());
+      const result = change(file);
+      await this.write(file);
+      return result;
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private seedFile(): KnowledgeStoreFile {
+    return {
+      meta: { ...this.seed.meta },
+      entries: this.seed.entries.map((entry) => ({
+        id: entry.id,
+        published: entry,
+        revisions: [
+          {
+            revision: 1,
+            entry,
+            status: "published",
+            savedAt: new Date(0).toISOString(),
+            note: "Seeded from venue pack",
+          },
+        ],
+      })),
+    };
+  }
+
+  private async read(): Promise<KnowledgeStoreFile> {
+    if (this.snapshot) {
+      return this.snapshot;
+    }
+    try {
+      const raw = await fs.readFile(this.filePath, "utf-8");
+      this.snapshot = JSON.parse(raw) as KnowledgeStoreFile;
+    } catch (error: unknown) {
+      // Only a missing file means "not seeded yet"; reseeding over an unreadable or
+      // corrupt store would discard every edit on the next write.
+      if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+        console.warn("[KnowledgeStore] read store failed", {
+          filePath: this.filePath,
+          error,
+        });
+        throw error;
+      }
+      this.snapshot = this.seedFile();
+    }
+    return this.snapshot;
+  }
+
+  private async write(file: KnowledgeStoreFile): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(file, null, 2), "utf-8");
+    this.snapshot = file;
+  }
+}
+
+const STORES = new Map<string, KnowledgeStore>();
+
+/** One store per venue so every route and tool shares the same snapshot. */
+export function getKnowledgeStore(pack: VenuePack): KnowledgeStore {
+  const venueId = pack.manifest.id;
+  let store = STORES.get(venueId);
+  if (!store) {
+    store = new KnowledgeStore({ venueId, seed: pack.knowledgeIndex });
+    STORES.set(venueId, store);
+  }
+  return store;
+}
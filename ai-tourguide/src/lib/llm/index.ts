@@ -0,0 +1,51 @@
+/**
+ * Chooses the model provider for the whole app from `LLM_PROVIDER`: `openai` (default)
+ * calls the OpenAI API, `mock` answers from fixture files with no network. The shared
+ * provider is metered into the usage ledger; ones from `createLlmProvider` are not.
+ *
+ * Example:
+ *   const { text } = await getLlmProvider().respond({ model: "gpt-4o-mini", input });
+ */
+import { MeteredProvider } from "./metered-provider";
+import { MockProvider } from "./mock-provider";
+import { OpenAIProvider } from "./openai-provider";
+import type { LlmProvider } from "./types";
+
+export * from "./types";
+export { MeteredProvider } from "./metered-provider";
+export { MockProvider } from "./mock-provider";
+export { OpenAIProvider } from "./openai-provider";
+export { ReplayProvider } from "./replay-provider";
+
+let cachedProvider: LlmProvider | null = null;
+
+export function createLlmProvider(name = process.env.LLM_PROVIDER): LlmProvider {
+  switch ((name ?? "openai").trim().toLowerCase()) {
+    case "mock":
+      return new MockProvider();
+    case "openai":
+      return new OpenAIProvider();
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${name}". Use "openai" or "mock".`
+      );
+  }
+}
+
+/**
+ * Replaces the shared provider; null rebuilds it from the environment on next use.
+ * Offline evaluations install one that catches calls bypassing their own provider.
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  cachedProvider = provider;
+}
+
+export function getLlmProvider(): LlmProvider {
+  if (!cachedProvider) {
+    cachedProvider = new MeteredProvider(createLlmProvider());
+    console.info("[LlmProvider] using provider", {
+      provider: cachedProvider.name,
+    });
+  }
+  return cachedProvider;
+}
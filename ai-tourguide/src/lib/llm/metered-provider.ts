@@ -0,0 +1,111 @@
+/**
+ * Wraps the app's provider so every call it makes is charged to the usage ledger,
+ * including nested calls such as the knowledge digest agent. Callers say who a call
+ * is for with `usageTag`; untagged calls are booked as `other`. Agent runs that throw
+ * (guardrail trips, too many turns) are charged for the tokens they spent before
+ * failing. Ledger failures are logged and never fail the call itself.
+ *
+ * Example:
+ *   const provider = new MeteredProvider(new OpenAIProvider());
+ *   await provider.respond({ model, input, usageTag: { feature: "rewrite", sessionId } });
+ */
+import { AgentOutputType, AgentsError } from "@openai/agents";
+
+import { UsageFeature, getUsageLedger } from "../usage-ledger";
+import {
+  LlmAgent,
+  LlmAgentOptions,
+  LlmAgentRunOptions,
+  LlmAgentRunResult,
+  LlmChatRequest,
+  LlmProvider,
+  LlmRespondRequest,
+  LlmTextResult,
+  LlmUsage,
+  LlmUsageTag,
+  emptyUsage,
+} from "./types";
+
+/** Tokens a failed run spent before it threw, when the SDK kept its run state. */
+function failedRunUsage(error: unknown): LlmUsage {
+  const usage =
+    error instanceof AgentsError ? error.state?._context.usage : undefined;
+  return usage
+    ? {
+        requests: usage.requests,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        totalTokens: usage.totalTokens,
+      }
+    : emptyUsage();
+}
+
+export class MeteredProvider implements LlmProvider {
+  readonly name: string;
+  private inner: LlmProvider;
+  private agentModels = new WeakMap<object, string>();
+
+  constructor(inner: LlmProvider) {
+    this.inner = inner;
+    this.name = inner.name;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmTextResult> {
+    const result = await this.inner.chat(request);
+    await this.charge(request.usageTag, "other", request.model, result.usage);
+    return result;
+  }
+
+  async respond(request: LlmRespondRequest): Promise<LlmTextResult> {
+    const result = await this.inner.respond(request);
+    await this.charge(request.usageTag, "other", request.model, result.usage);
+    return result;
+  }
+
+  createAgent<TContext, TOutput extends AgentOutputType>(
+    options: LlmAgentOptions<TContext, TOutput>
+  ): LlmAgent<TContext, TOutput> {
+    const handle = this.inner.createAgent(options);
+    this.agentModels.set(handle, options.model);
+    return handle;
+  }
+
+  async runAgent<TContext, TOutput extends AgentOutputType>(
+    agent: LlmAgent<TContext, TOutput>,
+    input: string,
+    options?: LlmAgentRunOptions<TContext>
+  ): Promise<LlmAgentRunResult<TOutput>> {
+    const model = this.agentModels.get(agent);
+    let result: LlmAgentRunResult<TOutput>;
+    try {
+      result = await this.inner.runAgent(agent, input, options);
+    } catch (error) {
+      const usage = failedRunUsage(error);
+      if (usage.requests) {
+        await this.charge(options?.usageTag, "agent", model, usage);
+      }
+      throw error;
+    }
+    await this.charge(options?.usageTag, "agent", model, result.usage);
+    return result;
+  }
+
+  private async charge(
+    tag: LlmUsageTag | undefined,
+    fallbackFeature: UsageFeature,
+    model: string | undefined,
+    usage: LlmUsage
+  ): Promise<void> {
+    try {
+      await getUsageLedger().record({
+        feature: tag?.feature ?? fallbackFeature,
+        sessionId: tag?.sessionId,
+        provider: this.inner.name,
+        model,
+        usage,
+      });
+    } catch (error) {
+      console.warn("[LlmProvider] usage ledger record failed", { error });
+    }
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Deterministic offline LlmProvider driven by fixture files, so the whole app can be
+ * developed and demoed with no network or API key. Each fixture names the kind of call
+ * it answers and an optional case-insensitive pattern tested against the prompt (the
+ * last user message, or the agent input); the first matching fixture wins, then the
+ * first catch-all without a pattern. `$1`-style groups from the pattern can be echoed
+ * in the output, which is how the tone rewrite passes replies through unchanged.
+ *
+ * Agent fixtures may list tool calls. The mock invokes the agent's real function tools
+ * with the run context, so knowledge lookups, traces and citations behave as they do
+ * online; names that are not function tools (e.g. `web_search`) are recorded as hosted
+ * tool calls. Input guardrails run first, so refusals can be tried offline; output
+ * guardrails are not run. For agents with an `outputType`, a fixture's `fields` are
+ * returned alongside its output (as `answer`); without them the output stays text.
+ *
+ * Example fixture (fixtures/llm/*.json):
+ *   { "id": "canopy-price", "kind": "agent", "match": "canopy park.*(cost|price)",
+ *     "toolCalls": [{ "name": "lookup_local_knowledge", "arguments": { "query": "Canopy Park tickets" } }],
+ *     "output": "Canopy Park tickets are sold at the Level 5 counter." }
+ */
+import {
+  Agent,
+  AgentOutputType,
+  InputGuardrailTripwireTriggered,
+  RunContext,
+} from "@openai/agents";
+import { promises as fs } from "fs";
+import { resolve } from "path";
+
+import {
+  LlmAgent,
+  LlmAgentOptions,
+  LlmAgentRunOptions,
+  LlmAgentRunResult,
+  LlmChatRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmRespondRequest,
+  LlmRunItem,
+  LlmTextResult,
+  LlmUsage,
+} from "./types";
+
+export type MockFixtureKind = "chat" | "vision" | "respond" | "agent";
+
+export type MockToolCall = {
+  name: string;
+  arguments?: Record<string, unknown>;
+};
+
+export type MockFixture = {
+  id: string;
+  kind: MockFixtureKind;
+  /** Case-insensitive regular expression; omit for a catch-all. */
+  match?: string;
+  /** Only answer runs of the agent with this name. */
+  agent?: string;
+  /** Only answer responses whose `metadata.source` equals this. */
+  source?: string;
+  toolCalls?: MockToolCall[];
+  output: string;
+  /** Structured-output fields for agents with an `outputType`, e.g. `followUps`. */
+  fields?: Record<string, unknown>;
+};
+
+export type MockFixtureFile = {
+  fixtures: MockFixture[];
+};
+
+const DEFAULT_FIXTURE_DIR = resolve(process.cwd(), "fixtures/llm");
+
+function messageText(message: LlmMessage | undefined): string {
+  if (!message) {
+    return "";
+  }
+  return typeof message.content === "string"
+    ? message.content
+    : message.content
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("\n");
+}
+
+function lastUserText(messages: LlmMessage[]): string {
+  return messageText(
+    [...messages].reverse().find((message) => message.role === "user")
+  );
+}
+
+function hasImage(messages: LlmMessage[]): boolean {
+  return messages.some(
+    (message) =>
+      typeof message.content !== "string" &&
+      message.content.some((part) => part.type === "image")
+  );
+}
+
+// Rough but stable: about four characters per token.
+function estimateUsage(prompt: string, output: string, requests = 1): LlmUsage {
+  const inputTokens = Math.ceil(prompt.length / 4);
+  const outputTokens = Math.ceil(output.length / 4);
+  return {
+    requests,
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+  };
+}
+
+export class MockProvider implements LlmProvider {
+  readonly name = "mock";
+  private fixtureDir: string;
+  private fixtures: MockFixture[] | null;
+
+  constructor(opts?: { fixtureDir?: string; fixtures?: MockFixture[] }) {
+    this.fixtureDir =
+      opts?.fixtureDir ?? (process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURE_DIR);
+    this.fixtures = opts?.fixtures ?? null;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmTextResult> {
+    const prompt = lastUserText(request.messages);
+    const kind = hasImage(request.messages) ? "vision" : "chat";
+    const text = this.render(await this.find(kind, prompt), prompt);
+    return { text, usage: estimateUsage(prompt, text) };
+  }
+
+  async respond(request: LlmRespondRequest): Promise<LlmTextResult> {
+    const prompt = lastUserText(request.input);
+    const fixture = await this.find("respond", prompt, {
+      source: request.metadata?.source,
+    });
+    const text = this.render(fixture, prompt);
+    if (request.onDelta) {
+      for (const delta of text.match(/\S+\s*/g) ?? []) {
+        request.onDelta(delta);
+      }
+    }
+    return { text, usage: estimateUsage(prompt, text) };
+  }
+
+  createAgent<TContext, TOutput extends AgentOutputType>(
+    options: LlmAgentOptions<TContext, TOutput>
+  ): LlmAgent<TContext, TOutput> {
+    // Building the SDK agent needs no key; it is only read, never run.
+    return new Agent<TContext, TOutput>(options);
+  }
+
+  async runAgent<TContext, TOutput extends AgentOutputType>(
+    agent: LlmAgent<TContext, TOutput>,
+    input: string,
+    options: LlmAgentRunOptions<TContext> = {}
+  ): Promise<LlmAgentRunResult<TOutput>> {
+    const runContext = new RunContext<TContext>(options.context);
+    for (const guardrail of agent.inputGuardrails) {
+      const output = await guardrail.execute({
+        agent,
+        input,
+        context: runContext,
+      });
+      if (output.tripwireTriggered) {
+        throw new InputGuardrailTripwireTriggered(
+          `Input guardrail triggered: ${JSON.stringify(output.outputInfo)}`,
+          { guardrail: { type: "input", name: guardrail.name }, output }
+        );
+      }
+    }
+
+    const fixture = await this.find("agent", input, { agent: agent.name });
+    const newItems: LlmRunItem[] = [];
+
+    for (const [index, call] of (fixture?.toolCalls ?? []).entries()) {
+      const args = JSON.stringify(call.arguments ?? {});
+      const callId = `mock_call_${index}`;
+      const tool = agent.tools.find(
+        (candidate) => candidate.type === "function" && candidate.name === call.name
+      );
+      options.onToolCalled?.(call.name);
+
+      if (tool?.type !== "function") {
+        newItems.push({
+          rawItem: {
+            type: "hosted_tool_call",
+            name: call.name,
+            arguments: args,
+            status: "completed",
+          },
+        });
+        continue;
+      }
+
+      newItems.push({
+        rawItem: { type: "function_call", name: call.name, callId, arguments: args },
+      });
+      const output = await tool.invoke(runContext, args);
+      newItems.push({
+        rawItem: {
+          type: "function_call_result",
+          name: call.name,
+          callId,
+          output: typeof output === "string" ? output : JSON.stringify(output),
+        },
+      });
+    }
+
+    const answer = this.render(fixture, input);
+    // Fixtures are untyped JSON; the caller validates structured output anyway.
+    const finalOutput = (
+      agent.outputType !== "text" && fixture?.fields
+        ? { answer, ...fixture.fields }
+        : answer
+    ) as LlmAgentRunResult<TOutput>["finalOutput"];
+    const text =
+      typeof finalOutput === "string" ? finalOutput : JSON.stringify(finalOutput);
+    if (options.onDelta) {
+      for (const delta of text.match(/\S+\s*/g) ?? []) {
+        options.onDelta(delta);
+      }
+    }
+    newItems.push({
+      rawItem: {
+        type: "message",
+        role: "assistant",
+        content: [{ type: "output_text", text, annotations: [] }],
+      },
+    });
+    return {
+      finalOutput,
+      newItems,
+      usage: estimateUsage(input, text, newItems.length),
+    };
+  }
+
+  private async find(
+    kind: MockFixtureKind,
+    prompt: string,
+    filters: { agent?: string; source?: string } = {}
+  ): Promise<MockFixture | undefined> {
+    const candidates = (await this.load()).filter(
+      (fixture) =>
+        fixture.kind === kind &&
+        (!fixture.agent || fixture.agent === filters.agent) &&
+        (!fixture.source || fixture.source === filters.source)
+    );
+    const fixture =
+      candidates.find(
+        (candidate) =>
+          candidate.match && new RegExp(candidate.match, "i").test(prompt)
+      ) ?? candidates.find((candidate) => !candidate.match);
+
+    if (!fixture) {
+      console.warn("[MockProvider] no fixture matched", {
+        kind,
+        ...filters,
+        prompt: prompt.slice(0, 120),
+      });
+    }
+    return fixture;
+  }
+
+  private render(fixture: MockFixture | undefined, prompt: string): string {
+    if (!fixture) {
+      return "(mock) No fixture matched this request.";
+    }
+    const groups = fixture.match
+      ? new RegExp(fixture.match, "i").exec(prompt) ?? []
+      : [];
+    return fixture.output
+      .replace(/\$(\d)/g, (_, index: string) => groups[Number(index)] ?? "")
+      .trim();
+  }
+
+  private async load(): Promise<MockFixture[]> {
+    if (this.fixtures) {
+      return this.fixtures;
+    }
+    const fixtures: MockFixture[] = [];
+    try {
+      const files = (await fs.readdir(this.fixtureDir))
+        .filter((file) => file.endsWith(".json"))
+        .sort();
+      for (const file of files) {
+        const raw = await fs.readFile(resolve(this.fixtureDir, file), "utf-8");
+        const parsed = JSON.parse(raw) as MockFixtureFile;
+        fixtures.push(...(parsed?.fixtures ?? []));
+      }
+    } catch (error) {
+      console.warn("[MockProvider] failed to load fixtures", {
+        fixtureDir: this.fixtureDir,
+        error,
+      });
+    }
+    this.fixtures = fixtures;
+    return fixtures;
+  }
+}
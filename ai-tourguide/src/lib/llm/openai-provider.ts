@@ -0,0 +1,211 @@
+/**
+ * LlmProvider backed by the OpenAI API: chat completions for chat and vision, the
+ * Responses API for single replies and the Agents SDK for tool-using runs. The client
+ * is created on first use so the app can start (and use the mock) without a key.
+ */
+import OpenAI from "openai";
+import {
+  Agent,
+  AgentOutputType,
+  ModelResponse,
+  RunItem,
+  run,
+  setDefaultOpenAIKey,
+} from "@openai/agents";
+
+import {
+  LlmAgent,
+  LlmAgentOptions,
+  LlmAgentRunOptions,
+  LlmAgentRunResult,
+  LlmChatRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmRespondRequest,
+  LlmRunItem,
+  LlmTextResult,
+  LlmUsage,
+  addUsage,
+  emptyUsage,
+} from "./types";
+
+function toChatMessage(
+  message: LlmMessage
+): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  if (typeof message.content === "string" || message.role !== "user") {
+    const content =
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .join("\n");
+    return { role: message.role, content } as OpenAI.Chat.Completions.ChatCompletionMessageParam;
+  }
+  return {
+    role: "user",
+    content: message.content.map((part) =>
+      part.type === "text"
+        ? { type: "text" as const, text: part.text }
+        : {
+            type: "image_url" as const,
+            image_url: { url: part.url, detail: part.detail ?? "auto" },
+          }
+    ),
+  };
+}
+
+function toResponseInput(messages: LlmMessage[]): OpenAI.Responses.ResponseInput {
+  return messages.map((message) => ({
+    role: message.role,
+    content:
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .join("\n"),
+  }));
+}
+
+function responseUsage(
+  usage: OpenAI.Responses.ResponseUsage | undefined
+): LlmUsage {
+  return {
+    requests: 1,
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    totalTokens: usage?.total_tokens ?? 0,
+  };
+}
+
+function summariseRun<TOutput>(result: {
+  finalOutput?: TOutput;
+  newItems: RunItem[];
+  rawResponses: ModelResponse[];
+}): { finalOutput?: TOutput; newItems: LlmRunItem[]; usage: LlmUsage } {
+  return {
+    finalOutput: result.finalOutput,
+    // Keep only the raw items: SDK items hold references back to the agent.
+    newItems: result.newItems.map((item) => ({ rawItem: item.rawItem })),
+    usage: result.rawResponses.reduce(
+      (total, response) => addUsage(total, response.usage),
+      emptyUsage()
+    ),
+  };
+}
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name = "openai";
+  private apiKey?: string;
+  private client: OpenAI | null = null;
+
+  constructor(opts?: { apiKey?: string }) {
+    this.apiKey = opts?.apiKey ?? process.env.OPENAI_API_KEY;
+  }
+
+  private requireKey(): string {
+    if (!this.apiKey) {
+      throw new Error(
+        "OPENAI_API_KEY is required for the OpenAI provider. Set LLM_PROVIDER=mock to run offline."
+      );
+    }
+    return this.apiKey;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: this.requireKey() });
+    }
+    return this.client;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmTextResult> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages.map(toChatMessage),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    });
+    return {
+      text: response.choices[0]?.message?.content ?? "",
+      usage: {
+        requests: 1,
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+    };
+  }
+
+  async respond(request: LlmRespondRequest): Promise<LlmTextResult> {
+    const params = {
+      model: request.model,
+      input: toResponseInput(request.input),
+      max_output_tokens: request.maxOutputTokens,
+      temperature: request.temperature,
+      metadata: request.metadata,
+    };
+
+    if (!request.onDelta) {
+      const response = await this.getClient().responses.create(params);
+      return {
+        text: response.output_text ?? "",
+        usage: responseUsage(response.usage),
+      };
+    }
+
+    const stream = await this.getClient().responses.create({
+      ...params,
+      stream: true,
+    });
+    let text = "";
+    let usage = emptyUsage();
+    for await (const event of stream) {
+      if (event.type === "response.output_text.delta") {
+        text += event.delta;
+        request.onDelta(event.delta);
+      } else if (event.type === "response.completed") {
+        usage = responseUsage(event.response.usage);
+      }
+    }
+    return { text, usage };
+  }
+
+  createAgent<TContext, TOutput extends AgentOutputType>(
+    options: LlmAgentOptions<TContext, TOutput>
+  ): LlmAgent<TContext, TOutput> {
+    setDefaultOpenAIKey(this.requireKey());
+    return new Agent<TContext, TOutput>(options);
+  }
+
+  async runAgent<TContext, TOutput extends AgentOutputType>(
+    agent: LlmAgent<TContext, TOutput>,
+    input: string,
+    options: LlmAgentRunOptions<TContext> = {}
+  ): Promise<LlmAgentRunResult<TOutput>> {
+    const { onToolCalled, onDelta, context, maxTurns } = options;
+    const runOptions = { context, maxTurns };
+
+    if (!onToolCalled && !onDelta) {
+      return summariseRun(await run(agent, input, runOptions));
+    }
+
+    // Streamed runs resolve to the same result shape once the stream is drained.
+    const result = await run(agent, input, { ...runOptions, stream: true });
+    for await (const event of result) {
+      if (
+        event.type === "run_item_stream_event" &&
+        event.name === "tool_called"
+      ) {
+        const raw = event.item.rawItem;
+        onToolCalled?.(("name" in raw ? raw.name : undefined) ?? raw.type ?? "tool");
+      } else if (
+        event.type === "raw_model_stream_event" &&
+        event.data.type === "output_text_delta"
+      ) {
+        onDelta?.(event.data.delta);
+      }
+    }
+    await result.completed;
+    return summariseRun(result);
+  }
+}
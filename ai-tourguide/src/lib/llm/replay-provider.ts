@@ -0,0 +1,136 @@
+/**
+ * LlmProvider that plays back the agent runs of an AgentRecording in order instead of
+ * calling a model. Each run restores the recorded tool trace into the live run context
+ * and re-executes the agent's input and output guardrails, so everything downstream of
+ * the model (response building, fallback decisions, guardrail handling) runs for real.
+ */
+import {
+  Agent,
+  AgentOutputType,
+  defineOutputGuardrail,
+  InputGuardrailTripwireTriggered,
+  MaxTurnsExceededError,
+  OutputGuardrailTripwireTriggered,
+  RunContext,
+} from "@openai/agents";
+
+import type { AgentRecording, AgentRunRecording } from "../agent-recordings";
+import {
+  LlmAgent,
+  LlmAgentOptions,
+  LlmAgentRunOptions,
+  LlmAgentRunResult,
+  LlmProvider,
+  LlmTextResult,
+} from "./types";
+
+export class ReplayProvider implements LlmProvider {
+  readonly name = "replay";
+  private runs: AgentRunRecording[];
+  private next = 0;
+
+  constructor(recording: AgentRecording) {
+    this.runs = recording.runs;
+  }
+
+  /** Recorded runs the replay has not asked for (yet). */
+  get remainingRuns(): number {
+    return this.runs.length - this.next;
+  }
+
+  async chat(): Promise<LlmTextResult> {
+    throw new Error("ReplayProvider only replays agent runs.");
+  }
+
+  async respond(): Promise<LlmTextResult> {
+    throw new Error("ReplayProvider only replays agent runs.");
+  }
+
+  createAgent<TContext, TOutput extends AgentOutputType>(
+    options: LlmAgentOptions<TContext, TOutput>
+  ): LlmAgent<TContext, TOutput> {
+    return new Agent<TContext, TOutput>(options);
+  }
+
+  async runAgent<TContext, TOutput extends AgentOutputType>(
+    handle: LlmAgent<TContext, TOutput>,
+    input: string,
+    options: LlmAgentRunOptions<TContext> = {}
+  ): Promise<LlmAgentRunResult<TOutput>> {
+    const run = this.runs[this.next];
+    if (!run) {
+      throw new Error(
+        `Replay asked for agent run ${this.next + 1} but the recording has ${this.runs.length}.`
+      );
+    }
+    this.next++;
+
+    const context = options.context as
+      | { runTrace?: Record<string, unknown[]> }
+      | undefined;
+    if (context?.runTrace) {
+      for (const [key, lookups] of Object.entries(run.trace)) {
+        context.runTrace[key]?.push(...(lookups as unknown[]));
+      }
+    }
+    for (const item of run.result?.newItems ?? []) {
+      const raw = item.rawItem;
+      if (raw?.type === "function_call" || raw?.type === "hosted_tool_call") {
+        options.onToolCalled?.(raw.name ?? raw.type);
+      }
+    }
+
+    const runContext = new RunContext<TContext>(options.context);
+    for (const guardrail of handle.inputGuardrails) {
+      const output = await guardrail.execute({
+        agent: handle,
+        input: run.input,
+        context: runContext,
+      });
+      if (output.tripwireTriggered) {
+        throw new InputGuardrailTripwireTriggered(
+          `Input guardrail triggered: ${JSON.stringify(output.outputInfo)}`,
+          { guardrail: { type: "input", name: guardrail.name }, output }
+        );
+      }
+    }
+
+    if (run.error) {
+      if (run.error.name === "MaxTurnsExceededError") {
+        throw new MaxTurnsExceededError(run.error.message);
+      }
+      // Guardrail trips are re-derived above and below rather than replayed.
+      if (!run.error.name.includes("GuardrailTripwireTriggered")) {
+        const error = new Error(run.error.message);
+        error.name = run.error.name;
+        throw error;
+      }
+    }
+
+    // Recordings are untyped JSON written from a run of this same agent.
+    const result = run.result as LlmAgentRunResult<TOutput> | undefined;
+    if (!result) {
+      throw new Error(
+        `Recorded agent run ${this.next} failed without a result: ${
+          run.error?.message ?? "unknown error"
+        }`
+      );
+    }
+
+    for (const guardrail of handle.outputGuardrails) {
+      const check = await defineOutputGuardrail(guardrail).run({
+        agent: handle,
+        agentOutput: result.finalOutput,
+        context: runContext,
+      });
+      if (check.output.tripwireTriggered) {
+        throw new OutputGuardrailTripwireTriggered(
+          `Output guardrail triggered: ${JSON.stringify(check.output.outputInfo)}`,
+          check
+        );
+      }
+    }
+
+    return result;
+  }
+}
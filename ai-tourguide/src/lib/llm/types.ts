@@ -0,0 +1,145 @@
+/**
+ * Provider-neutral shapes for the model calls the app makes: chat completions (text or
+ * vision), single responses (optionally streamed) and tool-using agent runs. Callers
+ * keep choosing their own models and prompts; providers only decide how to run them.
+ */
+import type {
+  Agent,
+  AgentOutputType,
+  InputGuardrail,
+  OutputGuardrail,
+  RunContext,
+  TextOutput,
+  Tool,
+  UnknownContext,
+} from "@openai/agents";
+
+import type { UsageFeature } from "../usage-ledger";
+
+export type LlmUsage = {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; url: string; detail?: "low" | "high" | "auto" };
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string | LlmContentPart[];
+};
+
+/** Who a call is spent on; the metered provider charges it to the usage ledger. */
+export type LlmUsageTag = {
+  feature: UsageFeature;
+  sessionId?: string;
+};
+
+export type LlmTextResult = {
+  text: string;
+  usage: LlmUsage;
+};
+
+/** A chat completion; messages with image parts make it a vision request. */
+export type LlmChatRequest = {
+  model: string;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  usageTag?: LlmUsageTag;
+};
+
+export type LlmRespondRequest = {
+  model: string;
+  input: LlmMessage[];
+  maxOutputTokens?: number;
+  temperature?: number;
+  metadata?: Record<string, string>;
+  usageTag?: LlmUsageTag;
+  /** Streams the reply; receives each text delta as it arrives. */
+  onDelta?: (delta: string) => void;
+};
+
+/** Options accepted by the Agents SDK `Agent` constructor. */
+export type LlmAgentOptions<
+  TContext = UnknownContext,
+  TOutput extends AgentOutputType = TextOutput
+> = {
+  name: string;
+  model: string;
+  instructions: string | ((runCtx: RunContext<TContext>) => string);
+  /** Zod schema for structured output; `finalOutput` is then the parsed object. */
+  outputType?: TOutput;
+  tools?: Tool<TContext>[];
+  inputGuardrails?: InputGuardrail[];
+  outputGuardrails?: OutputGuardrail<TOutput>[];
+};
+
+/**
+ * The SDK agent built by `createAgent`. Providers decide how to run it: the OpenAI
+ * provider calls the model, the mock and replay providers only read its tools and
+ * guardrails.
+ */
+export type LlmAgent<
+  TContext = UnknownContext,
+  TOutput extends AgentOutputType = TextOutput
+> = Agent<TContext, TOutput>;
+
+export type LlmAgentRunOptions<TContext = UnknownContext> = {
+  context?: TContext;
+  maxTurns?: number;
+  /** Streams the run; receives the name of each tool as the agent calls it. */
+  onToolCalled?: (tool: string) => void;
+  /**
+   * Streams the run; receives each text delta of the model's output as it arrives.
+   * For agents with an `outputType` the deltas are slices of the raw JSON.
+   */
+  onDelta?: (delta: string) => void;
+  usageTag?: LlmUsageTag;
+};
+
+/**
+ * A raw protocol item from a run. Recordings and fixtures supply these as plain JSON,
+ * so only the fields every item kind shares are typed.
+ */
+export type LlmRunItem = {
+  rawItem?: { type?: string; name?: string; [key: string]: unknown };
+};
+
+export type LlmAgentRunResult<TOutput extends AgentOutputType = TextOutput> = {
+  /** Text, or the parsed object for an agent with a zod `outputType`. */
+  finalOutput?: ReturnType<Agent<UnknownContext, TOutput>["processFinalOutput"]>;
+  /** Raw items the run produced: tool calls, their results and messages. */
+  newItems: LlmRunItem[];
+  usage: LlmUsage;
+};
+
+export interface LlmProvider {
+  readonly name: string;
+  chat(request: LlmChatRequest): Promise<LlmTextResult>;
+  respond(request: LlmRespondRequest): Promise<LlmTextResult>;
+  createAgent<TContext, TOutput extends AgentOutputType = TextOutput>(
+    options: LlmAgentOptions<TContext, TOutput>
+  ): LlmAgent<TContext, TOutput>;
+  runAgent<TContext, TOutput extends AgentOutputType>(
+    agent: LlmAgent<TContext, TOutput>,
+    input: string,
+    options?: LlmAgentRunOptions<TContext>
+  ): Promise<LlmAgentRunResult<TOutput>>;
+}
+
+export function emptyUsage(): LlmUsage {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+export function addUsage(a: LlmUsage, b: LlmUsage): LlmUsage {
+  return {
+    requests: a.requests + b.requests,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
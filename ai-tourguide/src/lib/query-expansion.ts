@@ -0,0 +1,206 @@
+/**
+ * Expands traveller queries before they hit the knowledge index:
+ *
+ * 1. Typo repair: tokens the index has never seen are snapped to the closest entry
+ *    name, tag or alias token by edit distance ("canopi" -> "canopy").
+ * 2. Synonyms: alias phrases from the venue's `synonyms.json` ("makan", "the big water
+ *    thing", "air terjun") add the canonical terms used by the curated entries. Once an
+ *    alias has expanded its own words are down-weighted, so "water" in "the big water
+ *    thing" stops pulling in every entry about water, and the entries the group names in
+ *    `entryIds` come back as targets for the index to boost.
+ *
+ * Expanded tokens carry a weight so exact wording still outranks a guess.
+ *
+ * Example:
+ *   const expander = new QueryExpander({ groups, vocabulary, knownTerms });
+ *   const { tokens, targets } = expander.expand("where to makan near the canopi park");
+ */
+import { tokenize } from "./tokenizer";
+
+export type SynonymGroup = {
+  /** Terms the curated entries use, e.g. "rain vortex waterfall". */
+  canonical: string;
+  /** Phrases travellers say instead, including Singlish and loanwords. */
+  aliases: string[];
+  /** Knowledge entries the group is about, boosted when one of its aliases matches. */
+  entryIds?: string[];
+};
+
+export type SynonymTable = {
+  meta: {
+    version: string;
+    notes?: string;
+  };
+  groups: SynonymGroup[];
+};
+
+const FUZZY_WEIGHT = 0.7;
+const MIN_FUZZY_LENGTH = 4;
+// Weight left on an alias's own words ("big", "thing") after it has expanded.
+const ALIAS_SOURCE_WEIGHT = 0.5;
+
+type AliasPattern = {
+  tokens: string[];
+  expansion: string[];
+  entryIds: string[];
+};
+
+export type ExpandedQuery = {
+  /** Query tokens with weights: 1 for exact words, lower for typo repairs and alias words. */
+  tokens: Map<string, number>;
+  /** Entry ids named by matched synonym groups, with the weight of the match. */
+  targets: Map<string, number>;
+};
+
+/** Levenshtein distance, giving up early once it must exceed `max`. */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function maxTypos(token: string): number {
+  return token.length >= 7 ? 2 : 1;
+}
+
+export class QueryExpander {
+  private patterns = new Map<string, AliasPattern[]>();
+  private vocabulary: string[];
+  private knownTerms: ReadonlySet<string>;
+
+  constructor(opts: {
+    groups?: SynonymGroup[];
+    /** Tokens from entry names and tags that typos may be corrected to. */
+    vocabulary: Iterable<string>;
+    /** Every token the index has a posting list for. */
+    knownTerms: ReadonlySet<string>;
+  }) {
+    const vocabulary = new Set(opts.vocabulary);
+
+    for (const group of opts.groups ?? []) {
+      const expansion = tokenize(group.canonical);
+      const entryIds = group.entryIds ?? [];
+      for (const alias of group.aliases) {
+        const tokens = tokenize(alias);
+        if (!tokens.length) {
+          continue;
+        }
+        tokens.forEach((token) => vocabulary.add(token));
+        const pattern = { tokens, expansion, entryIds };
+        const bucket = this.patterns.get(tokens[0]);
+        if (bucket) {
+          bucket.push(pattern);
+        } else {
+          this.patterns.set(tokens[0], [pattern]);
+        }
+      }
+    }
+
+    // Longer aliases first so "big water thing" wins over "water thing".
+    for (const bucket of this.patterns.values()) {
+      bucket.sort((a, b) => b.tokens.length - a.tokens.length);
+    }
+
+    this.vocabulary = Array.from(vocabulary).filter(
+      (token) => token.length >= MIN_FUZZY_LENGTH - 1
+    );
+    this.knownTerms = opts.knownTerms;
+  }
+
+  private isKnown(token: string): boolean {
+    return this.knownTerms.has(token) || this.patterns.has(token);
+  }
+
+  private correct(token: string): string | undefined {
+    if (token.length < MIN_FUZZY_LENGTH || /^\d+$/.test(token)) {
+      return undefined;
+    }
+    const limit = maxTypos(token);
+    let best: { token: string; distance: number } | undefined;
+    for (const candidate of this.vocabulary) {
+      const distance = editDistance(token, candidate, limit);
+      if (distance <= limit && (!best || distance < best.distance)) {
+        best = { token: candidate, distance };
+      }
+    }
+    return best?.token;
+  }
+
+  expand(query: string): ExpandedQuery {
+    const sequence = tokenize(query).map((token) => {
+      if (this.isKnown(token)) {
+        return { token, weight: 1 };
+      }
+      const corrected = this.correct(token);
+      return corrected
+        ? { token: corrected, weight: FUZZY_WEIGHT }
+        : { token, weight: 1 };
+    });
+
+    const tokens = new Map<string, number>();
+    const targets = new Map<string, number>();
+    const add = (weights: Map<string, number>, key: string, weight: number) => {
+      if (weight > (weights.get(key) ?? 0)) {
+        weights.set(key, weight);
+      }
+    };
+
+    // Positions covered by a matched alias, with the canonical terms it added.
+    const aliased = new Map<number, string[]>();
+    for (let i = 0; i < sequence.length; i++) {
+      for (const pattern of this.patterns.get(sequence[i].token) ?? []) {
+        const window = sequence.slice(i, i + pattern.tokens.length);
+        const matched =
+          window.length === pattern.tokens.length &&
+          window.every((item, offset) => item.token === pattern.tokens[offset]);
+        if (!matched) {
+          continue;
+        }
+        const weight = Math.min(...window.map((item) => item.weight));
+        pattern.expansion.forEach((token) => add(tokens, token, weight));
+        pattern.entryIds.forEach((id) => add(targets, id, weight));
+        window.forEach((_, offset) => {
+          const position = i + offset;
+          aliased.set(position, [
+            ...(aliased.get(position) ?? []),
+            ...pattern.expansion,
+          ]);
+        });
+        break;
+      }
+    }
+
+    sequence.forEach(({ token, weight }, position) => {
+      const expansion = aliased.get(position);
+      add(
+        tokens,
+        token,
+        expansion && !expansion.includes(token)
+          ? weight * ALIAS_SOURCE_WEIGHT
+          : weight
+      );
+    });
+
+    return { tokens, targets };
+  }
+}
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ScheduleCalendar, VenueSchedule } from "./schedules";
+
+// Singapore is UTC+8 all year. 2025-03-07 is a Friday.
+const schedule: VenueSchedule = {
+  meta: { version: "test", timezone: "Asia/Singapore" },
+  items: [
+    {
+      id: "retail",
+      name: "Shops",
+      kind: "venue",
+      hours: [{ open: "10:00", close: "22:00" }],
+    },
+    {
+      id: "night_market",
+      name: "Night market",
+      kind: "attraction",
+      hours: [{ days: ["fri", "sat"], open: "18:00", close: "02:00" }],
+      lastEntryMinutes: 30,
+    },
+    {
+      id: "public_areas",
+      name: "Public areas",
+      kind: "venue",
+      hours: [{ open: "00:00", close: "24:00" }],
+    },
+    {
+      id: "light_show",
+      name: "Light show",
+      kind: "show",
+      shows: [{ times: ["19:30", "21:30"], durationMinutes: 15 }],
+    },
+  ],
+  exceptions: [
+    {
+      date: "2025-03-07",
+      itemId: "retail",
+      closed: true,
+      note: "Closed for maintenance.",
+    },
+    {
+      date: "2025-03-08",
+      itemId: "light_show",
+      shows: [{ times: ["23:50"], durationMinutes: 20 }],
+      note: "Late special.",
+    },
+  ],
+};
+
+const calendar = new ScheduleCalendar(schedule);
+
+describe("ScheduleCalendar", () => {
+  it("reads hours in the venue's time zone", () => {
+    const beforeOpening = calendar.status("retail", new Date("2025-03-05T01:59:00Z"));
+    assert.equal(beforeOpening?.open, false);
+    assert.equal(beforeOpening?.opensAt?.toISOString(), "2025-03-05T02:00:00.000Z");
+
+    const open = calendar.status("retail", new Date("2025-03-05T02:00:00Z"));
+    assert.equal(open?.open, true);
+    assert.equal(open?.closesAt?.toISOString(), "2025-03-05T14:00:00.000Z");
+    assert.equal(open?.closesAt && calendar.formatTime(open.closesAt), "10:00 pm");
+  });
+
+  it("follows daylight saving changes", () => {
+    const london = new ScheduleCalendar({
+      meta: { version: "test", timezone: "Europe/London" },
+      items: [
+        {
+          id: "museum",
+          name: "Museum",
+          kind: "attraction",
+          hours: [{ open: "09:00", close: "17:00" }],
+        },
+      ],
+      exceptions: [],
+    });
+    // Clocks go forward on 2025-03-30, so 9am moves from 09:00 to 08:00 UTC.
+    const saturday = london.status("museum", new Date("2025-03-29T05:00:00Z"));
+    const sunday = london.status("museum", new Date("2025-03-30T05:00:00Z"));
+    assert.equal(saturday?.opensAt?.toISOString(), "2025-03-29T09:00:00.000Z");
+    assert.equal(sunday?.opensAt?.toISOString(), "2025-03-30T08:00:00.000Z");
+  });
+
+  it("keeps a period that wraps past midnight open into the next day", () => {
+    // 1:30am on Saturday, still inside Friday's 18:00–02:00.
+    const status = calendar.status("night_market", new Date("2025-03-07T17:30:00Z"));
+    assert.equal(status?.open, true);
+    assert.equal(status?.closesAt?.toISOString(), "2025-03-07T18:00:00.000Z");
+    assert.equal(status?.lastEntryAt?.toISOString(), "2025-03-07T17:30:00.000Z");
+
+    // 1am on Thursday: Wednesday has no session, so the next is Friday evening.
+    const closed = calendar.status("night_market", new Date("2025-03-05T17:00:00Z"));
+    assert.equal(closed?.open, false);
+    assert.equal(closed?.opensAt?.toISOString(), "2025-03-07T10:00:00.000Z");
+  });
+
+  it("treats back-to-back 24-hour days as always open", () => {
+    const status = calendar.status("public_areas", new Date("2025-03-05T12:00:00Z"));
+    assert.equal(status?.open, true);
+    assert.equal(status?.alwaysOpen, true);
+  });
+
+  it("closes an item on a closed exception day", () => {
+    const status = calendar.status("retail", new Date("2025-03-07T04:00:00Z"));
+    assert.equal(status?.open, false);
+    assert.equal(status?.note, "Closed for maintenance.");
+    assert.equal(status?.opensAt?.toISOString(), "2025-03-08T02:00:00.000Z");
+  });
+
+  it("replaces the day's shows with an exception that runs past midnight", () => {
+    // 6pm on Saturday: the regular 19:30 and 21:30 shows give way to 23:50.
+    const [next] = calendar.nextShows({
+      itemId: "light_show",
+      at: new Date("2025-03-08T10:00:00Z"),
+      limit: 1,
+    });
+    assert.equal(next.startsAt.toISOString(), "2025-03-08T15:50:00.000Z");
+    assert.equal(next.note, "Late special.");
+
+    // Just after midnight the late show is still running.
+    const running = calendar.nextShows({
+      itemId: "light_show",
+      at: new Date("2025-03-08T16:05:00Z"),
+      withinMinutes: 60,
+    });
+    assert.deepEqual(
+      running.map((show) => [show.startsAt.toISOString(), show.endsAt.toISOString()]),
+      [["2025-03-08T15:50:00.000Z", "2025-03-08T16:10:00.000Z"]]
+    );
+  });
+
+  it("lists what can still be caught in a window", () => {
+    // 7pm on Wednesday.
+    const { shows, open } = calendar.upcoming({
+      at: new Date("2025-03-05T11:00:00Z"),
+      withinMinutes: 45,
+    });
+    assert.deepEqual(
+      shows.map((show) => show.startsAt.toISOString()),
+      ["2025-03-05T11:30:00.000Z"]
+    );
+    assert.deepEqual(
+      open.map((status) => status.item.id),
+      ["retail", "public_areas"]
+    );
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Typed opening hours and showtimes for a venue, evaluated in the venue's own time
+ * zone so "is it open now?" does not depend on where the server runs.
+ *
+ * Hours and shows repeat weekly; `exceptions` override a single local date (public
+ * holidays, maintenance, special shows). A closing time earlier than the opening time
+ * runs past midnight, and `24:00` closes at the end of the day.
+ *
+ * Example:
+ *   const calendar = new ScheduleCalendar(pack.schedule);
+ *   calendar.status("canopy_park").open;
+ *   calendar.nextShows({ itemId: "rain_vortex_show", limit: 2 });
+ *   calendar.upcoming({ withinMinutes: 45 });
+ */
+import { tokenize } from "./tokenizer";
+
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/** Local wall-clock time, `HH:MM` on a 24-hour clock. */
+export type LocalTime = string;
+
+export type OpeningHours = {
+  /** Omit to apply every day. */
+  days?: Weekday[];
+  open: LocalTime;
+  close: LocalTime;
+};
+
+export type ShowRun = {
+  /** Omit to apply every day. */
+  days?: Weekday[];
+  times: LocalTime[];
+  durationMinutes: number;
+};
+
+export type ScheduleItem = {
+  id: string;
+  name: string;
+  kind: "venue" | "attraction" | "show" | "service";
+  /** Knowledge entry with the long-form description. */
+  knowledgeId?: string;
+  hours?: OpeningHours[];
+  shows?: ShowRun[];
+  /** Minutes before closing when the last entry is admitted. */
+  lastEntryMinutes?: number;
+  notes?: string;
+};
+
+export type ScheduleException = {
+  /** Local date, `YYYY-MM-DD`. */
+  date: string;
+  itemId: string;
+  closed?: boolean;
+  /** Replaces the regular hours for the day. */
+  hours?: Array<Omit<OpeningHours, "days">>;
+  /** Replaces the regular showtimes for the day. */
+  shows?: Array<Omit<ShowRun, "days">>;
+  note?: string;
+};
+
+export type VenueSchedule = {
+  meta: {
+    version: string;
+    /** IANA time zone, e.g. `Asia/Singapore`. */
+    timezone: string;
+    notes?: string;
+    lastVerified?: string;
+  };
+  items: ScheduleItem[];
+  exceptions: ScheduleException[];
+};
+
+export type OpenStatus = {
+  item: ScheduleItem;
+  open: boolean;
+  /** Open around the clock for at least the next week. */
+  alwaysOpen: boolean;
+  closesAt?: Date;
+  lastEntryAt?: Date;
+  opensAt?: Date;
+  /** Exception note for today, if any. */
+  note?: string;
+};
+
+export type ShowOccurrence = {
+  item: ScheduleItem;
+  startsAt: Date;
+  endsAt: Date;
+  note?: string;
+};
+
+type Period = {
+  start: Date;
+  end: Date;
+  note?: string;
+};
+
+type LocalDate = {
+  date: string;
+  weekday: Weekday;
+};
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Far enough to find the next opening after a closure over a long weekend.
+const LOOKAHEAD_DAYS = 7;
+
+function parseLocalTime(value: LocalTime): number {
+  const [hours, minutes] = value.split(":").map((part) => Number.parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class ScheduleCalendar {
+  private schedule: VenueSchedule;
+  private dateFormatter: Intl.DateTimeFormat;
+  private offsetFormatter: Intl.DateTimeFormat;
+
+  constructor(schedule: VenueSchedule) {
+    this.schedule = schedule;
+    const timeZone = schedule.meta.timezone;
+    this.dateFormatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    this.offsetFormatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+  }
+
+  get timezone(): string {
+    return this.schedule.meta.timezone;
+  }
+
+  get items(): ScheduleItem[] {
+    return this.schedule.items;
+  }
+
+  /** Matches an item by id, linked knowledge id or name words. */
+  findItem(reference: string): ScheduleItem | undefined {
+    const needle = reference.trim().toLowerCase();
+    const exact = this.schedule.items.find(
+      (item) =>
+        item.id === needle ||
+        item.knowledgeId === needle ||
+        item.name.toLowerCase() === needle
+    );
+    if (exact) {
+      return exact;
+    }
+
+    const queryTokens = new Set(tokenize(reference));
+    if (!queryTokens.size) {
+      return undefined;
+    }
+    let best: { item: ScheduleItem; score: number } | undefined;
+    for (const item of this.schedule.items) {
+      const nameTokens = tokenize(item.name);
+      const hits = nameTokens.filter((token) => queryTokens.has(token)).length;
+      const score = hits / Math.max(nameTokens.length, 1);
+      if (hits && (!best || score > best.score)) {
+        best = { item, score };
+      }
+    }
+    return best?.item;
+  }
+
+  status(itemId: string, at = new Date()): OpenStatus | undefined {
+    const item = this.schedule.items.find((candidate) => candidate.id === itemId);
+    if (!item?.hours) {
+      return undefined;
+    }
+
+    const today = this.localDate(at);
+    const note = this.exceptionFor(item.id, today.date)?.note;
+    const periods = this.periods(item, at, -1, LOOKAHEAD_DAYS);
+    const current = periods.find(
+      (period) => period.start <= at && at < period.end
+    );
+
+    if (!current) {
+      const next = periods.find((period) => period.start > at);
+      return { item, open: false, alwaysOpen: false, opensAt: next?.start, note };
+    }
+
+    // Back-to-back periods (e.g. 00:00–24:00 every day) count as one stretch.
+    let closesAt = current.end;
+    for (const period of periods) {
+      if (period.end <= closesAt) {
+        continue;
+      }
+      if (period.start > closesAt) {
+        break;
+      }
+      closesAt = period.end;
+    }
+    if (closesAt.getTime() - at.getTime() >= (LOOKAHEAD_DAYS - 1) * DAY_MS) {
+      return { item, open: true, alwaysOpen: true, note };
+    }
+
+    return {
+      item,
+      open: true,
+      alwaysOpen: false,
+      closesAt,
+      lastEntryAt: item.lastEntryMinutes
+        ? new Date(closesAt.getTime() - item.lastEntryMinutes * MINUTE_MS)
+        : undefined,
+      note,
+    };
+  }
+
+  /** Upcoming shows, soonest first; a show already running counts until it ends. */
+  nextShows(
+    opts: { itemId?: string; at?: Date; limit?: number; withinMinutes?: number } = {}
+  ): ShowOccurrence[] {
+    const at = opts.at ?? new Date();
+    const until = opts.withinMinutes
+      ? at.getTime() + opts.withinMinutes * MINUTE_MS
+      : Number.POSITIVE_INFINITY;
+    const items = this.schedule.items.filter(
+      (item) => item.shows && (!opts.itemId || item.id === opts.itemId)
+    );
+
+    const occurrences: ShowOccurrence[] = [];
+    // Start a day back so a show that began before midnight is still found.
+    for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset += 1) {
+      const day = this.localDate(new Date(at.getTime() + offset * DAY_MS));
+      for (const item of items) {
+        for (const run of this.showRuns(item, day)) {
+          for (const time of run.times) {
+            const startsAt = this.toInstant(day.date, parseLocalTime(time));
+            const endsAt = new Date(
+              startsAt.getTime() + run.durationMinutes * MINUTE_MS
+            );
+            if (endsAt > at && startsAt.getTime() <= until) {
+              occurrences.push({ item, startsAt, endsAt, note: run.note });
+            }
+          }
+        }
+      }
+      if (opts.limit && occurrences.length >= opts.limit) {
+        break;
+      }
+    }
+
+    occurrences.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+    return opts.limit ? occurrences.slice(0, opts.limit) : occurrences;
+  }
+
+  /**
+   * What a traveller can still catch in the window: shows starting before it ends and
+   * places open now (or opening soon) that admit them before last entry.
+   */
+  upcoming(opts: { at?: Date; withinMinutes: number }): {
+    shows: ShowOccurrence[];
+    open: OpenStatus[];
+  } {
+    const at = opts.at ?? new Date();
+    const windowEnd = new Date(at.getTime() + opts.withinMinutes * MINUTE_MS);
+    const shows = this.nextShows({ at, withinMinutes: opts.withinMinutes });
+    const open = this.schedule.items
+      .map((item) => this.status(item.id, at))
+      .filter((status): status is OpenStatus => {
+        if (!status) {
+          return false;
+        }
+        if (status.open) {
+          return !status.lastEntryAt || status.lastEntryAt > at;
+        }
+        return Boolean(status.opensAt && status.opensAt <= windowEnd);
+      });
+    return { shows, open };
+  }
+
+  /** `7:30 PM`-style wall-clock time in the venue's time zone. */
+  formatTime(value: Date): string {
+    return value.toLocaleTimeString("en-SG", {
+      timeZone: this.timezone,
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  }
+
+  /** `Sun 7:30 PM` in the venue's time zone. */
+  formatDateTime(value: Date): string {
+    const weekday = value.toLocaleDateString("en-SG", {
+      timeZone: this.timezone,
+      weekday: "short",
+    });
+    return `${weekday} ${this.formatTime(value)}`;
+  }
+
+  /** Adds the weekday when the time is not today in the venue's time zone. */
+  formatWhen(value: Date, at = new Date()): string {
+    return this.localDate(value).date === this.localDate(at).date
+      ? this.formatTime(value)
+      : this.formatDateTime(value);
+  }
+
+  private exceptionFor(itemId: string, date: string) {
+    return this.schedule.exceptions.find(
+      (exception) => exception.itemId === itemId && exception.date === date
+    );
+  }
+
+  private hoursFor(item: ScheduleItem, day: LocalDate) {
+    const exception = this.exceptionFor(item.id, day.date);
+    if (exception?.closed) {
+      return [];
+    }
+    const hours =
+      exception?.hours ??
+      (item.hours ?? []).filter(
+        (range) => !range.days || range.days.includes(day.weekday)
+      );
+    return hours.map((range) => ({ ...range, note: exception?.note }));
+  }
+
+  private showRuns(item: ScheduleItem, day: LocalDate) {
+    const exception = this.exceptionFor(item.id, day.date);
+    if (exception?.closed) {
+      return [];
+    }
+    const runs =
+      exception?.shows ??
+      (item.shows ?? []).filter((run) => !run.days || run.days.includes(day.weekday));
+    return runs.map((run) => ({ ...run, note: exception?.note }));
+  }
+
+  private periods(item: ScheduleItem, at: Date, fromDay: number, toDay: number) {
+    const periods: Period[] = [];
+    for (let offset = fromDay; offset <= toDay; offset += 1) {
+      const day = this.localDate(new Date(at.getTime() + offset * DAY_MS));
+      for (const range of this.hoursFor(item, day)) {
+        const open = parseLocalTime(range.open);
+        let close = parseLocalTime(range.close);
+        if (close <= open) {
+          close += 24 * 60;
+        }
+        periods.push({
+          start: this.toInstant(day.date, open),
+          end: this.toInstant(day.date, close),
+          note: range.note,
+        });
+      }
+    }
+    return periods.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  private localDate(at: Date): LocalDate {
+    const date = this.dateFormatter.format(at);
+    const [year, month, day] = date.split("-").map((part) => Number.parseInt(part, 10));
+    return {
+      date,
+      weekday: WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()],
+    };
+  }
+
+  /** The instant a local wall-clock time occurs; minutes may run past midnight. */
+  private toInstant(date: string, minutes: number): Date {
+    const [year, month, day] = date.split("-").map((part) => Number.parseInt(part, 10));
+    const wallClock = Date.UTC(year, month - 1, day) + minutes * MINUTE_MS;
+    const guess = wallClock - this.offsetMs(new Date(wallClock));
+    return new Date(wallClock - this.offsetMs(new Date(guess)));
+  }
+
+  private offsetMs(at: Date): number {
+    const parts = Object.fromEntries(
+      this.offsetFormatter
+        .formatToParts(at)
+        .map((part) => [part.type, Number.parseInt(part.value, 10)])
+    );
+    const asUtc = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute
+    );
+    return asUtc - Math.floor(at.getTime() / MINUTE_MS) * MINUTE_MS;
+  }
+}
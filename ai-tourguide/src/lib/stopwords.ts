@@ -0,0 +1,66 @@
+// Common English filler words ignored when extracting keywords or indexing knowledge.
+export const KEYWORD_STOPWORDS = new Set([
+  "the",
+  "a",
+  "an",
+  "and",
+  "or",
+  "but",
+  "when",
+  "what",
+  "where",
+  "why",
+  "how",
+  "does",
+  "do",
+  "did",
+  "is",
+  "are",
+  "am",
+  "was",
+  "were",
+  "be",
+  "being",
+  "been",
+  "to",
+  "for",
+  "at",
+  "on",
+  "in",
+  "of",
+  "with",
+  "about",
+  "from",
+  "into",
+  "over",
+  "after",
+  "before",
+  "this",
+  "that",
+  "these",
+  "those",
+  "i",
+  "you",
+  "we",
+  "they",
+  "he",
+  "she",
+  "it",
+  "me",
+  "my",
+  "your",
+  "our",
+  "their",
+  "can",
+  "could",
+  "would",
+  "should",
+  "will",
+  "shall",
+  "have",
+  "has",
+  "had",
+  "just",
+  "really",
+  "please",
+]);
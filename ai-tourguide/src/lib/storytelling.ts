@@ -1,3 +1,10 @@
+import {
+  AccessibilityInfo,
+  AccessibilityNeed,
+  formatAccessibilityInfo,
+  parseAccessibilityNotes,
+} from "./accessibility";
+
 export type UserPreferences = {
   travelerName?: string;
   tripCompanions?: string[] | string;
@@ -15,6 +22,7 @@ export type NormalizedUserPreferences = {
   preferredTone: "playful" | "warm" | "elegant";
   preferredPace: "leisurely" | "adventurous" | "express";
   accessibilityNotes?: string;
+  accessibilityNeeds: AccessibilityNeed[];
 };
 
 export type PreparedUserPreferences = NormalizedUserPreferences & {
@@ -205,6 +213,7 @@ export function prepareUserPreferences(
   }
 
   const preparedExtras = formatPreferenceExtras(extras);
+  const notes = normaliseAccessibilityNotes(accessibilityNotes);
 
   return {
     travelerName: normaliseName(travelerName),
@@ -212,7 +221,8 @@ export function prepareUserPreferences(
     interests: normaliseStringArray(interests),
     preferredTone: normaliseTone(preferredTone),
     preferredPace: normalisePace(preferredPace),
-    accessibilityNotes: normaliseAccessibilityNotes(accessibilityNotes),
+    accessibilityNotes: notes,
+    accessibilityNeeds: parseAccessibilityNotes(notes),
     extras: preparedExtras,
     raw,
   };
@@ -224,9 +234,15 @@ export type PlaceOfInterest = {
   summary: string;
   highlights: string[];
   sensoryDetails: string[];
+  /** Free text such as "20–30 minutes"; the itinerary planner reads the range from it. */
   suggestedDuration: string;
   insiderTips?: string[];
   callToAction?: string;
+  accessibility?: AccessibilityInfo;
+  /** Navigation node where a visit starts, for walking times between POIs. */
+  navigationNodeId?: string;
+  /** Schedule items (opening hours, shows) that shape when to visit. */
+  scheduleItemIds?: string[];
 };
 
 function pickFirstMatch(
@@ -250,6 +266,7 @@ export function generateStorytellingForPlaceOfInterest(
     preferredTone,
     preferredPace,
     accessibilityNotes,
+    accessibilityNeeds,
   } = prepared;
 
   const primaryInterest = pickFirstMatch(poi.highlights, interests);
@@ -276,9 +293,16 @@ export function generateStorytellingForPlaceOfInterest(
     ? `Picture ${poi.sensoryDetails.join(" and ")}.`
     : "You'll feel right at home the moment you arrive.";
 
-  const accessibilityLine = accessibilityNotes
-    ? `Keep in mind: ${accessibilityNotes}.`
-    : "";
+  const accessInfo = formatAccessibilityInfo(
+    poi.accessibility,
+    accessibilityNeeds
+  );
+  const accessibilityLine = [
+    accessInfo ? `Getting around: ${accessInfo}` : "",
+    accessibilityNotes ? `Keep in mind: ${accessibilityNotes}.` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
 
   const insiderLine = poi.insiderTips?.length
     ? `Local tip: ${poi.insiderTips[0]}.`
@@ -306,6 +330,10 @@ type NarrationOptions = {
   voiceId?: string;
   optimizeLatency?: 0 | 1 | 2 | 3 | 4;
   preferSpeechSynthesis?: boolean;
+  /** Speaks with this persona's voice and settings when no `voiceId` is given. */
+  personaId?: string;
+  /** Charges the ElevenLabs characters to this session's usage budget. */
+  sessionId?: string;
 };
 
 const STREAM_QUERY_LIMIT = 1400;
@@ -347,6 +375,12 @@ async function streamNarrationToAudioElement(
   if (options.optimizeLatency !== undefined) {
     params.set("optimizeLatency", String(options.optimizeLatency));
   }
+  if (options.personaId) {
+    params.set("personaId", options.personaId);
+  }
+  if (options.sessionId) {
+    params.set("sessionId", options.sessionId);
+  }
   params.set("ts", Date.now().toString());
 
   stopActiveNarrationAudio();
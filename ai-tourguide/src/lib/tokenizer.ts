@@ -0,0 +1,35 @@
+import { KEYWORD_STOPWORDS } from "./stopwords";
+
+// Pre-compile regex for better performance
+const TOKENIZE_REGEX = /[^a-z0-9\s]+/g;
+const WHITESPACE_REGEX = /\s+/;
+
+function normaliseToken(token: string): string {
+  // Light plural folding so "shows" and "show" share a posting list.
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  // Single pass: lowercase, clean, and split
+  const cleaned = text.toLowerCase().replace(TOKENIZE_REGEX, " ");
+  const tokens: string[] = [];
+  let start = 0;
+
+  // Manual split to avoid creating intermediate arrays
+  for (let i = 0; i <= cleaned.length; i++) {
+    if (i === cleaned.length || WHITESPACE_REGEX.test(cleaned[i])) {
+      if (i > start) {
+        const token = cleaned.slice(start, i);
+        if (!KEYWORD_STOPWORDS.has(token)) {
+          tokens.push(normaliseToken(token));
+        }
+      }
+      start = i + 1;
+    }
+  }
+
+  return tokens;
+}
@@ -0,0 +1,109 @@
+import { RunContext, tool } from "@openai/agents";
+import { z } from "zod";
+import { ItineraryPlanner } from "../itinerary";
+import { getDefaultVenuePack, getVenuePack } from "../venues";
+import type { TourAgentContext } from "./knowledge-tool";
+
+export type ItineraryLookupTrace = {
+  budgetMinutes: number;
+  start: string | null;
+  /** POI ids in visiting order; empty when nothing fit. */
+  poiIds: string[];
+  usedMinutes: number;
+  /** Knowledge entries linked to the stops' map nodes. */
+  knowledgeIds: string[];
+};
+
+const PLANNERS = new Map<string, ItineraryPlanner>();
+
+function getPlanner(venueId?: string): ItineraryPlanner {
+  const pack = getVenuePack(venueId) ?? getDefaultVenuePack();
+  const id = pack.manifest.id;
+  if (!PLANNERS.has(id)) {
+    PLANNERS.set(id, new ItineraryPlanner(pack));
+  }
+  return PLANNERS.get(id) as ItineraryPlanner;
+}
+
+const ITINERARY_PLANNING_PARAMETERS = z
+  .object({
+    budgetMinutes: z
+      .number()
+      .int()
+      .min(10)
+      .max(720)
+      .describe("Time the traveller has, in minutes, e.g. 120 for \"two hours\"."),
+    start: z
+      .string()
+      .nullable()
+      .describe(
+        "Where they start, e.g. \"Terminal 1\". Null to use their shared position or start at the first stop."
+      ),
+    interests: z
+      .array(z.string())
+      .nullable()
+      .describe(
+        "Interests mentioned in this conversation, e.g. [\"photography\"]. Their saved interests are added automatically."
+      ),
+  })
+  .strict();
+
+type ItineraryPlanningInput = z.infer<typeof ITINERARY_PLANNING_PARAMETERS>;
+
+// Picks and orders the venue's POIs to fit the traveller's time budget.
+export const itineraryPlanningTool = tool({
+  name: "plan_itinerary",
+  description:
+    "Plan what to see in a limited time: picks and orders the venue's highlights to fit the traveller's time budget, with walking times, visit lengths, opening hours and showtimes. Use for \"I have two hours, what should I do?\" or layover questions.",
+  parameters: ITINERARY_PLANNING_PARAMETERS,
+  strict: true,
+  execute: async (
+    input: ItineraryPlanningInput,
+    runCtx?: RunContext<TourAgentContext>
+  ): Promise<string> => {
+    const context = runCtx?.context;
+    const planner = getPlanner(context?.venueId);
+    const interests = Array.from(
+      new Set([...(context?.interests ?? []), ...(input.interests ?? [])])
+    );
+
+    const itinerary = planner.plan({
+      budgetMinutes: input.budgetMinutes,
+      interests,
+      pace: context?.pace,
+      start: input.start ?? undefined,
+      location: context?.location,
+      accessibility: context?.accessibility,
+    });
+
+    context?.runTrace?.itineraryLookups.push({
+      budgetMinutes: input.budgetMinutes,
+      start: input.start,
+      poiIds: itinerary.stops.map((stop) => stop.poi.id),
+      usedMinutes: itinerary.usedMinutes,
+      knowledgeIds: Array.from(
+        new Set(
+          itinerary.stops
+            .map((stop) => stop.node?.knowledgeId)
+            .filter((id): id is string => Boolean(id))
+        )
+      ),
+    });
+
+    console.info("[TourGuideAgent] itinerary planning tool triggered", {
+      venueId: context?.venueId,
+      budgetMinutes: input.budgetMinutes,
+      start: itinerary.start?.id ?? input.start,
+      stops: itinerary.stops.map((stop) => stop.poi.id),
+      interests,
+    });
+
+    return [
+      `Plan for ${input.budgetMinutes} minutes starting ${planner.formatTime(
+        itinerary.startAt
+      )}${itinerary.start ? ` at ${itinerary.start.name}` : ""}:`,
+      ...planner.describe(itinerary),
+      "Walking times are typical and visit lengths follow the traveller's pace; use `plan_route` for turn-by-turn directions.",
+    ].join("\n");
+  },
+});
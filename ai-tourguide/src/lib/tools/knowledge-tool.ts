@@ -1,180 +1,223 @@
-import { Agent, run, setDefaultOpenAIKey, tool } from "@openai/agents";
+import { RunContext, tool } from "@openai/agents";
 import { z } from "zod";
-import knowledgeIndex from "@/data/changi-jewel/index.json";
-
-export type KnowledgeSource = {
-  type: string;
-  note?: string;
-  url?: string;
-};
-
-export type KnowledgeEntry = {
-  id: string;
-  name: string;
-  summary: string;
-  details: string;
-  tags?: string[];
-  location?: {
-    lat?: number;
-    lng?: number;
-    level?: string;
-  };
-  sources?: KnowledgeSource[];
-};
-
-type KnowledgeIndexFile = {
-  meta: {
-    version: string;
-    scope?: string;
-    notes?: string;
-  };
-  entries: KnowledgeEntry[];
-};
-
-export type KnowledgeMatch = KnowledgeEntry & {
-  score: number;
-  highlights: string[];
-};
+import {
+  AccessibilityNeed,
+  describeAccessibilityNeeds,
+  formatAccessibilityInfo,
+  isSuitableFor,
+} from "../accessibility";
+import { LocationHint, formatDistance } from "../geo";
+import { compileKnowledgeBase } from "../knowledge-compiler";
+import {
+  KnowledgeEntry,
+  KnowledgeIndexFile,
+  KnowledgeMatch,
+  KnowledgeSearchIndex,
+  NearbyKnowledgeMatch,
+} from "../knowledge-index";
+import { getKnowledgeStore } from "../knowledge-store";
+import { LlmAgent, LlmProvider } from "../llm";
+import { Persona, describeSinglishUsage, resolvePersona } from "../personas";
+import type { NormalizedUserPreferences } from "../storytelling";
+import { VenuePack, getDefaultVenuePack, getVenuePack } from "../venues";
+import type { ItineraryLookupTrace } from "./itinerary-tool";
+import type { ScheduleLookupTrace } from "./schedule-tool";
+import type { RouteLookupTrace } from "./wayfinding-tool";
+
+export type {
+  KnowledgeEntry,
+  KnowledgeMatch,
+  KnowledgeSource,
+  NearbyKnowledgeMatch,
+} from "../knowledge-index";
 
 export type KnowledgeLookupTrace = {
   query: string;
   limit: number;
   minimumScore: number;
   matches: KnowledgeMatch[];
+  /** Best raw scores before the minimum-score cut, for the knowledge gap log. */
+  topScores: Array<{ id: string; score: number }>;
+};
+
+export type NearbyLookupTrace = {
+  location: LocationHint;
+  radiusMeters: number;
+  matches: NearbyKnowledgeMatch[];
 };
 
 export type TourAgentContext = {
+  venueId: string;
+  /** The traveller's own words, screened by the input guardrails apart from history. */
+  query?: string;
+  venueName?: string;
+  city?: string;
   placeName?: string;
   lang?: string;
+  location?: LocationHint;
   minimumKnowledgeScore?: number;
   preferWebSearch?: boolean;
+  /** Parsed from the traveller's accessibility notes; shapes tips and routes. */
+  accessibility?: AccessibilityNeed[];
+  /** The traveller's saved interests and pace; shape itineraries. */
+  interests?: string[];
+  pace?: NormalizedUserPreferences["preferredPace"];
+  /** Guide persona from `lib/personas`; shapes the digest's voice. */
+  personaId?: string;
+  sessionId?: string;
+  /** Set once the usage budget is spent; lookups return raw notes without a digest. */
+  conserveUsage?: boolean;
   runTrace: {
     knowledgeLookups: KnowledgeLookupTrace[];
+    nearbyLookups: NearbyLookupTrace[];
+    scheduleLookups: ScheduleLookupTrace[];
+    routeLookups: RouteLookupTrace[];
+    itineraryLookups: ItineraryLookupTrace[];
   };
 };
 
-const KNOWLEDGE: KnowledgeIndexFile = knowledgeIndex;
-
-export const MAX_QUERY_LENGTH = 3000;
+type VenueKnowledge = {
+  venueName: string;
+  version: string;
+  index: KnowledgeSearchIndex;
+};
 
-const KNOWLEDGE_DIGEST_MODEL =
-  process.env.KNOWLEDGE_DIGEST_MODEL ?? "gpt-4o-mini";
+function buildVenueKnowledge(
+  pack: VenuePack,
+  knowledgeIndex: KnowledgeIndexFile
+): VenueKnowledge {
+  const { manifest, knowledgeBase, synonyms } = pack;
+  return {
+    venueName: manifest.name,
+    version: knowledgeIndex.meta.version,
+    index: new KnowledgeSearchIndex(
+      [
+        ...knowledgeIndex.entries,
+        ...(knowledgeBase
+          ? compileKnowledgeBase(knowledgeBase, { venueName: manifest.name })
+          : []),
+      ],
+      { synonyms: synonyms?.groups }
+    ),
+  };
+}
 
-let knowledgeDigestAgent: Agent | null = null;
+// Indexes are rebuilt only when the published knowledge version changes.
+const VENUE_KNOWLEDGE = new Map<string, VenueKnowledge>();
 
-function ensureKnowledgeDigestAgent(): Agent {
-  if (!knowledgeDigestAgent) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "OPENAI_API_KEY is required to run the knowledge digest agent."
-      );
-    }
-    setDefaultOpenAIKey(apiKey);
-    knowledgeDigestAgent = new Agent({
-      name: "Jewel Knowledge Digest",
-      model: KNOWLEDGE_DIGEST_MODEL,
-      instructions:
-        "You read curated Jewel Changi Airport notes and craft concise grounded answers. Reference entry names when helpful and keep replies to 2-3 sentences.",
-    });
+async function getVenueKnowledge(venueId?: string): Promise<VenueKnowledge> {
+  const pack = getVenuePack(venueId) ?? getDefaultVenuePack();
+  const published = await getKnowledgeStore(pack).getPublishedIndex();
+  const cached = VENUE_KNOWLEDGE.get(pack.manifest.id);
+  if (cached?.version === published.meta.version) {
+    return cached;
   }
-  return knowledgeDigestAgent;
+
+  const knowledge = buildVenueKnowledge(pack, published);
+  VENUE_KNOWLEDGE.set(pack.manifest.id, knowledge);
+  return knowledge;
 }
 
-// Pre-compile regex for better performance
-const TOKENIZE_REGEX = /[^a-z0-9\s]+/g;
-const WHITESPACE_REGEX = /\s+/;
-
-function tokenize(text: string): string[] {
-  // Single pass: lowercase, clean, and split
-  const cleaned = text.toLowerCase().replace(TOKENIZE_REGEX, " ");
-  const tokens: string[] = [];
-  let start = 0;
-
-  // Manual split to avoid creating intermediate arrays
-  for (let i = 0; i <= cleaned.length; i++) {
-    if (i === cleaned.length || WHITESPACE_REGEX.test(cleaned[i])) {
-      if (i > start) {
-        tokens.push(cleaned.slice(start, i));
-      }
-      start = i + 1;
-    }
-  }
+/** The published `meta.version` of the venue's knowledge, used to invalidate caches. */
+export async function getKnowledgeVersion(venueId?: string): Promise<string> {
+  return (await getVenueKnowledge(venueId)).version;
+}
 
-  return tokens;
+/** Published entries by id; unknown ids (e.g. since-deleted entries) are skipped. */
+export async function getKnowledgeEntries(
+  ids: string[],
+  venueId?: string
+): Promise<KnowledgeEntry[]> {
+  const { index } = await getVenueKnowledge(venueId);
+  return ids
+    .map((id) => index.getEntry(id))
+    .filter((entry): entry is KnowledgeEntry => Boolean(entry));
 }
 
-function scoreEntry(
-  entry: KnowledgeEntry,
-  queryTokens: string[]
-): KnowledgeMatch | null {
-  let score = 0;
-  let exactMatches = 0;
-
-  // More sophisticated scoring with different weights
-  for (const token of queryTokens) {
-    // Exact matches in name get highest weight
-    if (entry.name.toLowerCase().includes(token)) {
-      score += 3;
-      exactMatches++;
-    }
-    // Matches in summary get medium weight
-    else if (entry.summary?.toLowerCase().includes(token)) {
-      score += 2;
-    }
-    // Matches in details get lower weight
-    else if (entry.details?.toLowerCase().includes(token)) {
-      score += 1;
-    }
-    // Tag matches get medium weight
-    else if (entry.tags?.some((tag) => tag.toLowerCase().includes(token))) {
-      score += 2;
-    }
-  }
+/**
+ * Renders entries exactly as the lookup tool hands them to the agent, so editors can
+ * preview a change before publishing it.
+ */
+export async function previewKnowledgeContext(
+  entries: KnowledgeEntry[],
+  venueId?: string
+): Promise<string> {
+  const { venueName } = await getVenueKnowledge(venueId);
+  const matches: KnowledgeMatch[] = entries.map((entry) => ({
+    ...entry,
+    score: 0,
+    highlights: [entry.summary, entry.details].filter(Boolean),
+  }));
+  return buildKnowledgeContext(matches, venueName);
+}
 
-  if (score === 0) {
-    return null;
-  }
+export const MAX_QUERY_LENGTH = 3000;
 
-  // Boost score for entries with more exact matches
-  score += exactMatches * 0.5;
+const KNOWLEDGE_DIGEST_MODEL =
+  process.env.KNOWLEDGE_DIGEST_MODEL ?? "gpt-4o-mini";
 
-  // Prepare highlights more efficiently
-  const highlights: string[] = [];
-  if (entry.summary) highlights.push(entry.summary);
-  if (entry.details) highlights.push(entry.details);
+// One digest agent per provider, so a guide agent's digests run where it runs.
+const KNOWLEDGE_DIGEST_AGENTS = new WeakMap<LlmProvider, LlmAgent>();
 
-  return { ...entry, score, highlights };
+function ensureKnowledgeDigestAgent(provider: LlmProvider): LlmAgent {
+  let agent = KNOWLEDGE_DIGEST_AGENTS.get(provider);
+  if (!agent) {
+    agent = provider.createAgent({
+      name: "Venue Knowledge Digest",
+      model: KNOWLEDGE_DIGEST_MODEL,
+      instructions:
+        "You read curated notes about a visitor attraction and craft concise grounded answers. Reference entry names when helpful and keep replies to 2-3 sentences.",
+    });
+    KNOWLEDGE_DIGEST_AGENTS.set(provider, agent);
+  }
+  return agent;
 }
 
-function searchKnowledgeIndex(query: string, limit = 3): KnowledgeMatch[] {
-  if (!query.trim()) {
-    return [];
+function formatLocationLine(
+  match: KnowledgeMatch | NearbyKnowledgeMatch
+): string | null {
+  const parts: string[] = [];
+  if (typeof match.distanceMeters === "number") {
+    parts.push(`About ${formatDistance(match.distanceMeters)} from the traveller`);
   }
-
-  const tokens = tokenize(query);
-  if (!tokens.length) {
-    return [];
+  if (match.location?.level) {
+    parts.push(match.location.level);
   }
+  return parts.length ? `Location: ${parts.join(", ")}.` : null;
+}
 
-  // Single pass: score, filter, and collect results
-  const matches: KnowledgeMatch[] = [];
+function formatAccessibilityLine(
+  entry: KnowledgeEntry,
+  needs: AccessibilityNeed[]
+): string | null {
+  const line = formatAccessibilityInfo(entry.accessibility, needs);
+  return line ? `Accessibility: ${line}` : null;
+}
 
-  for (const entry of KNOWLEDGE.entries) {
-    const match = scoreEntry(entry, tokens);
-    if (match) {
-      matches.push(match);
-    }
+function formatSourceLine(match: KnowledgeMatch): string {
+  let sourceLine = "Sources: internal field notes.";
+  if (match.sources?.length) {
+    const sourceNotes = match.sources.map(
+      (src) =>
+        `${src.type}${src.note ? ` (${src.note})` : ""}${
+          src.url ? ` <${src.url}>` : ""
+        }`
+    );
+    sourceLine = `Sources: ${sourceNotes.join("; ")}`;
   }
 
-  // Sort by score (descending) and take top results
-  matches.sort((a, b) => b.score - a.score);
-  return matches.slice(0, limit);
+  return match.lastVerified
+    ? `${sourceLine} Last verified: ${match.lastVerified}.`
+    : sourceLine;
 }
 
-function buildKnowledgeContext(matches: KnowledgeMatch[]): string {
+function buildKnowledgeContext(
+  matches: KnowledgeMatch[],
+  venueName: string,
+  needs: AccessibilityNeed[] = []
+): string {
   if (!matches.length) {
-    return "No indexed Jewel notes matched the request.";
+    return `No indexed ${venueName} notes matched the request.`;
   }
 
   // Pre-allocate array for better performance
@@ -186,26 +229,25 @@ function buildKnowledgeContext(matches: KnowledgeMatch[]): string {
       .slice(0, 2)
       .map((snippet) => `- ${snippet}`);
 
-    // Build source line more efficiently
-    let sourceLine = "Sources: internal field notes.";
-    if (match.sources?.length) {
-      const sourceNotes = match.sources.map(
-        (src) => `${src.type}${src.note ? ` (${src.note})` : ""}`
-      );
-      sourceLine = `Sources: ${sourceNotes.join("; ")}`;
-    }
+    const locationLine = formatLocationLine(match);
+    const accessibilityLine = formatAccessibilityLine(match, needs);
 
     lines[i] = [
       `Entry ${i + 1}: ${match.name} [${match.id}]`,
       ...bullets,
-      sourceLine,
+      ...(locationLine ? [locationLine] : []),
+      ...(accessibilityLine ? [accessibilityLine] : []),
+      formatSourceLine(match),
     ].join("\n");
   }
 
   return lines.join("\n\n");
 }
 
-function formatMatchesForDigest(matches: KnowledgeMatch[]): string {
+function formatMatchesForDigest(
+  matches: KnowledgeMatch[],
+  needs: AccessibilityNeed[]
+): string {
   const result: string[] = new Array(matches.length);
 
   for (let i = 0; i < matches.length; i++) {
@@ -227,15 +269,12 @@ function formatMatchesForDigest(matches: KnowledgeMatch[]): string {
       parts.push(`Tags: ${match.tags.join(", ")}`);
     }
 
-    // Build source line efficiently
-    let sourceLine = "Sources: internal field notes.";
-    if (match.sources?.length) {
-      const sourceNotes = match.sources.map(
-        (src) => `${src.type}${src.note ? ` (${src.note})` : ""}`
-      );
-      sourceLine = `Sources: ${sourceNotes.join("; ")}`;
+    const accessibilityLine = formatAccessibilityLine(match, needs);
+    if (accessibilityLine) {
+      parts.push(accessibilityLine);
     }
-    parts.push(sourceLine);
+
+    parts.push(formatSourceLine(match));
 
     result[i] = parts.join("\n");
   }
@@ -244,26 +283,39 @@ function formatMatchesForDigest(matches: KnowledgeMatch[]): string {
 }
 
 async function digestMatchesWithAgent(
+  provider: LlmProvider,
   query: string,
-  matches: KnowledgeMatch[]
+  matches: KnowledgeMatch[],
+  venueName: string,
+  needs: AccessibilityNeed[],
+  persona: Persona,
+  sessionId?: string
 ): Promise<string | null> {
   if (!matches.length) {
     return null;
   }
 
   try {
-    const agent = ensureKnowledgeDigestAgent();
-    const formattedMatches = formatMatchesForDigest(matches);
+    const agent = ensureKnowledgeDigestAgent(provider);
+    const formattedMatches = formatMatchesForDigest(matches, needs);
     const prompt = [
       `Traveller question: ${query}`,
-      "Grounded Jewel notes:",
+      `Grounded ${venueName} notes:`,
       formattedMatches,
-      "Respond as a friendly local guide. Use only the provided notes, keep to 2-3 sentences, mention entry names when helpful, and end with a short follow-up suggestion.",
-    ].join("\n\n");
-
-    const digestRun = await run(agent, prompt, { maxTurns: 4 });
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const output = (digestRun as any)?.finalOutput;
+      needs.length
+        ? `The traveller needs ${describeAccessibilityNeeds(needs)}. Follow the accessibility notes and do not suggest anything marked to skip.`
+        : null,
+      `Respond as ${persona.name}, ${persona.speakingStyle}. ${describeSinglishUsage(persona)}`,
+      "Use only the provided notes, keep to 2-3 sentences, mention entry names when helpful, and end with a short follow-up suggestion.",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const digestRun = await provider.runAgent(agent, prompt, {
+      maxTurns: 4,
+      usageTag: { feature: "knowledge-digest", sessionId },
+    });
+    const output = digestRun.finalOutput;
     if (typeof output === "string" && output.trim()) {
       return output.trim();
     }
@@ -276,7 +328,7 @@ async function digestMatchesWithAgent(
   return null;
 }
 
-// Tool that searches the curated Jewel knowledge index and records the lookup trace.
+// Tool that searches the active venue's knowledge index and records the lookup trace.
 const KNOWLEDGE_LOOKUP_PARAMETERS = z
   .object({
     query: z.string().min(1).max(MAX_QUERY_LENGTH),
@@ -287,68 +339,167 @@ const KNOWLEDGE_LOOKUP_PARAMETERS = z
 
 type KnowledgeLookupInput = z.infer<typeof KNOWLEDGE_LOOKUP_PARAMETERS>;
 
-export const knowledgeLookupTool = tool({
-  name: "lookup_local_knowledge",
-  description:
-    "Search the curated Jewel Changi Airport knowledge base for relevant entries. Use this before considering a web search.",
-  parameters: KNOWLEDGE_LOOKUP_PARAMETERS,
-  strict: true,
-  execute: async (
-    input: KnowledgeLookupInput,
-    runCtx: { context?: TourAgentContext }
-  ): Promise<string> => {
-    const limit = input.limit ?? 3;
-    const context = runCtx?.context as TourAgentContext | undefined;
-    const minimumScore =
-      input.minimumScore ?? context?.minimumKnowledgeScore ?? 1;
-
-    console.info("[TourGuideAgent] searching knowledge index", {
-      query: input.query,
-    });
+/**
+ * Builds the knowledge lookup tool for an agent. Digests of the matches run on the
+ * same provider as the agent, so mock and replayed runs never reach a live model.
+ */
+export function createKnowledgeLookupTool(provider: LlmProvider) {
+  return tool({
+    name: "lookup_local_knowledge",
+    description:
+      "Search the curated knowledge base for the venue the traveller is exploring (attractions, history, architecture, sustainability, awards, services, FAQs and trivia) for relevant entries. Use this before considering a web search.",
+    parameters: KNOWLEDGE_LOOKUP_PARAMETERS,
+    strict: true,
+    execute: async (
+      input: KnowledgeLookupInput,
+      runCtx?: RunContext<TourAgentContext>
+    ): Promise<string> => {
+      const limit = input.limit ?? 3;
+      const context = runCtx?.context;
+      const minimumScore =
+        input.minimumScore ?? context?.minimumKnowledgeScore ?? 1;
+
+      const venue = await getVenueKnowledge(context?.venueId);
+
+      console.info("[TourGuideAgent] searching knowledge index", {
+        query: input.query,
+        venueId: context?.venueId,
+        location: context?.location,
+      });
 
-    // Get more matches initially to filter by score, then limit
-    const allMatches = searchKnowledgeIndex(input.query, limit * 2);
-    const matches = allMatches
-      .filter((match) => match.score >= minimumScore)
-      .slice(0, limit);
+      // Get more matches initially to filter by score, then limit
+      const allMatches = venue.index.search(input.query, limit * 2, {
+        near: context?.location,
+      });
+      // Places unsuitable for the traveller's needs are dropped, not just flagged.
+      const needs = context?.accessibility ?? [];
+      const matches = allMatches
+        .filter((match) => match.score >= minimumScore)
+        .filter((match) => isSuitableFor(match.accessibility, needs))
+        .slice(0, limit);
+
+      // Update trace if context exists
+      if (context?.runTrace) {
+        context.runTrace.knowledgeLookups.push({
+          query: input.query,
+          limit,
+          minimumScore,
+          matches,
+          topScores: allMatches
+            .slice(0, 3)
+            .map((match) => ({ id: match.id, score: match.score })),
+        });
+      }
 
-    // Update trace if context exists
-    if (context?.runTrace) {
-      context.runTrace.knowledgeLookups.push({
+      console.info("[TourGuideAgent] knowledge lookup tool triggered", {
         query: input.query,
         limit,
         minimumScore,
-        matches,
+        matches: matches.map((match) => ({
+          id: match.id,
+          score: match.score,
+        })),
       });
+
+      if (!matches.length) {
+        return `No indexed knowledge matched "${input.query}".`;
+      }
+
+      // Build response more efficiently
+      const matchCount = matches.length;
+      const isPlural = matchCount !== 1;
+
+      const summary = buildKnowledgeContext(matches, venue.venueName, needs);
+      const digest = context?.conserveUsage
+        ? null
+        : await digestMatchesWithAgent(
+            provider,
+            input.query,
+            matches,
+            venue.venueName,
+            needs,
+            resolvePersona(context?.personaId),
+            context?.sessionId
+          );
+
+      if (digest) {
+        return `Knowledge digest from ${matchCount} entr${
+          isPlural ? "ies" : "y"
+        }\n\n${digest}\n\nSupporting notes:\n${summary}`;
+      }
+
+      return `Matched ${matchCount} knowledge entries for "${input.query}".\n\n${summary}`;
+    },
+  });
+}
+
+const NEARBY_LOOKUP_PARAMETERS = z
+  .object({
+    limit: z.number().int().min(1).max(8).optional().nullable(),
+    radiusMeters: z.number().int().min(10).max(2000).optional().nullable(),
+  })
+  .strict();
+
+type NearbyLookupInput = z.infer<typeof NEARBY_LOOKUP_PARAMETERS>;
+
+// Lists knowledge entries around the traveller's reported position, closest first.
+export const nearbyKnowledgeTool = tool({
+  name: "find_nearby_places",
+  description:
+    "List attractions and services close to the traveller's current position, sorted by walking distance. Use this for questions like \"what's near me?\" or \"anything around here?\". Only works when the traveller shared their location.",
+  parameters: NEARBY_LOOKUP_PARAMETERS,
+  strict: true,
+  execute: async (
+    input: NearbyLookupInput,
+    runCtx?: RunContext<TourAgentContext>
+  ): Promise<string> => {
+    const context = runCtx?.context;
+    const location = context?.location;
+    if (!location) {
+      return "The traveller has not shared their location. Ask where they are or which landmark they can see.";
     }
 
-    console.info("[TourGuideAgent] knowledge lookup tool triggered", {
-      query: input.query,
-      limit,
-      minimumScore,
+    const limit = input.limit ?? 5;
+    const radiusMeters = input.radiusMeters ?? 500;
+    const venue = await getVenueKnowledge(context?.venueId);
+    const needs = context?.accessibility ?? [];
+    const matches = venue.index
+      .nearby(location, { limit: limit * 2, radiusMeters })
+      .filter((match) => isSuitableFor(match.accessibility, needs))
+      .slice(0, limit);
+
+    context?.runTrace?.nearbyLookups.push({ location, radiusMeters, matches });
+
+    console.info("[TourGuideAgent] nearby lookup tool triggered", {
+      venueId: context?.venueId,
+      location,
+      radiusMeters,
       matches: matches.map((match) => ({
         id: match.id,
-        score: match.score,
+        distanceMeters: match.distanceMeters,
       })),
     });
 
     if (!matches.length) {
-      return `No indexed knowledge matched "${input.query}".`;
-    }
-
-    // Build response more efficiently
-    const matchCount = matches.length;
-    const isPlural = matchCount !== 1;
-
-    const summary = buildKnowledgeContext(matches);
-    const digest = await digestMatchesWithAgent(input.query, matches);
-
-    if (digest) {
-      return `Knowledge digest from ${matchCount} entr${
-        isPlural ? "ies" : "y"
-      }\n\n${digest}\n\nSupporting notes:\n${summary}`;
+      return `No mapped ${venue.venueName} spots within ${formatDistance(
+        radiusMeters
+      )} of the traveller.`;
     }
 
-    return `Matched ${matchCount} knowledge entries for "${input.query}".\n\n${summary}`;
+    const lines = matches.map((match, i) =>
+      [
+        `${i + 1}. ${match.name} [${match.id}]`,
+        `- ${match.summary}`,
+        formatLocationLine(match),
+        match.sameLevel ? "Same level as the traveller." : null,
+        formatAccessibilityLine(match, needs),
+      ]
+        .filter(Boolean)
+        .join("\n")
+    );
+
+    return `Closest ${venue.venueName} spots to the traveller:\n\n${lines.join(
+      "\n\n"
+    )}`;
   },
 });
@@ -0,0 +1,206 @@
+import { RunContext, tool } from "@openai/agents";
+import { z } from "zod";
+import {
+  OpenStatus,
+  ScheduleCalendar,
+  ShowOccurrence,
+} from "../schedules";
+import { getDefaultVenuePack, getVenuePack } from "../venues";
+import type { TourAgentContext } from "./knowledge-tool";
+
+export type ScheduleLookupTrace = {
+  question: ScheduleLookupInput["question"];
+  item?: string;
+  at: string;
+  /** Schedule item ids the answer was built from. */
+  itemIds: string[];
+  /** Knowledge entries linked to those items. */
+  knowledgeIds: string[];
+};
+
+const CALENDARS = new Map<string, ScheduleCalendar | null>();
+
+function getCalendar(venueId?: string): ScheduleCalendar | null {
+  const pack = getVenuePack(venueId) ?? getDefaultVenuePack();
+  const id = pack.manifest.id;
+  if (!CALENDARS.has(id)) {
+    CALENDARS.set(id, pack.schedule ? new ScheduleCalendar(pack.schedule) : null);
+  }
+  return CALENDARS.get(id) ?? null;
+}
+
+function formatRelative(target: Date, at: Date): string {
+  const minutes = Math.round((target.getTime() - at.getTime()) / 60_000);
+  if (minutes <= 0) {
+    return "now";
+  }
+  if (minutes < 60) {
+    return `in ${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `in ${hours} h ${rest} min` : `in ${hours} h`;
+}
+
+function describeStatus(
+  calendar: ScheduleCalendar,
+  status: OpenStatus,
+  at: Date
+): string {
+  const { item } = status;
+  let line: string;
+  if (status.alwaysOpen) {
+    line = `${item.name}: open 24 hours.`;
+  } else if (status.open && status.closesAt) {
+    const lastEntry = status.lastEntryAt
+      ? status.lastEntryAt > at
+        ? `, last entry ${calendar.formatWhen(status.lastEntryAt, at)}`
+        : ", last entry has passed"
+      : "";
+    line = `${item.name}: open now until ${calendar.formatWhen(
+      status.closesAt,
+      at
+    )} (closes ${formatRelative(status.closesAt, at)}${lastEntry}).`;
+  } else if (status.opensAt) {
+    line = `${item.name}: closed now, opens ${calendar.formatWhen(
+      status.opensAt,
+      at
+    )} (${formatRelative(status.opensAt, at)}).`;
+  } else {
+    line = `${item.name}: closed for the coming week.`;
+  }
+  return [line, status.note, item.notes].filter(Boolean).join(" ");
+}
+
+function describeShow(
+  calendar: ScheduleCalendar,
+  show: ShowOccurrence,
+  at: Date
+): string {
+  const timing =
+    show.startsAt <= at
+      ? `running now until ${calendar.formatTime(show.endsAt)}`
+      : `${calendar.formatWhen(show.startsAt, at)} (${formatRelative(
+          show.startsAt,
+          at
+        )})`;
+  return [`${show.item.name}: ${timing}.`, show.note].filter(Boolean).join(" ");
+}
+
+const SCHEDULE_LOOKUP_PARAMETERS = z
+  .object({
+    question: z
+      .enum(["open_now", "next_show", "coming_up"])
+      .describe(
+        "open_now: is a place open and until when. next_show: upcoming showtimes. coming_up: shows and open places the traveller can still catch within a time window."
+      ),
+    item: z
+      .string()
+      .nullable()
+      .describe(
+        "Place or show name, e.g. \"Canopy Park\" or \"Rain Vortex show\". Null for the whole venue."
+      ),
+    withinMinutes: z
+      .number()
+      .int()
+      .min(5)
+      .max(360)
+      .nullable()
+      .describe("Time window for coming_up; defaults to 45 minutes."),
+  })
+  .strict();
+
+type ScheduleLookupInput = z.infer<typeof SCHEDULE_LOOKUP_PARAMETERS>;
+
+// Answers time-sensitive questions from the venue's schedule in its local time zone.
+export const scheduleLookupTool = tool({
+  name: "check_schedule",
+  description:
+    "Check opening hours and showtimes against the current time at the venue. Use for \"is it open now?\", \"when's the next show?\" or \"what can I catch in the next 45 minutes?\".",
+  parameters: SCHEDULE_LOOKUP_PARAMETERS,
+  strict: true,
+  execute: async (
+    input: ScheduleLookupInput,
+    runCtx?: RunContext<TourAgentContext>
+  ): Promise<string> => {
+    const context = runCtx?.context;
+    const calendar = getCalendar(context?.venueId);
+    if (!calendar) {
+      return "No structured schedule is published for this venue. Use the local knowledge lookup instead.";
+    }
+
+    const at = new Date();
+    const item = input.item ? calendar.findItem(input.item) : undefined;
+    const lines: string[] = [];
+    let used: Array<{ id: string; knowledgeId?: string }> = [];
+
+    if (input.item && !item) {
+      lines.push(
+        `No schedule found for "${input.item}". Scheduled items: ${calendar.items
+          .map((candidate) => candidate.name)
+          .join(", ")}.`
+      );
+    } else if (input.question === "open_now") {
+      const statuses = (item ? [item] : calendar.items)
+        .map((candidate) => calendar.status(candidate.id, at))
+        .filter((status): status is OpenStatus => Boolean(status));
+      if (!statuses.length && item) {
+        lines.push(
+          `${item.name} has showtimes rather than opening hours; ask for the next show.`
+        );
+      }
+      lines.push(...statuses.map((status) => describeStatus(calendar, status, at)));
+      used = statuses.map((status) => status.item);
+    } else if (input.question === "next_show") {
+      const shows = calendar.nextShows({ itemId: item?.id, at, limit: 3 });
+      lines.push(
+        ...(shows.length
+          ? shows.map((show) => describeShow(calendar, show, at))
+          : ["No shows scheduled in the coming week."])
+      );
+      used = shows.map((show) => show.item);
+    } else {
+      const withinMinutes = input.withinMinutes ?? 45;
+      const { shows, open } = calendar.upcoming({ at, withinMinutes });
+      lines.push(`Within the next ${withinMinutes} minutes:`);
+      lines.push(
+        ...(shows.length
+          ? shows.map((show) => describeShow(calendar, show, at))
+          : ["No shows start in this window."])
+      );
+      lines.push(...open.map((status) => describeStatus(calendar, status, at)));
+      used = [...shows.map((show) => show.item), ...open.map((status) => status.item)];
+    }
+
+    const itemIds = Array.from(new Set(used.map((entry) => entry.id)));
+    const knowledgeIds = Array.from(
+      new Set(
+        used
+          .map((entry) => entry.knowledgeId)
+          .filter((id): id is string => Boolean(id))
+      )
+    );
+    context?.runTrace?.scheduleLookups.push({
+      question: input.question,
+      item: input.item ?? undefined,
+      at: at.toISOString(),
+      itemIds,
+      knowledgeIds,
+    });
+
+    console.info("[TourGuideAgent] schedule lookup tool triggered", {
+      venueId: context?.venueId,
+      question: input.question,
+      item: item?.id ?? input.item,
+      itemIds,
+    });
+
+    return [
+      `Current time at the venue: ${calendar.formatDateTime(at)} (${
+        calendar.timezone
+      }).`,
+      ...lines,
+      "Times follow the regular schedule and can change for events or maintenance.",
+    ].join("\n");
+  },
+});
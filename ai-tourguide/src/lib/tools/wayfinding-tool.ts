@@ -0,0 +1,165 @@
+import { RunContext, tool } from "@openai/agents";
+import { z } from "zod";
+import { needsStepFree } from "../accessibility";
+import { formatDistance } from "../geo";
+import { getDefaultVenuePack, getVenuePack } from "../venues";
+import {
+  NavigationNode,
+  WayfindingGraph,
+  formatWalkingTime,
+} from "../wayfinding";
+import type { TourAgentContext } from "./knowledge-tool";
+
+export type RouteLookupTrace = {
+  from: string | null;
+  to: string;
+  /** Origin was the traveller's reported position rather than a named place. */
+  fromLocation: boolean;
+  /** Node ids along the route; empty when no route was found. */
+  nodeIds: string[];
+  totalSeconds?: number;
+  /** Route avoided stairs and escalators for the traveller's needs. */
+  stepFree: boolean;
+  /** Knowledge entries linked to the route's endpoints. */
+  knowledgeIds: string[];
+};
+
+const GRAPHS = new Map<string, WayfindingGraph | null>();
+
+function getGraph(venueId?: string): WayfindingGraph | null {
+  const pack = getVenuePack(venueId) ?? getDefaultVenuePack();
+  const id = pack.manifest.id;
+  if (!GRAPHS.has(id)) {
+    GRAPHS.set(
+      id,
+      pack.navigation ? new WayfindingGraph(pack.navigation) : null
+    );
+  }
+  return GRAPHS.get(id) ?? null;
+}
+
+const ROUTE_PLANNING_PARAMETERS = z
+  .object({
+    from: z
+      .string()
+      .nullable()
+      .describe(
+        "Starting point, e.g. \"Terminal 1\" or \"MRT\". Null to start from the traveller's shared position."
+      ),
+    to: z
+      .string()
+      .describe("Destination, e.g. \"Canopy Park\" or \"Rain Vortex\"."),
+  })
+  .strict();
+
+type RoutePlanningInput = z.infer<typeof ROUTE_PLANNING_PARAMETERS>;
+
+// Returns step-by-step indoor directions with walking times from the venue graph.
+export const routePlanningTool = tool({
+  name: "plan_route",
+  description:
+    "Give step-by-step walking directions between two places in the venue (terminals, MRT, attractions, food hall) with an estimated walking time. Use for \"how do I get to…?\" questions.",
+  parameters: ROUTE_PLANNING_PARAMETERS,
+  strict: true,
+  execute: async (
+    input: RoutePlanningInput,
+    runCtx?: RunContext<TourAgentContext>
+  ): Promise<string> => {
+    const context = runCtx?.context;
+    const graph = getGraph(context?.venueId);
+    const needs = context?.accessibility ?? [];
+    if (!graph) {
+      return "No navigation map is available for this venue. Describe the way using the local knowledge notes instead.";
+    }
+
+    const trace: RouteLookupTrace = {
+      from: input.from,
+      to: input.to,
+      fromLocation: !input.from,
+      stepFree: needsStepFree(needs),
+      nodeIds: [],
+      knowledgeIds: [],
+    };
+    context?.runTrace?.routeLookups.push(trace);
+
+    let origin: NavigationNode | undefined;
+    let approachSeconds = 0;
+    let approachLine: string | null = null;
+    if (input.from) {
+      origin = graph.findNode(input.from);
+    } else if (context?.location) {
+      const nearest = graph.nearestNode(context.location);
+      if (nearest) {
+        origin = nearest.node;
+        approachSeconds = WayfindingGraph.walkingSeconds(nearest.distanceMeters);
+        approachLine = `Start: about ${formatDistance(
+          nearest.distanceMeters
+        )} from ${origin.name} (${origin.level}).`;
+      }
+    } else {
+      return "The traveller has not said where they are starting from. Ask which terminal, entrance or landmark they are near.";
+    }
+
+    const destination = graph.findNode(input.to);
+    if (!origin || !destination) {
+      const missing = !origin ? input.from ?? "the traveller's position" : input.to;
+      return `Could not place "${missing}" on the ${
+        context?.venueName ?? "venue"
+      } map. Ask the traveller for a nearby landmark, terminal or level.`;
+    }
+    if (origin.id === destination.id) {
+      return `The traveller is already at ${destination.name} (${destination.level}).`;
+    }
+
+    const route = graph.route(origin.id, destination.id, {
+      stepFree: trace.stepFree,
+      avoidCrowds: needs.includes("avoid-crowds"),
+    });
+
+    console.info("[TourGuideAgent] route planning tool triggered", {
+      venueId: context?.venueId,
+      from: origin.id,
+      to: destination.id,
+      steps: route?.steps.length ?? 0,
+      totalSeconds: route?.totalSeconds,
+      needs,
+    });
+
+    if (!route) {
+      return trace.stepFree
+        ? `No mapped step-free route from ${origin.name} to ${destination.name}. Suggest asking venue staff for lift access.`
+        : `No mapped walking route from ${origin.name} to ${destination.name}.`;
+    }
+
+    const totalSeconds = route.totalSeconds + approachSeconds;
+    trace.nodeIds = [origin.id, ...route.steps.map((step) => step.to.id)];
+    trace.totalSeconds = totalSeconds;
+    trace.knowledgeIds = [origin.knowledgeId, destination.knowledgeId].filter(
+      (id): id is string => Boolean(id)
+    );
+
+    const steps = route.steps.map(
+      (step, i) =>
+        `${i + 1}. ${step.instruction} (~${formatWalkingTime(step.seconds)})`
+    );
+
+    const restStopsLine =
+      needs.includes("rest-stops") && route.restStops.length
+        ? `Seating along the way: ${route.restStops
+            .map((node) => node.name)
+            .join(", ")}.`
+        : null;
+
+    return [
+      `Route from ${origin.name} (${origin.level}) to ${destination.name} (${destination.level})${
+        trace.stepFree ? ", step-free (lifts only, no stairs or escalators)" : ""
+      }.`,
+      approachLine,
+      ...steps,
+      `Estimated walking time: about ${formatWalkingTime(totalSeconds)}.`,
+      restStopsLine,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  },
+});
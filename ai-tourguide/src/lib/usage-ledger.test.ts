@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { Agent, MaxTurnsExceededError } from "@openai/agents";
+import { MeteredProvider } from "./llm/metered-provider";
+import type { LlmProvider } from "./llm/types";
+import { UsageLedger, getUsageLedger } from "./usage-ledger";
+
+async function tempLedgerPath(): Promise<string> {
+  const dir = await fs.mkdtemp(join(tmpdir(), "usage-ledger-"));
+  return join(dir, "usage-ledger.json");
+}
+
+const usage = { requests: 2, inputTokens: 900, outputTokens: 100, totalTokens: 1000 };
+
+describe("UsageLedger", () => {
+  it("keeps every entry when records run concurrently", async () => {
+    const filePath = await tempLedgerPath();
+    const ledger = new UsageLedger({ filePath });
+
+    await Promise.all([
+      ledger.todayTotals(),
+      ...["s1", "s2", "s3"].map((sessionId) =>
+        ledger.record({ feature: "agent", sessionId, provider: "mock", usage })
+      ),
+    ]);
+
+    const reloaded = new UsageLedger({ filePath });
+    assert.equal((await reloaded.todayTotals()).totalTokens, 3000);
+    assert.equal((await reloaded.sessionTotals("s2")).requests, 2);
+  });
+});
+
+describe("MeteredProvider", () => {
+  it("charges the tokens a run spent before it failed", async () => {
+    process.env.USAGE_LEDGER_PATH = await tempLedgerPath();
+    const failing: LlmProvider = {
+      name: "mock",
+      chat: async () => ({ text: "", usage }),
+      respond: async () => ({ text: "", usage }),
+      createAgent: (options) => new Agent(options),
+      runAgent: async () => {
+        // The SDK attaches its run state, and so the usage so far, to run errors.
+        const state = { _context: { usage } };
+        throw new MaxTurnsExceededError(
+          "Max turns (6) exceeded",
+          state as unknown as ConstructorParameters<typeof MaxTurnsExceededError>[1]
+        );
+      },
+    };
+    const provider = new MeteredProvider(failing);
+    const agent = provider.createAgent({
+      name: "Guide",
+      instructions: "Answer.",
+      model: "gpt-4.1-mini",
+    });
+
+    await assert.rejects(
+      provider.runAgent(agent, "hello", {
+        usageTag: { feature: "agent", sessionId: "s1" },
+      }),
+      MaxTurnsExceededError
+    );
+    assert.equal((await getUsageLedger().sessionTotals("s1")).totalTokens, 1000);
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * Persistent ledger of what every model and voice call costs, attributed to the
+ * traveller's session and the feature that made it (agent runs, the knowledge digest,
+ * the friendly-tone rewrite, image analysis, POI narration and ElevenLabs speech).
+ * Recent entries are kept for per-session totals; day totals are kept for good.
+ *
+ * `checkBudget()` compares a session's spend and today's spend with the configured
+ * limits. Callers degrade instead of failing when a budget is used up: the rewrite is
+ * skipped, the digest returns raw notes, narration uses the offline template and
+ * speech falls back to the browser voice. Day buckets are UTC dates.
+ *
+ * Costs are estimates from list prices; only the OpenAI provider is charged, so mock
+ * and replayed runs count tokens but cost nothing.
+ *
+ * Example:
+ *   const ledger = getUsageLedger();
+ *   await ledger.record({ feature: "rewrite", sessionId, provider: "openai", model, usage });
+ *   if (!(await ledger.checkBudget(sessionId)).withinBudget) { ...skip the rewrite... }
+ */
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import { dirname, resolve } from "path";
+
+import type { LlmUsage } from "./llm/types";
+
+export type UsageFeature =
+  | "agent"
+  | "knowledge-digest"
+  | "rewrite"
+  | "image-analysis"
+  | "narration"
+  | "tts"
+  | "other";
+
+export type UsageTotals = {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Characters sent to ElevenLabs. */
+  characters: number;
+  costUsd: number;
+};
+
+export type UsageEntry = UsageTotals & {
+  id: string;
+  feature: UsageFeature;
+  sessionId?: string;
+  provider: string;
+  model?: string;
+  recordedAt: string;
+};
+
+export type UsageDay = {
+  date: string;
+  totals: UsageTotals;
+  byFeature: Partial<Record<UsageFeature, UsageTotals>>;
+};
+
+export type UsageLedgerFile = {
+  meta: {
+    version: string;
+    lastUpdated?: string;
+  };
+  entries: UsageEntry[];
+  days: Record<string, UsageDay>;
+};
+
+export type UsageRecordInput = {
+  feature: UsageFeature;
+  sessionId?: string;
+  provider: string;
+  model?: string;
+  usage?: LlmUsage;
+  characters?: number;
+};
+
+export type UsageBudgets = {
+  sessionTokens: number;
+  sessionCostUsd: number;
+  dailyCostUsd: number;
+};
+
+export type UsageBudgetReason = "session-tokens" | "session-cost" | "daily-cost";
+
+export type UsageBudgetStatus = {
+  withinBudget: boolean;
+  reason?: UsageBudgetReason;
+  session?: UsageTotals;
+  today: UsageTotals;
+  budgets: UsageBudgets;
+};
+
+export type UsageSessionSummary = {
+  sessionId: string;
+  totals: UsageTotals;
+  features: UsageFeature[];
+  firstSeen: string;
+  lastSeen: string;
+};
+
+export type UsageReport = {
+  generatedAt: string;
+  budgets: UsageBudgets;
+  today: UsageTotals;
+  totals: UsageTotals;
+  byFeature: Partial<Record<UsageFeature, UsageTotals>>;
+  /** Newest first. */
+  days: UsageDay[];
+  /** Costliest first, from the recent entries still in the ledger. */
+  sessions: UsageSessionSummary[];
+};
+
+const DEFAULT_LEDGER_PATH = resolve(process.cwd(), "data/usage/ledger.json");
+const DEFAULT_MAX_ENTRIES = 5000;
+const DEFAULT_BUDGETS: UsageBudgets = {
+  sessionTokens: 40000,
+  sessionCostUsd: 0.5,
+  dailyCostUsd: 20,
+};
+const MAX_REPORT_SESSIONS = 25;
+
+// USD per million tokens; unknown models are charged at the gpt-4o rate.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+};
+const FALLBACK_MODEL_PRICE = MODEL_PRICES["gpt-4o"];
+const ELEVENLABS_USD_PER_1K_CHARACTERS = 0.3;
+
+function parseNumber(value: string | undefined, fallback: number) {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number.parseFloat(value);
+  return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function utcDate(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+export function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    characters: 0,
+    costUsd: 0,
+  };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): UsageTotals {
+  target.requests += source.requests;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.totalTokens += source.totalTokens;
+  target.characters += source.characters;
+  target.costUsd = roundCost(target.costUsd + source.costUsd);
+  return target;
+}
+
+export function estimateUsageCost(input: UsageRecordInput): number {
+  if (input.provider !== "openai" && input.provider !== "elevenlabs") {
+    return 0;
+  }
+  const price =
+    (input.model && MODEL_PRICES[input.model]) || FALLBACK_MODEL_PRICE;
+  const tokenCost = input.usage
+    ? (input.usage.inputTokens * price.input +
+        input.usage.outputTokens * price.output) /
+      1e6
+    : 0;
+  const characterCost =
+    ((input.characters ?? 0) / 1000) *
+    parseNumber(
+      process.env.ELEVENLABS_USD_PER_1K_CHARACTERS,
+      ELEVENLABS_USD_PER_1K_CHARACTERS
+    );
+  return roundCost(tokenCost + characterCost);
+}
+
+export function resolveUsageBudgets(): UsageBudgets {
+  return {
+    sessionTokens: parseNumber(
+      process.env.USAGE_SESSION_TOKEN_BUDGET,
+      DEFAULT_BUDGETS.sessionTokens
+    ),
+    sessionCostUsd: parseNumber(
+      process.env.USAGE_SESSION_COST_BUDGET_USD,
+      DEFAULT_BUDGETS.sessionCostUsd
+    ),
+    dailyCostUsd: parseNumber(
+      process.env.USAGE_DAILY_COST_BUDGET_USD,
+      DEFAULT_BUDGETS.dailyCostUsd
+    ),
+  };
+}
+
+export class UsageLedger {
+  private filePath: string;
+  private maxEntries: number;
+  private loading: Promise<UsageLedgerFile> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(opts?: { filePath?: string; maxEntries?: number }) {
+    this.filePath =
+      opts?.filePath ?? (process.env.USAGE_LEDGER_PATH || DEFAULT_LEDGER_PATH);
+    this.maxEntries = parseNumber(
+      process.env.USAGE_LEDGER_LIMIT,
+      opts?.maxEntries ?? DEFAULT_MAX_ENTRIES
+    );
+  }
+
+  record(input: UsageRecordInput): Promise<UsageEntry> {
+    return this.serialize(async () => {
+      const file = await this.read();
+      const recordedAt = new Date().toISOString();
+      const entry: UsageEntry = {
+        id: randomUUID(),
+        feature: input.feature,
+        sessionId: input.sessionId,
+        provider: input.provider,
+        model: input.model,
+        requests: input.usage?.requests ?? (input.characters ? 1 : 0),
+        inputTokens: input.usage?.inputTokens ?? 0,
+        outputTokens: input.usage?.outputTokens ?? 0,
+        totalTokens: input.usage?.totalTokens ?? 0,
+        characters: input.characters ?? 0,
+        costUsd: estimateUsageCost(input),
+        recordedAt,
+      };
+
+      file.entries.push(entry);
+      if (file.entries.length > this.maxEntries) {
+        file.entries.splice(0, file.entries.length - this.maxEntries);
+      }
+      const date = utcDate(recordedAt);
+      const day = (file.days[date] ??= {
+        date,
+        totals: emptyTotals(),
+        byFeature: {},
+      });
+      addTotals(day.totals, entry);
+      day.byFeature[entry.feature] = addTotals(
+        day.byFeature[entry.feature] ?? emptyTotals(),
+        entry
+      );
+      file.meta.lastUpdated = recordedAt;
+
+      try {
+        await this.write(file);
+      } catch (error) {
+        console.warn("[UsageLedger] write ledger failed", { error });
+      }
+      return entry;
+    });
+  }
+
+  async sessionTotals(sessionId: string): Promise<UsageTotals> {
+    const file = await this.read();
+    return file.entries
+      .filter((entry) => entry.sessionId === sessionId)
+      .reduce((totals, entry) => addTotals(totals, entry), emptyTotals());
+  }
+
+  async todayTotals(): Promise<UsageTotals> {
+    const file = await this.read();
+    const day = file.days[utcDate(new Date().toISOString())];
+    return day ? { ...day.totals } : emptyTotals();
+  }
+
+  /** Whether the session and today's spend are still inside the configured limits. */
+  async checkBudget(sessionId?: string): Promise<UsageBudgetStatus> {
+    const budgets = resolveUsageBudgets();
+    const today = await this.todayTotals();
+    const session = sessionId ? await this.sessionTotals(sessionId) : undefined;
+
+    let reason: UsageBudgetReason | undefined;
+    if (today.costUsd >= budgets.dailyCostUsd) {
+      reason = "daily-cost";
+    } else if (session && session.totalTokens >= budgets.sessionTokens) {
+      reason = "session-tokens";
+    } else if (session && session.costUsd >= budgets.sessionCostUsd) {
+      reason = "session-cost";
+    }
+
+    if (reason) {
+      console.info("[UsageLedger] budget exhausted, degrading", {
+        sessionId,
+        reason,
+      });
+    }
+    return { withinBudget: !reason, reason, session, today, budgets };
+  }
+
+  async report(opts: { days?: number } = {}): Promise<UsageReport> {
+    const file = await this.read();
+    const dayCount = Math.max(1, Math.floor(opts.days ?? 7));
+    const since = new Date(Date.now() - (dayCount - 1) * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+
+    const days = Object.values(file.days)
+      .filter((day) => day.date >= since)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    const totals = emptyTotals();
+    const byFeature: UsageReport["byFeature"] = {};
+    for (const day of days) {
+      addTotals(totals, day.totals);
+      for (const [feature, featureTotals] of Object.entries(day.byFeature)) {
+        const key = feature as UsageFeature;
+        byFeature[key] = addTotals(
+          byFeature[key] ?? emptyTotals(),
+          featureTotals
+        );
+      }
+    }
+
+    const sessions = new Map<string, UsageSessionSummary>();
+    for (const entry of file.entries) {
+      if (!entry.sessionId || utcDate(entry.recordedAt) < since) {
+        continue;
+      }
+      const summary = sessions.get(entry.sessionId) ?? {
+        sessionId: entry.sessionId,
+        totals: emptyTotals(),
+        features: [],
+        firstSeen: entry.recordedAt,
+        lastSeen: entry.recordedAt,
+      };
+      addTotals(summary.totals, entry);
+      if (!summary.features.includes(entry.feature)) {
+        summary.features.push(entry.feature);
+      }
+      summary.lastSeen = entry.recordedAt;
+      sessions.set(entry.sessionId, summary);
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      budgets: resolveUsageBudgets(),
+      today: await this.todayTotals(),
+      totals,
+      byFeature,
+      days,
+      sessions: Array.from(sessions.values())
+        .sort(
+          (a, b) =>
+            b.totals.costUsd - a.totals.costUsd ||
+            b.totals.totalTokens - a.totals.totalTokens
+        )
+        .slice(0, MAX_REPORT_SESSIONS),
+    };
+  }
+
+  /**
+   * Writes one entry at a time so calls finishing together cannot interleave their
+   * file writes and leave an older ledger on disk.
+   */
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(change);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Every caller shares the first load, so early reads cannot fork the snapshot. */
+  private read(): Promise<UsageLedgerFile> {
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  private async load(): Promise<UsageLedgerFile> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf-8");
+      const parsed = JSON.parse(raw) as UsageLedgerFile;
+      return {
+        meta: parsed?.meta ?? { version: "1" },
+        entries: Array.isArray(parsed?.entries) ? parsed.entries : [],
+        days: parsed?.days ?? {},
+      };
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+        console.warn("[UsageLedger] read ledger failed", { error });
+      }
+      return { meta: { version: "1" }, entries: [], days: {} };
+    }
+  }
+
+  private async write(file: UsageLedgerFile): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(file, null, 2), "utf-8");
+  }
+}
+
+let ledger: UsageLedger | null = null;
+
+/** One ledger for the app so every feature and the admin report share a snapshot. */
+export function getUsageLedger(): UsageLedger {
+  if (!ledger) {
+    ledger = new UsageLedger();
+  }
+  return ledger;
+}
@@ -0,0 +1,179 @@
+/**
+ * Venue packs bundle everything the guide needs for one place: a `manifest.json`
+ * (name, aliases, POI catalog order, default persona, bounding box), the
+ * curated knowledge index, an optional long-form knowledge base, answer cache seeds,
+ * a synonym table for query expansion, opening hours/showtimes and an indoor
+ * navigation graph.
+ *
+ * To ship a new venue, add `src/data/<venue>/manifest.json` plus its data files
+ * (`index.json`, `cache.json`, `synonyms.json`, `schedule.json`, `navigation.json`;
+ * validation reports refer to these names), import them into a `VenuePack` exported
+ * from the folder's `pack.ts`, and append it to `VENUE_PACK_SOURCES` in
+ * `src/data/packs.ts`. Packs are validated once when the server starts
+ * (`src/instrumentation.ts`) and by the scripts, so bad data fails loudly without
+ * shipping the validator to client pages; run `yarn validate:data` for the full report.
+ *
+ * Example:
+ *   const { pack } = resolveVenuePack({ placeName: "Changi Jewel" });
+ *   console.log(pack.manifest.name); // "Jewel Changi Airport"
+ */
+import type { ChangiJewelKnowledge } from "@/data/changi-jewel/types";
+import { VENUE_PACK_SOURCES } from "@/data/packs";
+
+import type { AnswerCacheFile } from "./answer-cache";
+import type { KnowledgeIndexFile } from "./knowledge-index";
+import type { SynonymTable } from "./query-expansion";
+import type { VenueSchedule } from "./schedules";
+import type { NavigationGraph } from "./wayfinding";
+import type { PlaceOfInterest } from "./storytelling";
+
+export type VenueBoundingBox = {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+};
+
+export type VenueManifest = {
+  id: string;
+  name: string;
+  aliases?: string[];
+  city?: string;
+  /** Published POI ids, in the order the UI should list them. */
+  poiCatalog: string[];
+  /** Persona id from `lib/personas`; its wake phrase summons the guide. */
+  defaultPersona: string;
+  boundingBox: VenueBoundingBox;
+};
+
+export type VenuePack = {
+  manifest: VenueManifest;
+  knowledgeIndex: KnowledgeIndexFile;
+  knowledgeBase?: ChangiJewelKnowledge;
+  pointsOfInterest: PlaceOfInterest[];
+  answerCache?: AnswerCacheFile;
+  synonyms?: SynonymTable;
+  schedule?: VenueSchedule;
+  navigation?: NavigationGraph;
+};
+
+export type VenueResolution = {
+  pack: VenuePack;
+  matchedBy: "id" | "placeName" | "coordinates" | "default";
+};
+
+export const VENUE_PACKS: VenuePack[] = VENUE_PACK_SOURCES;
+
+export const DEFAULT_VENUE_ID =
+  process.env.NEXT_PUBLIC_DEFAULT_VENUE ?? VENUE_PACKS[0].manifest.id;
+
+function normalisePlaceName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function listVenuePacks(): VenuePack[] {
+  return VENUE_PACKS;
+}
+
+export function getVenuePack(venueId?: string | null): VenuePack | undefined {
+  if (!venueId) {
+    return undefined;
+  }
+  return VENUE_PACKS.find((pack) => pack.manifest.id === venueId);
+}
+
+export function getDefaultVenuePack(): VenuePack {
+  return getVenuePack(DEFAULT_VENUE_ID) ?? VENUE_PACKS[0];
+}
+
+function matchPlaceName(placeName: string): VenuePack | undefined {
+  const target = normalisePlaceName(placeName);
+  if (!target) {
+    return undefined;
+  }
+
+  let best: { pack: VenuePack; length: number } | undefined;
+
+  for (const pack of VENUE_PACKS) {
+    const names = [pack.manifest.name, ...(pack.manifest.aliases ?? [])].map(
+      normalisePlaceName
+    );
+    for (const name of names) {
+      if (!name) {
+        continue;
+      }
+      // Prefer the longest alias contained in the place name so "Changi Airport
+      // Jewel" does not lose to a shorter alias of another venue.
+      const matched =
+        target === name ||
+        ` ${target} `.includes(` ${name} `) ||
+        ` ${name} `.includes(` ${target} `);
+      if (matched && (!best || name.length > best.length)) {
+        best = { pack, length: name.length };
+      }
+    }
+  }
+
+  return best?.pack;
+}
+
+export function isWithinVenue(
+  pack: VenuePack,
+  lat: number,
+  lng: number
+): boolean {
+  const { north, south, east, west } = pack.manifest.boundingBox;
+  return lat <= north && lat >= south && lng <= east && lng >= west;
+}
+
+export function resolveVenuePack(opts: {
+  venueId?: string | null;
+  placeName?: string | null;
+  lat?: number;
+  lng?: number;
+}): VenueResolution {
+  const byId = getVenuePack(opts.venueId);
+  if (byId) {
+    return { pack: byId, matchedBy: "id" };
+  }
+
+  if (opts.placeName) {
+    const byName = matchPlaceName(opts.placeName);
+    if (byName) {
+      return { pack: byName, matchedBy: "placeName" };
+    }
+  }
+
+  if (typeof opts.lat === "number" && typeof opts.lng === "number") {
+    const { lat, lng } = opts;
+    const byCoordinates = VENUE_PACKS.find((pack) =>
+      isWithinVenue(pack, lat, lng)
+    );
+    if (byCoordinates) {
+      return { pack: byCoordinates, matchedBy: "coordinates" };
+    }
+  }
+
+  return { pack: getDefaultVenuePack(), matchedBy: "default" };
+}
+
+/** The pack that publishes the given POI, falling back to the default venue. */
+export function findVenueForPoi(poiId: string): VenuePack {
+  return (
+    VENUE_PACKS.find((pack) =>
+      pack.pointsOfInterest.some((poi) => poi.id === poiId)
+    ) ?? getDefaultVenuePack()
+  );
+}
+
+/** POIs listed in the manifest's `poiCatalog`, in manifest order. */
+export function getPoiCatalog(pack: VenuePack): PlaceOfInterest[] {
+  const byId = new Map(pack.pointsOfInterest.map((poi) => [poi.id, poi]));
+  return pack.manifest.poiCatalog
+    .map((id) => byId.get(id))
+    .filter((poi): poi is PlaceOfInterest => Boolean(poi));
+}
@@ -1,5 +1,11 @@
+// Client pages import this module, so it depends on personas only, never on venue data.
+import { getPersona, resolvePersona } from "./personas";
+
+const CONFIGURED_WAKE_WORD =
+  process.env.NEXT_PUBLIC_WAKE_WORD || process.env.WAKE_WORD;
+
 export const DEFAULT_WAKE_WORD =
-  process.env.NEXT_PUBLIC_WAKE_WORD || process.env.WAKE_WORD || "hey wei jie";
+  CONFIGURED_WAKE_WORD || resolvePersona(null).wakePhrase;
 
 export type WakeWordDetectionResult = {
   matched: boolean;
@@ -39,6 +45,13 @@ export function hasWakeWordPrefix(text: string, wakeWord = DEFAULT_WAKE_WORD) {
   return detectAndStripWakeWord(text, wakeWord).matched;
 }
 
-export function getWakeWord(): string {
-  return DEFAULT_WAKE_WORD;
+/** The chosen persona's wake phrase, else the configured one, else the venue default's. */
+export function getWakeWord(
+  personaId?: string | null,
+  venue?: { manifest: { defaultPersona: string } }
+): string {
+  return (
+    getPersona(personaId)?.wakePhrase ??
+    (CONFIGURED_WAKE_WORD || resolvePersona(null, venue).wakePhrase)
+  );
 }
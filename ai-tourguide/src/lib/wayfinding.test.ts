@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getDefaultVenuePack } from "./venues";
+import { WayfindingGraph } from "./wayfinding";
+
+const graph = new WayfindingGraph(getDefaultVenuePack().navigation!);
+
+function instructions(fromId: string, toId: string): string[] {
+  const route = graph.route(fromId, toId);
+  assert.ok(route, `no route from ${fromId} to ${toId}`);
+  return route.steps.map((step) => step.instruction);
+}
+
+describe("WayfindingGraph.route", () => {
+  it("gives an edge's hint when walking it forwards", () => {
+    assert.ok(
+      instructions("rain_vortex_l1", "canopy_park_entrance").includes(
+        "Take the lift up to Level 5. Canopy Park tickets are checked when you exit on Level 5."
+      )
+    );
+  });
+
+  it("leaves the forward hint off when walking an edge back", () => {
+    const steps = instructions("canopy_park_entrance", "rain_vortex_l1");
+    assert.ok(steps.includes("Take the lift down to Level 1."));
+    assert.ok(steps.every((step) => !step.includes("tickets are checked")));
+  });
+
+  it("gives the reverse hint when walking an edge back", () => {
+    assert.ok(
+      instructions("forest_valley_l2", "t2_link_bridge").some((step) =>
+        step.endsWith("Follow the Terminal 2 signs across the air-conditioned link bridge.")
+      )
+    );
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Indoor navigation graph for a venue: entrances, lifts, escalators, bridges and POIs
+ * joined by edges that carry typical walking times. Routes are the quickest path by
+ * those times and come back as step-by-step directions.
+ *
+ * Lifts and escalators get one node per level they stop at, so a ride is an edge
+ * between two of them and the level change reads naturally in the directions.
+ *
+ * Step-free routes skip stairs, escalators and edges marked `stepFree: false`; routes
+ * that avoid crowds pay a time penalty on `busy` edges so quieter detours win when
+ * they are close.
+ *
+ * Example:
+ *   const graph = new WayfindingGraph(pack.navigation);
+ *   const route = graph.route("t1_arrival_hall", "canopy_park_entrance");
+ *   route?.steps.map((step) => step.instruction);
+ */
+import {
+  LocationHint,
+  haversineDistanceMeters,
+  isSameLevel,
+  levelNumber,
+} from "./geo";
+import { tokenize } from "./tokenizer";
+
+export type NavigationNodeKind =
+  | "entrance"
+  | "junction"
+  | "lift"
+  | "escalator"
+  | "bridge"
+  | "poi";
+
+export type NavigationEdgeKind =
+  | "walk"
+  | "lift"
+  | "escalator"
+  | "stairs"
+  | "bridge"
+  | "travelator";
+
+export type NavigationNode = {
+  id: string;
+  name: string;
+  kind: NavigationNodeKind;
+  level: string;
+  /** Knowledge entry describing the place, for POIs and landmarks. */
+  knowledgeId?: string;
+  aliases?: string[];
+  /** Benches or seats where the traveller can rest. */
+  seating?: boolean;
+  /**
+   * Free text such as "60–90 minutes" for places worth a stop of their own; the
+   * itinerary planner offers these alongside the venue's POIs.
+   */
+  suggestedDuration?: string;
+  lat?: number;
+  lng?: number;
+};
+
+export type NavigationEdge = {
+  from: string;
+  to: string;
+  kind: NavigationEdgeKind;
+  /** Typical walking or riding time. */
+  seconds: number;
+  /** Extra guidance shown with the step when walking `from` → `to`. */
+  hint?: string;
+  /** Guidance for walking the edge back, `to` → `from`. */
+  reverseHint?: string;
+  /** Edges can be walked both ways unless marked one-way (e.g. a single escalator). */
+  oneWay?: boolean;
+  /** Set `false` for walkways with steps; stairs and escalators never are. */
+  stepFree?: boolean;
+  /** Usually congested, e.g. the atrium around show times. */
+  busy?: boolean;
+};
+
+export type NavigationGraph = {
+  meta: {
+    version: string;
+    notes?: string;
+  };
+  nodes: NavigationNode[];
+  edges: NavigationEdge[];
+};
+
+export type RouteStep = {
+  from: NavigationNode;
+  to: NavigationNode;
+  kind: NavigationEdgeKind;
+  seconds: number;
+  instruction: string;
+};
+
+export type Route = {
+  from: NavigationNode;
+  to: NavigationNode;
+  steps: RouteStep[];
+  totalSeconds: number;
+  /** Nodes along the way with seating, origin excluded. */
+  restStops: NavigationNode[];
+};
+
+export type RouteOptions = {
+  stepFree?: boolean;
+  avoidCrowds?: boolean;
+};
+
+type Adjacent = {
+  node: string;
+  edge: NavigationEdge;
+};
+
+// Walking the last stretch from the traveller's position to the nearest node.
+const WALKING_METERS_PER_SECOND = 1.2;
+// A busy edge counts as this much longer when the traveller wants quieter routes.
+const BUSY_EDGE_PENALTY = 2;
+
+function isStepFree(edge: NavigationEdge): boolean {
+  return edge.kind !== "stairs" && edge.kind !== "escalator" && edge.stepFree !== false;
+}
+
+function describeStep(
+  kind: NavigationEdgeKind,
+  from: NavigationNode,
+  to: NavigationNode,
+  hint?: string
+): string {
+  const fromLevel = levelNumber(from.level);
+  const toLevel = levelNumber(to.level);
+  const direction =
+    fromLevel === undefined || toLevel === undefined || fromLevel === toLevel
+      ? ""
+      : toLevel > fromLevel
+      ? " up"
+      : " down";
+
+  let instruction: string;
+  switch (kind) {
+    case "lift":
+      instruction = `Take the lift${direction} to ${to.level}`;
+      break;
+    case "escalator":
+      instruction = `Ride the escalator${direction} to ${to.level}`;
+      break;
+    case "stairs":
+      instruction = `Take the stairs${direction} to ${to.level}`;
+      break;
+    case "bridge":
+      instruction = `Cross the bridge to ${to.name}`;
+      break;
+    case "travelator":
+      instruction = `Ride the travelator to ${to.name}`;
+      break;
+    default:
+      instruction = `Walk to ${to.name}`;
+  }
+  return hint ? `${instruction}. ${hint}` : `${instruction}.`;
+}
+
+export function formatWalkingTime(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  return `${minutes} min`;
+}
+
+export class WayfindingGraph {
+  private nodes = new Map<string, NavigationNode>();
+  private adjacency = new Map<string, Adjacent[]>();
+
+  constructor(graph: NavigationGraph) {
+    for (const node of graph.nodes) {
+      this.nodes.set(node.id, node);
+      this.adjacency.set(node.id, []);
+    }
+    for (const edge of graph.edges) {
+      this.adjacency.get(edge.from)?.push({ node: edge.to, edge });
+      if (!edge.oneWay) {
+        this.adjacency.get(edge.to)?.push({ node: edge.from, edge });
+      }
+    }
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  getNode(id: string): NavigationNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  /** Matches a node by id, knowledge id, alias or name words; POIs win ties. */
+  findNode(reference: string): NavigationNode | undefined {
+    const needle = reference.trim().toLowerCase();
+    const nodes = Array.from(this.nodes.values());
+    const exact =
+      this.nodes.get(needle) ??
+      nodes.find((node) => node.knowledgeId === needle) ??
+      nodes.find(
+        (node) =>
+          node.name.toLowerCase() === needle ||
+          node.aliases?.some((alias) => alias.toLowerCase() === needle)
+      );
+    if (exact) {
+      return exact;
+    }
+
+    const queryTokens = new Set(tokenize(reference));
+    if (!queryTokens.size) {
+      return undefined;
+    }
+    let best: { node: NavigationNode; score: number } | undefined;
+    for (const node of nodes) {
+      for (const label of [node.name, ...(node.aliases ?? [])]) {
+        const labelTokens = tokenize(label);
+        const hits = labelTokens.filter((token) => queryTokens.has(token)).length;
+        if (!hits) {
+          continue;
+        }
+        const score =
+          hits / labelTokens.length + (node.kind === "poi" ? 0.01 : 0);
+        if (!best || score > best.score) {
+          best = { node, score };
+        }
+      }
+    }
+    return best?.node;
+  }
+
+  /** Closest mapped node to the traveller, preferring nodes on their level. */
+  nearestNode(
+    location: LocationHint
+  ): { node: NavigationNode; distanceMeters: number } | undefined {
+    let best: { node: NavigationNode; distanceMeters: number; rank: number } | undefined;
+    for (const node of this.nodes.values()) {
+      if (typeof node.lat !== "number" || typeof node.lng !== "number") {
+        continue;
+      }
+      const distanceMeters = haversineDistanceMeters(location, {
+        lat: node.lat,
+        lng: node.lng,
+      });
+      const rank =
+        location.level && !isSameLevel(location.level, node.level)
+          ? distanceMeters + 1000
+          : distanceMeters;
+      if (!best || rank < best.rank) {
+        best = { node, distanceMeters, rank };
+      }
+    }
+    return best && { node: best.node, distanceMeters: best.distanceMeters };
+  }
+
+  /** Quickest route by walking time, or `undefined` when the nodes are not connected. */
+  route(fromId: string, toId: string, opts: RouteOptions = {}): Route | undefined {
+    const from = this.nodes.get(fromId);
+    const to = this.nodes.get(toId);
+    if (!from || !to) {
+      return undefined;
+    }
+
+    const best = new Map<string, number>([[fromId, 0]]);
+    const previous = new Map<string, Adjacent & { via: string }>();
+    const pending = new Set<string>([fromId]);
+    const settled = new Set<string>();
+
+    // Venue graphs have tens of nodes, so a linear scan beats a heap here.
+    while (pending.size) {
+      let current: string | undefined;
+      for (const id of pending) {
+        if (current === undefined || best.get(id)! < best.get(current)!) {
+          current = id;
+        }
+      }
+      if (current === undefined || current === toId) {
+        break;
+      }
+      pending.delete(current);
+      settled.add(current);
+
+      for (const next of this.adjacency.get(current) ?? []) {
+        if (settled.has(next.node) || (opts.stepFree && !isStepFree(next.edge))) {
+          continue;
+        }
+        const penalty =
+          opts.avoidCrowds && next.edge.busy ? BUSY_EDGE_PENALTY : 1;
+        const cost = best.get(current)! + next.edge.seconds * penalty;
+        if (cost < (best.get(next.node) ?? Number.POSITIVE_INFINITY)) {
+          best.set(next.node, cost);
+          previous.set(next.node, { ...next, via: current });
+          pending.add(next.node);
+        }
+      }
+    }
+
+    if (!best.has(toId)) {
+      return undefined;
+    }
+
+    const steps: RouteStep[] = [];
+    for (let id = toId; id !== fromId; ) {
+      const hop = previous.get(id)!;
+      const stepFrom = this.nodes.get(hop.via)!;
+      const stepTo = this.nodes.get(id)!;
+      steps.unshift({
+        from: stepFrom,
+        to: stepTo,
+        kind: hop.edge.kind,
+        seconds: hop.edge.seconds,
+        instruction: describeStep(
+          hop.edge.kind,
+          stepFrom,
+          stepTo,
+          hop.edge.from === hop.via ? hop.edge.hint : hop.edge.reverseHint
+        ),
+      });
+      id = hop.via;
+    }
+
+    return {
+      from,
+      to,
+      steps,
+      // Penalties only steer the search; report the real walking time.
+      totalSeconds: steps.reduce((sum, step) => sum + step.seconds, 0),
+      restStops: steps.map((step) => step.to).filter((node) => node.seating),
+    };
+  }
+
+  /** Walking time for a straight-line distance, used to reach the first node. */
+  static walkingSeconds(distanceMeters: number): number {
+    return Math.round(distanceMeters / WALKING_METERS_PER_SECOND);
+  }
+}
@@ -1,20 +1,25 @@
 "use server";
 
-import OpenAI from "openai";
-
+import {
+  describeAccessibilityNeeds,
+  formatAccessibilityInfo,
+} from "@/lib/accessibility";
+import { getLlmProvider } from "@/lib/llm";
+import { describePersonaStyle, resolvePersona } from "@/lib/personas";
 import {
   PlaceOfInterest,
   UserPreferences,
+  generateStorytellingForPlaceOfInterest,
   prepareUserPreferences,
 } from "@/lib/storytelling";
+import { getUsageLedger } from "@/lib/usage-ledger";
+import { findVenueForPoi } from "@/lib/venues";
 
 const DEFAULT_MODEL = process.env.OPENAI_TOUR_GUIDE_MODEL ?? "gpt-4.1-mini";
 const DEFAULT_TEMPERATURE = Number.parseFloat(
   process.env.OPENAI_TOUR_GUIDE_TEMPERATURE ?? "0.7"
 );
 
-let cachedClient: OpenAI | null = null;
-
 function toTitleCase(value: string): string {
   return value
     .split(" ")
@@ -37,23 +42,6 @@ function formatPersonaExtras(extras: Record<string, string>): string {
     .join("\n");
 }
 
-function getClient(): OpenAI {
-  if (cachedClient) {
-    return cachedClient;
-  }
-
-  const apiKey = process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error(
-      "Missing OPENAI_API_KEY. Add it to your environment to generate narrations with OpenAI."
-    );
-  }
-
-  cachedClient = new OpenAI({ apiKey });
-  return cachedClient;
-}
-
 type NarrationRequest = {
   poi: PlaceOfInterest;
   preferences: UserPreferences;
@@ -62,19 +50,39 @@ type NarrationRequest = {
    * Keep responses concise to maintain listener engagement.
    */
   extraGuidance?: string;
+  /** Guide persona from `lib/personas`; defaults to the venue's. */
+  personaId?: string;
+  sessionId?: string;
 };
 
 export async function narratePointOfInterestWithOpenAI({
   poi,
   preferences,
   extraGuidance,
+  personaId,
+  sessionId,
 }: NarrationRequest): Promise<string> {
-  const client = getClient();
+  // Past the session or daily budget, narrate from the offline template instead.
+  const budget = await getUsageLedger().checkBudget(sessionId);
+  if (!budget.withinBudget) {
+    console.info("[OpenAI][Narration] using template narration", {
+      poiId: poi.id,
+      reason: budget.reason,
+    });
+    return generateStorytellingForPlaceOfInterest(preferences, poi);
+  }
+
+  const provider = getLlmProvider();
   const prepared = prepareUserPreferences(preferences);
+  const venue = findVenueForPoi(poi.id);
+  const persona = resolvePersona(personaId, venue);
 
   console.info("[OpenAI][Narration] starting", {
     poiId: poi.id,
     poiName: poi.name,
+    venueId: venue.manifest.id,
+    persona: persona.id,
+    provider: provider.name,
     traveller: prepared.travelerName,
     tone: prepared.preferredTone,
     pace: prepared.preferredPace,
@@ -103,9 +111,17 @@ export async function narratePointOfInterestWithOpenAI({
 
   const extraPersonaNotes = formatPersonaExtras(prepared.extras);
   const defaultGuidance =
-    "Keep it super punchy (about 40 words). Drop playful Singlish beats — think “wah, so shiok”, “confirm can”, “steady lah” — while sharing one vivid detail linked to the traveller. End with a single short question that nudges their next move.";
+    "Keep it super punchy (about 40 words), sharing one vivid detail linked to the traveller. End with a single short question that nudges their next move.";
+
+  // Travellers with needs always hear how to get in, even at the 40-word cap.
+  const accessibilityGuidance = prepared.accessibilityNeeds.length
+    ? "Accessibility guidance: work in step-free access and the nearest lift, and never suggest any part listed under Skip."
+    : null;
 
   const userContent = `
+Venue: ${venue.manifest.name}${
+    venue.manifest.city ? `, ${venue.manifest.city}` : ""
+  }
 POI: ${poi.name}
 Summary: ${poi.summary}
 Highlights: ${highlights}
@@ -132,6 +148,15 @@ Raw pace hint: ${
       : "Not specified"
   }
 Accessibility notes: ${prepared.accessibilityNotes ?? "None"}
+Accessibility needs: ${
+    prepared.accessibilityNeeds.length
+      ? describeAccessibilityNeeds(prepared.accessibilityNeeds)
+      : "None"
+  }
+Getting around: ${
+    formatAccessibilityInfo(poi.accessibility, prepared.accessibilityNeeds) ??
+    "No access details on file"
+  }${accessibilityGuidance ? `\n${accessibilityGuidance}` : ""}
 Persona extras: ${extraPersonaNotes || "None"}
 
 Additional guidance: ${extraGuidance ?? defaultGuidance}
@@ -139,7 +164,7 @@ Additional guidance: ${extraGuidance ?? defaultGuidance}
 
   let response;
   try {
-    response = await client.responses.create({
+    response = await provider.respond({
       metadata: {
         source: "narratePointOfInterestWithOpenAI",
         poiId: poi.id,
@@ -148,12 +173,12 @@ Additional guidance: ${extraGuidance ?? defaultGuidance}
       temperature: Number.isNaN(DEFAULT_TEMPERATURE)
         ? 0.7
         : DEFAULT_TEMPERATURE,
-      max_output_tokens: 400,
+      maxOutputTokens: 400,
+      usageTag: { feature: "narration", sessionId },
       input: [
         {
           role: "system",
-          content:
-            "You are a friendly personal tour guide, sound like a young woman in her early 20s — cheerful, confident, and slightly dramatic, with natural Singlish rhythm and tone. She speaks fast and animatedly, with casual English and Singlish inflection (like “lah”, “leh”, “lor”, “sia”, “pls”, “eh”) plus cheeky phrases such as “wah, damn shiok hor”, “steady lah”, “don’t blur blur, can?”. The overall mood: charismatic, witty, expressive — a young Singaporean girl who can go from “LOL that one so cringe” to “but honestly, it’s kinda true lah”, with good pause using fullstops and break into paragraphs. Structure every reply as: (1) a snappy overview of the place, (2) one personalised highlight that links to the traveller's interests or needs without repeating my input, (3) exactly one leading question that invites them to continue exploring. Aim for two lively sentences followed by the question. Keep the delivery breezy, stay respectful and accessible, and cap everything at 40 words.",
+          content: `${describePersonaStyle(persona)} You are the traveller's personal tour guide; use good pauses with full stops and break into paragraphs. Structure every reply as: (1) a snappy overview of the place, (2) one personalised highlight that links to the traveller's interests or needs without repeating my input, (3) exactly one leading question that invites them to continue exploring. Aim for two lively sentences followed by the question. Keep the delivery breezy, stay respectful and accessible, and cap everything at 40 words.`,
         },
         {
           role: "user",
@@ -177,10 +202,10 @@ Additional guidance: ${extraGuidance ?? defaultGuidance}
     extraGuidance: Boolean(extraGuidance),
   });
 
-  const narration = response.output_text?.trim();
+  const narration = response.text.trim();
 
   if (!narration) {
-    throw new Error("OpenAI returned an empty narration response.");
+    throw new Error("The model returned an empty narration response.");
   }
 
   return narration;